@@ -0,0 +1,422 @@
+/**
+ * Headless workflow runner
+ *
+ * Runs a saved workflow file without the editor, calling the provider code
+ * directly, and writes output-node images plus a run report to a directory.
+ *
+ *   npm run workflow -- my-project/workflow.json --out renders/nightly \
+ *     --prompt "Scene prompt=A foggy harbour at dawn" --image imageInput-1=./ref.png
+ *
+ * API keys are read from the environment, or from .env.local / .env in the
+ * current directory.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseArgs } from "util";
+import { LLMGenerateNodeData, NodeStatus, RouterNodeData, SweepValues, WorkflowNode, WorkflowNodeData } from "@/types";
+import { DEFAULT_MAX_CONCURRENCY, runSweep, runWorkflow } from "@/engine/workflowEngine";
+import { localServices } from "@/engine/localServices-server";
+import { collectNodeStrings, isImageRef, replaceNodeStrings } from "@/utils/imageRefs";
+import { decodeImageDataUrl, readImageFile, readImageRef } from "@/utils/imageStore-server";
+import { formatIssues, prepareWorkflowFile } from "@/utils/workflowSchema";
+import { isDryRunForced } from "@/utils/dryRun-server";
+import { MAX_SWEEP_COMBINATIONS, countSweepCombinations, getSweepSources } from "@/utils/sweep";
+import { DEFAULT_RETRY_POLICY, MAX_RETRY_ATTEMPTS, resolveRetryPolicy } from "@/utils/retry";
+import { inlineSubgraphs } from "@/utils/subgraph";
+import { getBranchName } from "@/utils/router";
+
+const USAGE = `Usage: npm run workflow -- <workflow.json> [options]
+
+Options:
+  -o, --out <dir>            Directory for output images and report.json
+                             (default: runs/<workflow name>-<timestamp>)
+  --prompt <node>=<text>     Replace a prompt node's text. <node> is a node id or title.
+  --image <node>=<file>      Replace an image input node's image with a file
+  --dry-run                  Placeholder images and echoed text - no provider calls, no cost
+  --concurrency <n>          Max nodes running at once (default ${DEFAULT_MAX_CONCURRENCY})
+  --force                    Regenerate outputs saved with the workflow even if their
+                             inputs haven't changed
+  --attempts <n>             Tries per provider call (default ${DEFAULT_RETRY_POLICY.maxAttempts}). Rate limits,
+                             timeouts and server errors are retried with backoff.
+  --timeout <seconds>        Abort an attempt after this long, 0 for none
+                             (default ${DEFAULT_RETRY_POLICY.timeoutMs / 1000})
+  --continue-on-error        Keep running branches that don't depend on a failed node
+  -h, --help                 Show this message
+
+Prompt and Image Input nodes marked as lists run once per item (or per
+combination of items); output files then get a -001, -002, ... suffix.
+Pause edges are ignored and Split Grid, Transform and Combine Grid nodes
+are not supported. Masked generations are not composited back over the original
+image.`;
+
+interface NodeReport {
+  id: string;
+  type: string;
+  title: string | null;
+  result: "succeeded" | "cached" | "failed" | "cancelled" | "skipped";
+  status: NodeStatus | null;
+  error: string | null;
+  durationMs: number | null;
+  outputText?: string | null;
+  branch?: string | null;
+}
+
+interface RunReport {
+  workflow: { name: string; file: string };
+  status: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  cost: number;
+  overrides: { prompts: Record<string, string>; images: Record<string, string> };
+  outputs: OutputReport[];
+  // Present for sweep runs only
+  iterations?: Array<{ index: number; sweepValues: SweepValues; status: string }>;
+  nodes: NodeReport[];
+}
+
+interface OutputReport {
+  nodeId: string;
+  title: string | null;
+  file: string;
+  iteration?: number;
+  sweepValues?: SweepValues;
+}
+
+class UsageError extends Error {}
+
+function loadEnvFiles() {
+  [".env.local", ".env"].forEach((file) => {
+    try {
+      // Never overrides variables that are already set
+      process.loadEnvFile(file);
+    } catch {
+      // Missing env files are fine - keys may come from the environment
+    }
+  });
+}
+
+// Parse repeated "<node>=<value>" options
+function parseAssignments(values: string[] | undefined, option: string): Map<string, string> {
+  const assignments = new Map<string, string>();
+  (values || []).forEach((value) => {
+    const separator = value.indexOf("=");
+    if (separator <= 0) {
+      throw new UsageError(`${option} expects <node>=<value>, got "${value}"`);
+    }
+    assignments.set(value.slice(0, separator), value.slice(separator + 1));
+  });
+  return assignments;
+}
+
+const getNodeTitle = (node: WorkflowNode) => node.data.customTitle || null;
+
+// Name of the branch a router took in the last run
+const getRouterBranch = (data: RouterNodeData) =>
+  data.selectedBranch ? getBranchName(data.branches, data.selectedBranch) : null;
+
+// Find a node by id, or by title if no id matches. Titles must be unambiguous.
+function findNode(nodes: WorkflowNode[], key: string, type: WorkflowNode["type"], option: string): WorkflowNode {
+  const byId = nodes.find((node) => node.id === key);
+  const matches = byId ? [byId] : nodes.filter((node) => getNodeTitle(node) === key);
+
+  if (matches.length === 0) {
+    throw new UsageError(`${option}: no node with id or title "${key}"`);
+  }
+  if (matches.length > 1) {
+    throw new UsageError(`${option}: title "${key}" matches ${matches.length} nodes - use a node id (${matches.map((n) => n.id).join(", ")})`);
+  }
+  if (matches[0].type !== type) {
+    throw new UsageError(`${option}: node "${key}" is a ${matches[0].type} node, expected ${type}`);
+  }
+  return matches[0];
+}
+
+const toFileName = (value: string) =>
+  value.replace(/[^a-zA-Z0-9-_]/g, "_").replace(/_+/g, "_").replace(/^_|_$/g, "") || "output";
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      prompt: { type: "string", multiple: true },
+      image: { type: "string", multiple: true },
+      "dry-run": { type: "boolean" },
+      force: { type: "boolean" },
+      attempts: { type: "string" },
+      timeout: { type: "string" },
+      "continue-on-error": { type: "boolean" },
+      concurrency: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError("Expected exactly one workflow file");
+  }
+
+  loadEnvFiles();
+
+  const workflowPath = path.resolve(positionals[0]);
+  const workflowDir = path.dirname(workflowPath);
+  const promptOverrides = parseAssignments(values.prompt, "--prompt");
+  const imageOverrides = parseAssignments(values.image, "--image");
+  const dryRun = !!values["dry-run"] || isDryRunForced();
+  const maxConcurrency = values.concurrency ? parseInt(values.concurrency, 10) : DEFAULT_MAX_CONCURRENCY;
+  if (isNaN(maxConcurrency) || maxConcurrency < 1) {
+    throw new UsageError(`--concurrency expects a positive number, got "${values.concurrency}"`);
+  }
+  const maxAttempts = values.attempts ? parseInt(values.attempts, 10) : DEFAULT_RETRY_POLICY.maxAttempts;
+  if (isNaN(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_RETRY_ATTEMPTS) {
+    throw new UsageError(`--attempts expects a number from 1 to ${MAX_RETRY_ATTEMPTS}, got "${values.attempts}"`);
+  }
+  const timeoutSeconds = values.timeout ? parseFloat(values.timeout) : DEFAULT_RETRY_POLICY.timeoutMs / 1000;
+  if (isNaN(timeoutSeconds) || timeoutSeconds < 0) {
+    throw new UsageError(`--timeout expects a number of seconds, got "${values.timeout}"`);
+  }
+  const retryPolicy = resolveRetryPolicy(DEFAULT_RETRY_POLICY, { maxAttempts, timeoutMs: timeoutSeconds * 1000 });
+
+  // Load, migrate and validate exactly as the editor does
+  const { workflow, migratedFrom, warnings } = prepareWorkflowFile(
+    JSON.parse(await fs.readFile(workflowPath, "utf-8"))
+  );
+  if (migratedFrom !== null) {
+    console.log(`Migrated workflow from version ${migratedFrom}`);
+  }
+  if (warnings.length > 0) {
+    console.warn(formatIssues("Workflow loaded with problems", warnings));
+  }
+
+  // Saved workflows reference images in the images/ folder next to the file
+  let nodes = workflow.nodes;
+  const refs = collectNodeStrings(nodes, isImageRef);
+  const loaded = new Map<string, string>();
+  for (const ref of refs) {
+    const image = await readImageRef(workflowDir, ref);
+    if (!image) {
+      throw new Error(`Image referenced by the workflow is missing: ${path.join(workflowDir, ref)}`);
+    }
+    loaded.set(ref, image);
+  }
+  nodes = replaceNodeStrings(nodes, loaded);
+
+  // Subgraphs run as the nodes inside them - their IDs are "<subgraph id>/<inner id>"
+  const inlined = inlineSubgraphs(nodes, workflow.edges);
+  nodes = inlined.nodes;
+  const edges = inlined.edges;
+
+  const updateNodeData = (nodeId: string, data: Partial<WorkflowNodeData>) => {
+    nodes = nodes.map((node) =>
+      node.id === nodeId
+        ? { ...node, data: { ...node.data, ...data } as WorkflowNodeData }
+        : node
+    ) as WorkflowNode[];
+  };
+
+  for (const [key, text] of Array.from(promptOverrides)) {
+    updateNodeData(findNode(nodes, key, "prompt", "--prompt").id, { prompt: text });
+  }
+  for (const [key, file] of Array.from(imageOverrides)) {
+    const filePath = path.resolve(file);
+    updateNodeData(findNode(nodes, key, "imageInput", "--image").id, {
+      image: await readImageFile(filePath),
+      filename: path.basename(filePath),
+      dimensions: null,
+    });
+  }
+
+  const sweepSources = getSweepSources(nodes);
+  const emptySource = sweepSources.find((source) => source.items.length === 0);
+  if (emptySource) {
+    throw new Error(`List node "${emptySource.name}" has no items`);
+  }
+  const sweepCount = countSweepCombinations(sweepSources);
+  if (sweepCount > MAX_SWEEP_COMBINATIONS) {
+    throw new Error(`Sweep would run ${sweepCount} times - the limit is ${MAX_SWEEP_COMBINATIONS}`);
+  }
+
+  const outDir = path.resolve(
+    values.out || path.join("runs", `${toFileName(workflow.name)}-${new Date().toISOString().replace(/[:.]/g, "-")}`)
+  );
+  await fs.mkdir(outDir, { recursive: true });
+
+  console.log(`Running "${workflow.name}" (${nodes.length} nodes${sweepSources.length > 0 ? `, ${sweepCount} sweep runs` : ""}${dryRun ? ", dry run" : ""})`);
+
+  const startedAt = Date.now();
+  const nodeStartTimes = new Map<string, number>();
+  const durations = new Map<string, number>();
+  const cachedNodeIds = new Set<string>();
+  // Nodes that ran successfully in the current run, or sweep iteration
+  let executedNodeIds = new Set<string>();
+  let cost = 0;
+
+  // Write the image of every output node that ran, named after the node. The others - in
+  // locked groups, or not reached - still hold the image they were saved with, or the
+  // previous sweep run's.
+  const outputs: OutputReport[] = [];
+  const usedNames = new Set<string>();
+  const writeOutputs = async (
+    snapshot: WorkflowNode[],
+    executedNodeIds: Set<string>,
+    iteration?: number,
+    sweepValues?: SweepValues
+  ) => {
+    const suffix = iteration === undefined ? "" : `-${String(iteration + 1).padStart(3, "0")}`;
+    for (const node of snapshot.filter((n) => n.type === "output" && executedNodeIds.has(n.id))) {
+      const image = node.data.image;
+      const decoded = typeof image === "string" ? decodeImageDataUrl(image) : null;
+      if (!decoded) continue;
+
+      const baseName = toFileName(getNodeTitle(node) || node.id) + suffix;
+      let fileName = `${baseName}.${decoded.extension}`;
+      for (let i = 2; usedNames.has(fileName); i++) {
+        fileName = `${baseName}-${i}.${decoded.extension}`;
+      }
+      usedNames.add(fileName);
+
+      await fs.writeFile(path.join(outDir, fileName), decoded.buffer);
+      outputs.push({
+        nodeId: node.id,
+        title: getNodeTitle(node),
+        file: fileName,
+        ...(iteration !== undefined && { iteration: iteration + 1, sweepValues }),
+      });
+    }
+  };
+
+  // Ctrl+C stops the run and cancels the calls in flight; a second one exits right away
+  const abortController = new AbortController();
+  process.once("SIGINT", () => {
+    console.log("\nStopping - cancelling requests in flight");
+    abortController.abort();
+  });
+
+  const context = {
+    getNodes: () => nodes,
+    getEdges: () => edges,
+    updateNodeData,
+    services: localServices,
+    dryRun,
+    retryPolicy,
+    signal: abortController.signal,
+    onImageGenerated: (event: { cost: number }) => {
+      cost += event.cost;
+    },
+    onCacheHit: (nodeId: string) => {
+      cachedNodeIds.add(nodeId);
+    },
+  };
+  const runOptions = {
+    groups: workflow.groups,
+    maxConcurrency,
+    // Nobody is around to resume a paused run
+    ignorePauseEdges: true,
+    force: !!values.force,
+    continueOnError: !!values["continue-on-error"],
+    shouldContinue: () => !abortController.signal.aborted,
+    onNodeStart: (nodeId: string) => {
+      nodeStartTimes.set(nodeId, Date.now());
+    },
+    onNodeEnd: (nodeId: string, succeeded: boolean) => {
+      const duration = Date.now() - (nodeStartTimes.get(nodeId) ?? Date.now());
+      durations.set(nodeId, duration);
+      if (succeeded) executedNodeIds.add(nodeId);
+      const cancelled = nodes.find((n) => n.id === nodeId)?.data.status === "cancelled";
+      console.log(`${succeeded ? "✓" : cancelled ? "–" : "✗"} ${nodeId} (${cachedNodeIds.has(nodeId) ? "cached" : `${(duration / 1000).toFixed(1)}s`})`);
+    },
+    onNodeSkipped: (nodeId: string) => {
+      console.log(`↷ ${nodeId} (branch not taken)`);
+    },
+  };
+
+  const iterations: NonNullable<RunReport["iterations"]> = [];
+  let result;
+  if (sweepSources.length > 0) {
+    // The next iteration overwrites the outputs, so capture them as each one ends
+    let iterationWrites = Promise.resolve();
+    result = await runSweep(context, sweepSources, {
+      ...runOptions,
+      onIterationStart: (index, total, sweepValues) => {
+        console.log(`\nSweep run ${index + 1} of ${total}`);
+        Object.entries(sweepValues).forEach(([name, value]) => console.log(`  ${name}: ${value}`));
+        iterations.push({ index: index + 1, sweepValues, status: "running" });
+        executedNodeIds = new Set();
+      },
+      onIterationEnd: (index, iterationResult) => {
+        iterations[index].status = iterationResult.status;
+        const snapshot = nodes;
+        const executed = executedNodeIds;
+        iterationWrites = iterationWrites.then(() =>
+          writeOutputs(snapshot, executed, index, iterations[index].sweepValues)
+        );
+      },
+    });
+    await iterationWrites;
+  } else {
+    result = await runWorkflow(context, runOptions);
+    await writeOutputs(nodes, executedNodeIds);
+  }
+
+  const finishedAt = Date.now();
+  const report: RunReport = {
+    workflow: { name: workflow.name, file: workflowPath },
+    status: result.status,
+    dryRun,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationMs: finishedAt - startedAt,
+    cost,
+    overrides: {
+      prompts: Object.fromEntries(promptOverrides),
+      images: Object.fromEntries(imageOverrides),
+    },
+    outputs,
+    ...(sweepSources.length > 0 && { iterations }),
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      type: node.type,
+      title: getNodeTitle(node),
+      result: result.failedNodeIds.includes(node.id)
+        ? "failed"
+        : cachedNodeIds.has(node.id) ? "cached"
+        : !durations.has(node.id) ? "skipped"
+        : node.data.status === "cancelled" ? "cancelled" : "succeeded",
+      status: (node.data.status as NodeStatus | undefined) ?? null,
+      error: (node.data.error as string | null | undefined) ?? null,
+      durationMs: durations.get(node.id) ?? null,
+      ...(node.type === "llmGenerate" && { outputText: (node.data as LLMGenerateNodeData).outputText }),
+      ...(node.type === "router" && { branch: getRouterBranch(node.data as RouterNodeData) }),
+    })),
+  };
+  await fs.writeFile(path.join(outDir, "report.json"), JSON.stringify(report, null, 2), "utf-8");
+
+  console.log(`\nRun ${result.status} in ${(report.durationMs / 1000).toFixed(1)}s - ${outputs.length} image(s), $${cost.toFixed(2)}`);
+  result.failedNodeIds.forEach((nodeId) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    console.error(`  ${nodeId}: ${node?.data.error || "failed"}`);
+  });
+  if (result.skippedNodeIds.length > 0) {
+    console.error(`  Skipped, depending on a failed node: ${result.skippedNodeIds.join(", ")}`);
+  }
+  console.log(`Wrote ${outDir}`);
+
+  return result.status === "completed" ? 0 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -1,242 +1,81 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-import { GenerateRequest, GenerateResponse, ModelType } from "@/types";
+import { GenerateRequest, GenerateResponse } from "@/types";
+import { generateImage } from "@/providers/image/generate";
+import { ImageGenerationError } from "@/providers/image/types";
+import { getProviderErrorInfo, getRetryAfterHeaders } from "@/providers/errors";
 
 export const maxDuration = 300; // 5 minute timeout for Gemini API calls
 export const dynamic = 'force-dynamic'; // Ensure this route is always dynamic
 
-// Map model types to Gemini model IDs
-const MODEL_MAP: Record<ModelType, string> = {
-  "nano-banana": "gemini-2.5-flash-image", // Updated to correct model name
-  "nano-banana-pro": "gemini-3-pro-image-preview",
-};
-
 export async function POST(request: NextRequest) {
   const requestId = Math.random().toString(36).substring(7);
   console.log(`\n[API:${requestId}] ========== NEW GENERATE REQUEST ==========`);
   console.log(`[API:${requestId}] Timestamp: ${new Date().toISOString()}`);
 
   try {
-    const apiKey = process.env.GEMINI_API_KEY;
-
-    if (!apiKey) {
-      console.error(`[API:${requestId}] ❌ No API key configured`);
-      return NextResponse.json<GenerateResponse>(
-        {
-          success: false,
-          error: "API key not configured. Add GEMINI_API_KEY to .env.local",
-        },
-        { status: 500 }
-      );
-    }
-
     console.log(`[API:${requestId}] Parsing request body...`);
     const body: GenerateRequest = await request.json();
-    const { images, prompt, model = "nano-banana-pro", aspectRatio, resolution, useGoogleSearch } = body;
+    const { images, prompt, aspectRatio, resolution, useGoogleSearch, history, candidateCount, mask } = body;
 
     console.log(`[API:${requestId}] Request parameters:`);
-    console.log(`[API:${requestId}]   - Model: ${model} -> ${MODEL_MAP[model]}`);
     console.log(`[API:${requestId}]   - Images count: ${images?.length || 0}`);
     console.log(`[API:${requestId}]   - Prompt length: ${prompt?.length || 0} chars`);
     console.log(`[API:${requestId}]   - Aspect Ratio: ${aspectRatio || 'default'}`);
     console.log(`[API:${requestId}]   - Resolution: ${resolution || 'default'}`);
     console.log(`[API:${requestId}]   - Google Search: ${useGoogleSearch || false}`);
-
-    if (!images || images.length === 0 || !prompt) {
-      console.error(`[API:${requestId}] ❌ Validation failed: missing images or prompt`);
-      return NextResponse.json<GenerateResponse>(
-        {
-          success: false,
-          error: "At least one image and prompt are required",
-        },
-        { status: 400 }
-      );
-    }
-
-    console.log(`[API:${requestId}] Extracting image data...`);
-    // Extract base64 data and MIME types from data URLs
-    const imageData = images.map((image, idx) => {
-      if (image.includes("base64,")) {
-        const [header, data] = image.split("base64,");
-        // Extract MIME type from header (e.g., "data:image/png;" -> "image/png")
-        const mimeMatch = header.match(/data:([^;]+)/);
-        const mimeType = mimeMatch ? mimeMatch[1] : "image/png";
-        console.log(`[API:${requestId}]   Image ${idx + 1}: ${mimeType}, ${(data.length / 1024).toFixed(2)}KB base64`);
-        return { data, mimeType };
-      }
-      console.log(`[API:${requestId}]   Image ${idx + 1}: No base64 header, assuming PNG, ${(image.length / 1024).toFixed(2)}KB`);
-      return { data: image, mimeType: "image/png" };
-    });
-
-    // Initialize Gemini client
-    console.log(`[API:${requestId}] Initializing Gemini client...`);
-    const ai = new GoogleGenAI({ apiKey });
-
-    // Build request parts array with prompt and all images
-    console.log(`[API:${requestId}] Building request parts...`);
-    const requestParts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [
-      { text: prompt },
-      ...imageData.map(({ data, mimeType }) => ({
-        inlineData: {
-          mimeType,
-          data,
-        },
-      })),
-    ];
-    console.log(`[API:${requestId}] Request parts count: ${requestParts.length} (1 text + ${imageData.length} images)`);
-
-    // Build config object based on model capabilities
-    console.log(`[API:${requestId}] Building generation config...`);
-    const config: any = {
-      responseModalities: ["IMAGE", "TEXT"],
+    console.log(`[API:${requestId}]   - Chat turns: ${history?.length || 0}`);
+    console.log(`[API:${requestId}]   - Candidates: ${candidateCount || 1}`);
+    console.log(`[API:${requestId}]   - Mask: ${!!mask}`);
+
+    // The client aborts when an attempt times out or the run is stopped - stop waiting on the provider too
+    const { image: dataUrl, images: candidates, dryRun, thoughtSignature } = await generateImage(body, requestId, request.signal);
+
+    const dataUrlSizeKB = (dataUrl.length / 1024).toFixed(2);
+    console.log(`[API:${requestId}] Data URL size: ${dataUrlSizeKB}KB`);
+
+    const responsePayload: GenerateResponse = {
+      success: true,
+      image: dataUrl,
+      ...(candidates.length > 1 && { images: candidates }),
+      ...(dryRun && { dryRun }),
+      ...(thoughtSignature && { thoughtSignature }),
     };
+    const responseSize = JSON.stringify(responsePayload).length;
+    const responseSizeMB = (responseSize / (1024 * 1024)).toFixed(2);
+    console.log(`[API:${requestId}] Total response payload size: ${responseSizeMB}MB`);
 
-    // Add imageConfig for both models (both support aspect ratio)
-    if (aspectRatio) {
-      config.imageConfig = {
-        aspectRatio,
-      };
-      console.log(`[API:${requestId}]   Added aspect ratio: ${aspectRatio}`);
+    if (responseSize > 4.5 * 1024 * 1024) {
+      console.warn(`[API:${requestId}] ⚠️ Response size (${responseSizeMB}MB) is approaching Next.js 5MB limit!`);
     }
 
-    // Add resolution only for Nano Banana Pro
-    if (model === "nano-banana-pro" && resolution) {
-      if (!config.imageConfig) {
-        config.imageConfig = {};
-      }
-      config.imageConfig.imageSize = resolution;
-      console.log(`[API:${requestId}]   Added resolution: ${resolution}`);
-    }
+    console.log(`[API:${requestId}] ✓✓✓ SUCCESS - Returning image ✓✓✓`);
 
-    // Add tools array for Google Search (only Nano Banana Pro)
-    const tools = [];
-    if (model === "nano-banana-pro" && useGoogleSearch) {
-      tools.push({ googleSearch: {} });
-      console.log(`[API:${requestId}]   Added Google Search tool`);
-    }
-
-    console.log(`[API:${requestId}] Final config:`, JSON.stringify(config, null, 2));
-    if (tools.length > 0) {
-      console.log(`[API:${requestId}] Tools:`, JSON.stringify(tools, null, 2));
-    }
-
-    // Make request to Gemini
-    console.log(`[API:${requestId}] Calling Gemini API...`);
-    const geminiStartTime = Date.now();
-
-    const response = await ai.models.generateContent({
-      model: MODEL_MAP[model],
-      contents: [
-        {
-          role: "user",
-          parts: requestParts,
-        },
-      ],
-      config,
-      ...(tools.length > 0 && { tools }),
-    });
+    // Create response with explicit headers to handle large payloads
+    const response = NextResponse.json<GenerateResponse>(responsePayload);
+    response.headers.set('Content-Type', 'application/json');
+    response.headers.set('Content-Length', responseSize.toString());
 
-    const geminiDuration = Date.now() - geminiStartTime;
-    console.log(`[API:${requestId}] Gemini API call completed in ${geminiDuration}ms`);
-
-    // Extract image from response
-    console.log(`[API:${requestId}] Processing response...`);
-    const candidates = response.candidates;
-    console.log(`[API:${requestId}] Candidates count: ${candidates?.length || 0}`);
-
-    if (!candidates || candidates.length === 0) {
-      console.error(`[API:${requestId}] ❌ No candidates in response`);
-      console.error(`[API:${requestId}] Full response:`, JSON.stringify(response, null, 2));
-      return NextResponse.json<GenerateResponse>(
-        {
-          success: false,
-          error: "No response from AI model",
-        },
-        { status: 500 }
-      );
+    console.log(`[API:${requestId}] Response headers set, returning...`);
+    return response;
+  } catch (error) {
+    // The client stopped waiting, so nobody reads this response
+    if (request.signal.aborted) {
+      console.log(`[API:${requestId}] Request cancelled by client`);
+      return NextResponse.json<GenerateResponse>({ success: false, error: "Cancelled" }, { status: 499 });
     }
 
-    const parts = candidates[0].content?.parts;
-    console.log(`[API:${requestId}] Parts count in first candidate: ${parts?.length || 0}`);
-
-    if (!parts) {
-      console.error(`[API:${requestId}] ❌ No parts in candidate content`);
-      console.error(`[API:${requestId}] Candidate:`, JSON.stringify(candidates[0], null, 2));
+    // Invalid request, unconfigured provider, or a response without a usable image - report it as-is
+    if (error instanceof ImageGenerationError) {
+      console.error(`[API:${requestId}] ❌ ${error.message}`);
       return NextResponse.json<GenerateResponse>(
         {
           success: false,
-          error: "No content in response",
+          error: error.message,
         },
-        { status: 500 }
+        { status: error.status }
       );
     }
 
-    // Log all parts
-    parts.forEach((part, idx) => {
-      const partKeys = Object.keys(part);
-      console.log(`[API:${requestId}] Part ${idx + 1}: ${partKeys.join(', ')}`);
-    });
-
-    // Find image part in response
-    for (const part of parts) {
-      if (part.inlineData && part.inlineData.data) {
-        const mimeType = part.inlineData.mimeType || "image/png";
-        const imageData = part.inlineData.data;
-        const imageSizeKB = (imageData.length / 1024).toFixed(2);
-        console.log(`[API:${requestId}] ✓ Found image in response: ${mimeType}, ${imageSizeKB}KB base64`);
-
-        const dataUrl = `data:${mimeType};base64,${imageData}`;
-        const dataUrlSizeKB = (dataUrl.length / 1024).toFixed(2);
-        console.log(`[API:${requestId}] Data URL size: ${dataUrlSizeKB}KB`);
-
-        const responsePayload = { success: true, image: dataUrl };
-        const responseSize = JSON.stringify(responsePayload).length;
-        const responseSizeMB = (responseSize / (1024 * 1024)).toFixed(2);
-        console.log(`[API:${requestId}] Total response payload size: ${responseSizeMB}MB`);
-
-        if (responseSize > 4.5 * 1024 * 1024) {
-          console.warn(`[API:${requestId}] ⚠️ Response size (${responseSizeMB}MB) is approaching Next.js 5MB limit!`);
-        }
-
-        console.log(`[API:${requestId}] ✓✓✓ SUCCESS - Returning image ✓✓✓`);
-
-        // Create response with explicit headers to handle large payloads
-        const response = NextResponse.json<GenerateResponse>(responsePayload);
-        response.headers.set('Content-Type', 'application/json');
-        response.headers.set('Content-Length', responseSize.toString());
-
-        console.log(`[API:${requestId}] Response headers set, returning...`);
-        return response;
-      }
-    }
-
-    // If no image found, check for text error
-    console.warn(`[API:${requestId}] ⚠ No image found in parts, checking for text...`);
-    for (const part of parts) {
-      if (part.text) {
-        console.error(`[API:${requestId}] ❌ Model returned text instead of image`);
-        console.error(`[API:${requestId}] Text preview: "${part.text.substring(0, 200)}"`);
-        return NextResponse.json<GenerateResponse>(
-          {
-            success: false,
-            error: `Model returned text instead of image: ${part.text.substring(0, 200)}`,
-          },
-          { status: 500 }
-        );
-      }
-    }
-
-    console.error(`[API:${requestId}] ❌ No image or text found in response`);
-    console.error(`[API:${requestId}] All parts:`, JSON.stringify(parts, null, 2));
-    return NextResponse.json<GenerateResponse>(
-      {
-        success: false,
-        error: "No image in response",
-      },
-      { status: 500 }
-    );
-  } catch (error) {
-    const requestId = 'unknown'; // Fallback if we don't have it in scope
     console.error(`[API:${requestId}] ❌❌❌ EXCEPTION CAUGHT IN API ROUTE ❌❌❌`);
     console.error(`[API:${requestId}] Error type:`, error?.constructor?.name);
     console.error(`[API:${requestId}] Error toString:`, String(error));
@@ -294,25 +133,28 @@ export async function POST(request: NextRequest) {
 
     console.error(`[API:${requestId}] Compiled error details:`, errorDetails);
 
+    // Pass the upstream status and wait hint on so the client can decide whether to retry
+    const errorInfo = getProviderErrorInfo(error);
+
     // Handle rate limiting
-    if (errorMessage.includes("429")) {
+    if (errorInfo.status === 429) {
       console.error(`[API:${requestId}] Rate limit error detected`);
       return NextResponse.json<GenerateResponse>(
         {
           success: false,
           error: "Rate limit reached. Please wait and try again.",
         },
-        { status: 429 }
+        { status: 429, headers: getRetryAfterHeaders(errorInfo) }
       );
     }
 
-    console.error(`[API:${requestId}] Returning 500 error response`);
+    console.error(`[API:${requestId}] Returning ${errorInfo.status} error response`);
     return NextResponse.json<GenerateResponse>(
       {
         success: false,
         error: `${errorMessage}${errorDetails ? ` | Details: ${errorDetails.substring(0, 500)}` : ""}`,
       },
-      { status: 500 }
+      { status: errorInfo.status, headers: getRetryAfterHeaders(errorInfo) }
     );
   }
 }
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LLMModelsResponse } from "@/types";
+import { logger } from "@/utils/logger";
+import { listCompatibleModels } from "@/providers/llm/openaiCompatible";
+import { getProviderErrorInfo } from "@/providers/errors";
+
+// GET: Models of the configured OpenAI-compatible server
+export async function GET(request: NextRequest) {
+  const requestId = `llm-models-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  try {
+    const models = await listCompatibleModels(requestId, request.signal);
+    return NextResponse.json<LLMModelsResponse>({ success: true, models });
+  } catch (error) {
+    logger.error('api.error', 'Failed to list OpenAI-compatible models', {
+      requestId,
+    }, error instanceof Error ? error : undefined);
+
+    // A server that is down never answers - report that rather than a bare fetch error
+    const message = error instanceof TypeError
+      ? "Could not reach the OpenAI-compatible server - is it running?"
+      : error instanceof Error ? error.message : "Failed to list models";
+    return NextResponse.json<LLMModelsResponse>(
+      { success: false, error: message },
+      { status: getProviderErrorInfo(error).status }
+    );
+  }
+}
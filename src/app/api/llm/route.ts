@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenAI } from "@google/genai";
-import { LLMGenerateRequest, LLMGenerateResponse, LLMModelType } from "@/types";
+import { LLMGenerateRequest, LLMGenerateResponse, LLMStreamEvent } from "@/types";
 import { logger } from "@/utils/logger";
+import { formatServerSentEvent } from "@/utils/sse";
+import { LLMGenerationError, generateText } from "@/providers/llm/generate";
+import { ProviderErrorInfo, getProviderErrorInfo, getRetryAfterHeaders } from "@/providers/errors";
 
 export const maxDuration = 60; // 1 minute timeout
 
@@ -10,180 +12,61 @@ function generateRequestId(): string {
   return `llm-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
-// Map model types to actual API model IDs
-const GOOGLE_MODEL_MAP: Record<string, string> = {
-  "gemini-2.5-flash": "gemini-2.5-flash",
-  "gemini-3-flash-preview": "gemini-3-flash-preview",
-  "gemini-3-pro-preview": "gemini-3-pro-preview",
-};
-
-const OPENAI_MODEL_MAP: Record<string, string> = {
-  "gpt-4.1-mini": "gpt-4.1-mini",
-  "gpt-4.1-nano": "gpt-4.1-nano",
-};
-
-async function generateWithGoogle(
-  prompt: string,
-  model: LLMModelType,
-  temperature: number,
-  maxTokens: number,
-  images?: string[],
-  requestId?: string
-): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    logger.error('api.error', 'GEMINI_API_KEY not configured', { requestId });
-    throw new Error("GEMINI_API_KEY not configured");
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
-  const modelId = GOOGLE_MODEL_MAP[model];
-
-  logger.info('api.llm', 'Calling Google AI API', {
-    requestId,
-    model: modelId,
-    temperature,
-    maxTokens,
-    imageCount: images?.length || 0,
-    promptLength: prompt.length,
-  });
-
-  // Build multimodal content if images are provided
-  let contents: string | Array<{ inlineData: { mimeType: string; data: string } } | { text: string }>;
-  if (images && images.length > 0) {
-    contents = [
-      ...images.map((img) => {
-        // Extract base64 data and mime type from data URL
-        const matches = img.match(/^data:(.+?);base64,(.+)$/);
-        if (matches) {
-          return {
-            inlineData: {
-              mimeType: matches[1],
-              data: matches[2],
-            },
-          };
-        }
-        // Fallback: assume PNG if no data URL prefix
-        return {
-          inlineData: {
-            mimeType: "image/png",
-            data: img,
-          },
-        };
-      }),
-      { text: prompt },
-    ];
-  } else {
-    contents = prompt;
+// Message and status to report for a failed generation
+function describeError(error: unknown, requestId: string): { message: string; info: ProviderErrorInfo } {
+  if (error instanceof LLMGenerationError) {
+    return { message: error.message, info: { status: error.status } };
   }
 
-  const startTime = Date.now();
-  const response = await ai.models.generateContent({
-    model: modelId,
-    contents,
-    config: {
-      temperature,
-      maxOutputTokens: maxTokens,
-    },
-  });
-  const duration = Date.now() - startTime;
+  // Pass the upstream status and wait hint on so the client can decide whether to retry
+  const info = getProviderErrorInfo(error);
+  logger.error('api.error', 'LLM generation error', { requestId, ...info }, error instanceof Error ? error : undefined);
 
-  // Use the convenient .text property that concatenates all text parts
-  const text = response.text;
-  if (!text) {
-    logger.error('api.error', 'No text in Google AI response', { requestId });
-    throw new Error("No text in Google AI response");
+  // Handle rate limiting
+  if (info.status === 429) {
+    return { message: "Rate limit reached. Please wait and try again.", info };
   }
-
-  logger.info('api.llm', 'Google AI API response received', {
-    requestId,
-    duration,
-    responseLength: text.length,
-  });
-
-  return text;
+  return { message: error instanceof Error ? error.message : "LLM generation failed", info };
 }
 
-async function generateWithOpenAI(
-  prompt: string,
-  model: LLMModelType,
-  temperature: number,
-  maxTokens: number,
-  images?: string[],
-  requestId?: string
-): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    logger.error('api.error', 'OPENAI_API_KEY not configured', { requestId });
-    throw new Error("OPENAI_API_KEY not configured");
-  }
-
-  const modelId = OPENAI_MODEL_MAP[model];
-
-  logger.info('api.llm', 'Calling OpenAI API', {
-    requestId,
-    model: modelId,
-    temperature,
-    maxTokens,
-    imageCount: images?.length || 0,
-    promptLength: prompt.length,
+// Send the output as it arrives; failures after this point are reported as an "error" event
+function streamText(body: LLMGenerateRequest, requestId: string, signal: AbortSignal): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: LLMStreamEvent) => {
+        // The client may have gone away - nothing left to send to
+        if (!signal.aborted) controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+      };
+
+      try {
+        const { text, dryRun } = await generateText(body, requestId, signal, (delta) =>
+          send({ type: "delta", text: delta })
+        );
+        logger.info('api.llm', 'LLM generation streamed', {
+          requestId,
+          responseLength: text.length,
+        });
+        send({ type: "done", text, ...(dryRun && { dryRun }) });
+      } catch (error) {
+        if (signal.aborted) {
+          logger.info('api.llm', 'LLM request cancelled by client', { requestId });
+        } else {
+          const { message, info } = describeError(error, requestId);
+          send({ type: "error", error: message, ...info });
+        }
+      }
+      if (!signal.aborted) controller.close();
+    },
   });
 
-  // Build content array for vision if images are provided
-  let content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
-  if (images && images.length > 0) {
-    content = [
-      { type: "text", text: prompt },
-      ...images.map((img) => ({
-        type: "image_url" as const,
-        image_url: { url: img },
-      })),
-    ];
-  } else {
-    content = prompt;
-  }
-
-  const startTime = Date.now();
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
+  return new Response(stream, {
     headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
     },
-    body: JSON.stringify({
-      model: modelId,
-      messages: [{ role: "user", content }],
-      temperature,
-      max_tokens: maxTokens,
-    }),
-  });
-  const duration = Date.now() - startTime;
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({}));
-    logger.error('api.error', 'OpenAI API request failed', {
-      requestId,
-      status: response.status,
-      error: error.error?.message,
-    });
-    throw new Error(error.error?.message || `OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content;
-
-  if (!text) {
-    logger.error('api.error', 'No text in OpenAI response', { requestId });
-    throw new Error("No text in OpenAI response");
-  }
-
-  logger.info('api.llm', 'OpenAI API response received', {
-    requestId,
-    duration,
-    responseLength: text.length,
   });
-
-  return text;
 }
 
 export async function POST(request: NextRequest) {
@@ -219,19 +102,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let text: string;
-
-    if (provider === "google") {
-      text = await generateWithGoogle(prompt, model, temperature, maxTokens, images, requestId);
-    } else if (provider === "openai") {
-      text = await generateWithOpenAI(prompt, model, temperature, maxTokens, images, requestId);
-    } else {
-      logger.warn('api.llm', 'Unknown provider requested', { requestId, provider });
-      return NextResponse.json<LLMGenerateResponse>(
-        { success: false, error: `Unknown provider: ${provider}` },
-        { status: 400 }
-      );
+    // The client aborts when an attempt times out or the run is stopped - stop waiting on the provider too
+    if (body.stream) {
+      return streamText(body, requestId, request.signal);
     }
+    const { text, dryRun } = await generateText(body, requestId, request.signal);
 
     logger.info('api.llm', 'LLM generation successful', {
       requestId,
@@ -241,24 +116,18 @@ export async function POST(request: NextRequest) {
     return NextResponse.json<LLMGenerateResponse>({
       success: true,
       text,
+      ...(dryRun && { dryRun }),
     });
   } catch (error) {
-    logger.error('api.error', 'LLM generation error', { requestId }, error instanceof Error ? error : undefined);
-
-    // Handle rate limiting
-    if (error instanceof Error && error.message.includes("429")) {
-      return NextResponse.json<LLMGenerateResponse>(
-        { success: false, error: "Rate limit reached. Please wait and try again." },
-        { status: 429 }
-      );
+    // The client stopped waiting, so nobody reads this response
+    if (request.signal.aborted) {
+      logger.info('api.llm', 'LLM request cancelled by client', { requestId });
+      return NextResponse.json<LLMGenerateResponse>({ success: false, error: "Cancelled" }, { status: 499 });
     }
-
+    const { message, info } = describeError(error, requestId);
     return NextResponse.json<LLMGenerateResponse>(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : "LLM generation failed",
-      },
-      { status: 500 }
+      { success: false, error: message },
+      { status: info.status, headers: getRetryAfterHeaders(info) }
     );
   }
 }
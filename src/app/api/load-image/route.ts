@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/utils/logger";
+import { isImageRef } from "@/utils/imageRefs";
+import { readImageRef } from "@/utils/imageStore-server";
+
+// POST: Load an image referenced by a saved workflow from the project's image folder
+export async function POST(request: NextRequest) {
+  let directoryPath: string | undefined;
+  let ref: string | undefined;
+  try {
+    const body = await request.json();
+    directoryPath = body.directoryPath;
+    ref = body.ref;
+
+    if (!directoryPath || !ref) {
+      logger.warn('file.load', 'Image load validation failed: missing fields', {
+        hasDirectoryPath: !!directoryPath,
+        hasRef: !!ref,
+      });
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (!isImageRef(ref)) {
+      logger.warn('file.load', 'Image load validation failed: invalid reference', { ref });
+      return NextResponse.json(
+        { success: false, error: "Invalid image reference" },
+        { status: 400 }
+      );
+    }
+
+    const image = await readImageRef(directoryPath, ref);
+    if (!image) {
+      logger.warn('file.error', 'Image load failed: file not found', {
+        directoryPath,
+        ref,
+      });
+      return NextResponse.json(
+        { success: false, error: "Image file not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      image,
+    });
+  } catch (error) {
+    logger.error('file.error', 'Failed to load image', {
+      directoryPath,
+      ref,
+    }, error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Load failed",
+      },
+      { status: 500 }
+    );
+  }
+}
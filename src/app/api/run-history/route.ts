@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as fs from "fs/promises";
+import { logger } from "@/utils/logger";
+import { listRunRecords, saveRunRecord } from "@/utils/runHistory-server";
+import { RunRecord } from "@/types";
+
+async function isDirectory(directoryPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(directoryPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// POST: Save a run record to the project's run history
+export async function POST(request: NextRequest) {
+  let directoryPath: string | undefined;
+  try {
+    const body = await request.json();
+    directoryPath = body.directoryPath;
+    const record = body.record as RunRecord | undefined;
+
+    if (!directoryPath || !record?.id) {
+      logger.warn('file.save', 'Run record save validation failed: missing fields', {
+        hasDirectoryPath: !!directoryPath,
+        hasRecord: !!record,
+      });
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isDirectory(directoryPath))) {
+      logger.warn('file.error', 'Run record save failed: directory does not exist', { directoryPath });
+      return NextResponse.json(
+        { success: false, error: "Directory does not exist" },
+        { status: 400 }
+      );
+    }
+
+    const filePath = await saveRunRecord(directoryPath, record);
+
+    logger.info('file.save', 'Run record saved', {
+      filePath,
+      status: record.status,
+      nodeCount: record.nodes.length,
+    });
+
+    return NextResponse.json({ success: true, filePath });
+  } catch (error) {
+    logger.error('file.error', 'Failed to save run record', {
+      directoryPath,
+    }, error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Save failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: List the project's most recent runs
+export async function GET(request: NextRequest) {
+  const directoryPath = request.nextUrl.searchParams.get("path");
+
+  if (!directoryPath) {
+    return NextResponse.json(
+      { success: false, error: "Path parameter required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const runs = await listRunRecords(directoryPath);
+    logger.info('file.load', 'Run history loaded', { directoryPath, runCount: runs.length });
+    return NextResponse.json({ success: true, runs });
+  } catch (error) {
+    logger.error('file.error', 'Failed to load run history', {
+      directoryPath,
+    }, error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Load failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -12,6 +12,7 @@ export async function POST(request: NextRequest) {
     const image = body.image;
     const prompt = body.prompt;
     const imageId = body.imageId; // Optional ID for carousel support
+    const sweepValues = body.sweepValues; // Optional list items this image was generated with
 
     logger.info('file.save', 'Generation auto-save request received', {
       directoryPath,
@@ -77,10 +78,21 @@ export async function POST(request: NextRequest) {
     // Write the image file
     await fs.writeFile(filePath, buffer);
 
+    // Sweep results get a sidecar file recording which list items produced them
+    if (sweepValues) {
+      const metadataPath = filePath.replace(/\.png$/, ".json");
+      await fs.writeFile(
+        metadataPath,
+        JSON.stringify({ prompt, sweepValues, savedAt: new Date().toISOString() }, null, 2),
+        "utf-8"
+      );
+    }
+
     logger.info('file.save', 'Generation auto-saved successfully', {
       filePath,
       filename,
       fileSize: buffer.length,
+      hasSweepValues: !!sweepValues,
     });
 
     return NextResponse.json({
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/utils/logger";
+import {
+  deleteSubgraphLibraryEntry,
+  readSubgraphLibrary,
+  saveSubgraphLibraryEntry,
+} from "@/utils/subgraphLibrary-server";
+import { SubgraphLibraryEntry } from "@/types";
+
+// GET: List the saved subgraphs
+export async function GET() {
+  try {
+    const entries = await readSubgraphLibrary();
+    logger.info('file.load', 'Subgraph library loaded', { entryCount: entries.length });
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    logger.error('file.error', 'Failed to load subgraph library', {}, error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Load failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Save a subgraph to the library, replacing the entry with the same ID
+export async function POST(request: NextRequest) {
+  let entryId: string | undefined;
+  try {
+    const body = await request.json();
+    const entry = body.entry as SubgraphLibraryEntry | undefined;
+    entryId = entry?.id;
+
+    if (!entry?.id || !entry.name || !entry.subgraph) {
+      logger.warn('file.save', 'Subgraph save validation failed: missing fields', {
+        hasId: !!entry?.id,
+        hasName: !!entry?.name,
+        hasSubgraph: !!entry?.subgraph,
+      });
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    await saveSubgraphLibraryEntry(entry);
+
+    logger.info('file.save', 'Subgraph saved to library', {
+      entryId,
+      name: entry.name,
+      nodeCount: entry.subgraph.nodes.length,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('file.error', 'Failed to save subgraph to library', {
+      entryId,
+    }, error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Save failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a subgraph from the library
+export async function DELETE(request: NextRequest) {
+  const entryId = request.nextUrl.searchParams.get("id");
+
+  if (!entryId) {
+    return NextResponse.json(
+      { success: false, error: "ID parameter required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await deleteSubgraphLibraryEntry(entryId))) {
+      return NextResponse.json(
+        { success: false, error: "Subgraph not found" },
+        { status: 404 }
+      );
+    }
+    logger.info('file.save', 'Subgraph removed from library', { entryId });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('file.error', 'Failed to remove subgraph from library', {
+      entryId,
+    }, error instanceof Error ? error : undefined);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Delete failed",
+      },
+      { status: 500 }
+    );
+  }
+}
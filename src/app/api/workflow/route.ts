@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { logger } from "@/utils/logger";
+import { externalizeNodeImages } from "@/utils/imageStore-server";
+import { CURRENT_WORKFLOW_VERSION } from "@/utils/workflowSchema";
 
 // POST: Save workflow to file
 export async function POST(request: NextRequest) {
@@ -11,7 +13,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     directoryPath = body.directoryPath;
     filename = body.filename;
-    const workflow = body.workflow;
+    let workflow = body.workflow;
 
     logger.info('file.save', 'Workflow save request received', {
       directoryPath,
@@ -59,6 +61,11 @@ export async function POST(request: NextRequest) {
     const safeName = filename.replace(/[^a-zA-Z0-9-_]/g, "_");
     const filePath = path.join(directoryPath, `${safeName}.json`);
 
+    // Move embedded images into the content-addressed image folder.
+    // Version 1 files (images inline) are upgraded to version 2 on their first save.
+    const { nodes, imagesWritten, imagesReused } = await externalizeNodeImages(workflow.nodes, directoryPath);
+    workflow = { ...workflow, version: CURRENT_WORKFLOW_VERSION, nodes };
+
     // Write workflow JSON
     const json = JSON.stringify(workflow, null, 2);
     await fs.writeFile(filePath, json, "utf-8");
@@ -66,6 +73,8 @@ export async function POST(request: NextRequest) {
     logger.info('file.save', 'Workflow saved successfully', {
       filePath,
       fileSize: json.length,
+      imagesWritten,
+      imagesReused,
     });
 
     return NextResponse.json({
@@ -5,6 +5,7 @@ import { ReactFlowProvider } from "@xyflow/react";
 import { Header } from "@/components/Header";
 import { WorkflowCanvas } from "@/components/WorkflowCanvas";
 import { FloatingActionBar } from "@/components/FloatingActionBar";
+import { RunSummaryPanel } from "@/components/RunSummaryPanel";
 import { AnnotationModal } from "@/components/AnnotationModal";
 import { useWorkflowStore } from "@/store/workflowStore";
 
@@ -25,6 +26,7 @@ export default function Home() {
         <Header />
         <WorkflowCanvas />
         <FloatingActionBar />
+        <RunSummaryPanel />
         <AnnotationModal />
       </div>
     </ReactFlowProvider>
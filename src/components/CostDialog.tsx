@@ -2,7 +2,8 @@
 
 import { useEffect } from "react";
 import { useWorkflowStore } from "@/store/workflowStore";
-import { PredictedCostResult, formatCost, PRICING } from "@/utils/costCalculator";
+import { PredictedCostResult, formatCost } from "@/utils/costCalculator";
+import { IMAGE_MODELS, getImageModel, getImageModelLabel } from "@/providers/image/catalog";
 
 interface CostDialogProps {
   predictedCost: PredictedCostResult;
@@ -61,8 +62,8 @@ export function CostDialog({ predictedCost, incurredCost, onClose }: CostDialogP
                 {predictedCost.breakdown.map((item, idx) => (
                   <div key={idx} className="flex justify-between text-xs">
                     <span className="text-neutral-500">
-                      {item.count}x {item.model === "nano-banana" ? "Nano Banana" : "Nano Banana Pro"}
-                      {item.model === "nano-banana-pro" && ` (${item.resolution})`}
+                      {item.count}x {getImageModelLabel(item.model)}
+                      {(getImageModel(item.model)?.capabilities.resolutions.length ?? 0) > 1 && ` (${item.resolution})`}
                     </span>
                     <span className="text-neutral-400">
                       {formatCost(item.subtotal)}
@@ -104,9 +105,17 @@ export function CostDialog({ predictedCost, incurredCost, onClose }: CostDialogP
           {/* Pricing Reference */}
           <div className="text-xs text-neutral-500 space-y-1">
             <p className="font-medium text-neutral-400">Pricing Reference:</p>
-            <p>Nano Banana (Flash): ${PRICING["nano-banana"]["1K"]}/image</p>
-            <p>Nano Banana Pro 1K/2K: ${PRICING["nano-banana-pro"]["1K"]}/image</p>
-            <p>Nano Banana Pro 4K: ${PRICING["nano-banana-pro"]["4K"]}/image</p>
+            {IMAGE_MODELS.map((model) => (
+              <p key={model.id}>
+                {model.label}:{" "}
+                {Object.entries(model.pricing)
+                  .map(([resolution, price]) =>
+                    model.capabilities.resolutions.length > 1 ? `${resolution} $${price}` : `$${price}`
+                  )
+                  .join(", ")}
+                /image
+              </p>
+            ))}
             <p className="text-neutral-600 mt-2">All prices in USD</p>
           </div>
         </div>
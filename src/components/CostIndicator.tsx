@@ -8,11 +8,12 @@ import { CostDialog } from "./CostDialog";
 export function CostIndicator() {
   const [showDialog, setShowDialog] = useState(false);
   const nodes = useWorkflowStore((state) => state.nodes);
+  const edges = useWorkflowStore((state) => state.edges);
   const incurredCost = useWorkflowStore((state) => state.incurredCost);
 
   const predictedCost = useMemo(() => {
-    return calculatePredictedCost(nodes);
-  }, [nodes]);
+    return calculatePredictedCost(nodes, edges);
+  }, [nodes, edges]);
 
   const hasAnyNodes = predictedCost.nodeCount > 0;
 
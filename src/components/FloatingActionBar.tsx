@@ -1,8 +1,11 @@
 "use client";
 
 import { useRef, useState, useEffect, useMemo } from "react";
-import { useWorkflowStore } from "@/store/workflowStore";
-import { NodeType } from "@/types";
+import { useWorkflowStore, MAX_CONCURRENCY_LIMIT } from "@/store/workflowStore";
+import { NodeType, SubgraphLibraryEntry } from "@/types";
+import { countSweepCombinations, getSweepSources } from "@/utils/sweep";
+import { inlineSubgraphs } from "@/utils/subgraph";
+import { MAX_RETRY_ATTEMPTS, RETRY_TIMEOUT_CHOICES_MS, formatRetryTimeout } from "@/utils/retry";
 import { useReactFlow } from "@xyflow/react";
 
 // Get the center of the React Flow pane in screen coordinates
@@ -141,22 +144,155 @@ function GenerateComboButton() {
   );
 }
 
+// Saved subgraphs, read from the library each time the menu opens
+function LibraryButton() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<SubgraphLibraryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const addSubgraphFromLibrary = useWorkflowStore((state) => state.addSubgraphFromLibrary);
+  const { screenToFlowPosition } = useReactFlow();
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntries(null);
+    setError(null);
+    fetch("/api/subgraph-library")
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) throw new Error(result.error || "Load failed");
+        setEntries(result.entries);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Load failed"));
+  }, [isOpen]);
+
+  const handleAdd = (entry: SubgraphLibraryEntry) => {
+    const center = getPaneCenter();
+    const position = screenToFlowPosition({
+      x: center.x + Math.random() * 100 - 50,
+      y: center.y + Math.random() * 100 - 50,
+    });
+
+    addSubgraphFromLibrary(entry, position);
+    setIsOpen(false);
+  };
+
+  const handleDelete = async (entry: SubgraphLibraryEntry) => {
+    if (!confirm(`Remove "${entry.name}" from the library?`)) return;
+    const response = await fetch(`/api/subgraph-library?id=${encodeURIComponent(entry.id)}`, { method: "DELETE" });
+    const result = await response.json();
+    if (result.success) {
+      setEntries((current) => current?.filter((e) => e.id !== entry.id) ?? null);
+    } else {
+      setError(result.error || "Delete failed");
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2.5 py-1.5 text-[11px] font-medium text-neutral-400 hover:text-neutral-100 hover:bg-neutral-700 rounded transition-colors flex items-center gap-1"
+      >
+        Library
+        <svg
+          className={`w-3 h-3 transition-transform ${isOpen ? "rotate-180" : ""}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          strokeWidth={2}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl overflow-hidden min-w-[200px] max-h-72 overflow-y-auto">
+          {error ? (
+            <div className="px-3 py-2 text-[11px] text-red-400">{error}</div>
+          ) : entries === null ? (
+            <div className="px-3 py-2 text-[11px] text-neutral-500">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="px-3 py-2 text-[11px] text-neutral-500">
+              No saved subgraphs. Collapse a group and save it from the subgraph node.
+            </div>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="flex items-center hover:bg-neutral-700 transition-colors">
+                <button
+                  onClick={() => handleAdd(entry)}
+                  className="flex-1 px-3 py-2 text-left text-[11px] font-medium text-neutral-300 hover:text-neutral-100"
+                  title={`${entry.subgraph.nodes.length} nodes, ${entry.subgraph.inputs.length} inputs, ${entry.subgraph.outputs.length} outputs`}
+                >
+                  {entry.name}
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="px-2 py-2 text-neutral-500 hover:text-red-400 transition-colors"
+                  title="Remove from library"
+                >
+                  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function FloatingActionBar() {
   const {
     nodes,
+    edges,
     isRunning,
+    isStopping,
     executeWorkflow,
     regenerateNode,
     stopWorkflow,
     validateWorkflow,
     edgeStyle,
     setEdgeStyle,
+    maxConcurrency,
+    setMaxConcurrency,
+    dryRun,
+    setDryRun,
+    retryPolicy,
+    setRetryPolicy,
+    continueOnError,
+    setContinueOnError,
+    sweepProgress,
   } = useWorkflowStore();
   const [runMenuOpen, setRunMenuOpen] = useState(false);
   const runMenuRef = useRef<HTMLDivElement>(null);
 
   const { valid, errors } = validateWorkflow();
 
+  // Runs a full workflow run will make when list sources are set up
+  const sweepCount = useMemo(
+    () => countSweepCombinations(getSweepSources(inlineSubgraphs(nodes, edges).nodes)),
+    [nodes, edges]
+  );
+
   // Get the selected node (if exactly one is selected)
   const selectedNode = useMemo(() => {
     const selected = nodes.filter((n) => n.selected);
@@ -211,9 +347,14 @@ export function FloatingActionBar() {
       <div className="flex items-center gap-0.5 bg-neutral-800/95 backdrop-blur-sm rounded-lg shadow-lg border border-neutral-700/80 px-1.5 py-1">
         <NodeButton type="imageInput" label="Image" />
         <NodeButton type="annotation" label="Annotate" />
+        <NodeButton type="mask" label="Mask" />
+        <NodeButton type="imageTransform" label="Transform" />
+        <NodeButton type="combineGrid" label="Combine" />
+        <NodeButton type="router" label="Router" />
         <NodeButton type="prompt" label="Prompt" />
         <GenerateComboButton />
         <NodeButton type="output" label="Output" />
+        <LibraryButton />
 
         <div className="w-px h-5 bg-neutral-600 mx-1.5" />
 
@@ -238,8 +379,8 @@ export function FloatingActionBar() {
         <div className="relative flex items-center" ref={runMenuRef}>
           <button
             onClick={handleRunClick}
-            disabled={!valid && !isRunning}
-            title={!valid ? errors.join("\n") : isRunning ? "Stop" : "Run"}
+            disabled={(!valid && !isRunning) || isStopping}
+            title={!valid ? errors.join("\n") : isStopping ? "Cancelling the calls in flight" : isRunning ? "Stop" : "Run"}
             className={`flex items-center gap-1.5 px-3 py-1.5 text-[11px] font-medium transition-colors ${
               isRunning
                 ? "bg-white text-neutral-900 hover:bg-neutral-200 rounded"
@@ -269,7 +410,11 @@ export function FloatingActionBar() {
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   />
                 </svg>
-                <span>Stop</span>
+                <span>
+                  {isStopping
+                    ? "Stopping..."
+                    : sweepProgress ? `Stop ${sweepProgress.current}/${sweepProgress.total}` : "Stop"}
+                </span>
               </>
             ) : (
               <>
@@ -280,7 +425,10 @@ export function FloatingActionBar() {
                 >
                   <path d="M8 5v14l11-7z" />
                 </svg>
-                <span>Run</span>
+                <span>
+                  {dryRun ? "Dry run" : "Run"}
+                  {sweepCount > 1 && ` ×${sweepCount}`}
+                </span>
               </>
             )}
           </button>
@@ -349,6 +497,103 @@ export function FloatingActionBar() {
                 </svg>
                 Run selected node only
               </button>
+              <button
+                onClick={() => {
+                  executeWorkflow(undefined, { force: true });
+                  setRunMenuOpen(false);
+                }}
+                className="w-full px-3 py-2 text-left text-[11px] font-medium text-neutral-300 hover:bg-neutral-700 hover:text-neutral-100 transition-colors flex items-center gap-2"
+                title="Run every node again, even those whose inputs haven't changed since their last output"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Force re-run all
+              </button>
+              <div className="border-t border-neutral-700 px-3 py-2 flex items-center justify-between gap-2">
+                <span
+                  className="text-[11px] font-medium text-neutral-400"
+                  title="Maximum number of independent nodes that run at the same time"
+                >
+                  Parallel runs
+                </span>
+                <select
+                  value={maxConcurrency}
+                  onChange={(e) => setMaxConcurrency(parseInt(e.target.value, 10))}
+                  className="text-[11px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+                >
+                  {Array.from({ length: MAX_CONCURRENCY_LIMIT }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label
+                className="border-t border-neutral-700 px-3 py-2 flex items-center justify-between gap-2 cursor-pointer"
+                title="Return placeholder images and echoed text instead of calling the APIs. Nothing is charged."
+              >
+                <span className="text-[11px] font-medium text-neutral-400">Dry run</span>
+                <input
+                  type="checkbox"
+                  checked={dryRun}
+                  onChange={(e) => setDryRun(e.target.checked)}
+                  className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+                />
+              </label>
+              <div className="border-t border-neutral-700 px-3 py-2 flex items-center justify-between gap-2">
+                <span
+                  className="text-[11px] font-medium text-neutral-400"
+                  title="Tries per generation. Rate limits, timeouts and server errors are retried with growing waits, or after the wait the provider asks for."
+                >
+                  Attempts
+                </span>
+                <select
+                  value={retryPolicy.maxAttempts}
+                  onChange={(e) => setRetryPolicy({ maxAttempts: parseInt(e.target.value, 10) })}
+                  className="text-[11px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+                >
+                  {Array.from({ length: MAX_RETRY_ATTEMPTS }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="border-t border-neutral-700 px-3 py-2 flex items-center justify-between gap-2">
+                <span
+                  className="text-[11px] font-medium text-neutral-400"
+                  title="How long one attempt may take before it is aborted"
+                >
+                  Timeout
+                </span>
+                <select
+                  value={retryPolicy.timeoutMs}
+                  onChange={(e) => setRetryPolicy({ timeoutMs: parseInt(e.target.value, 10) })}
+                  className="text-[11px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+                >
+                  {!RETRY_TIMEOUT_CHOICES_MS.includes(retryPolicy.timeoutMs) && (
+                    <option value={retryPolicy.timeoutMs}>{formatRetryTimeout(retryPolicy.timeoutMs)}</option>
+                  )}
+                  {RETRY_TIMEOUT_CHOICES_MS.map((ms) => (
+                    <option key={ms} value={ms}>
+                      {formatRetryTimeout(ms)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label
+                className="border-t border-neutral-700 px-3 py-2 flex items-center justify-between gap-2 cursor-pointer"
+                title="When a node fails, keep running the branches that don't depend on it"
+              >
+                <span className="text-[11px] font-medium text-neutral-400">Continue on error</span>
+                <input
+                  type="checkbox"
+                  checked={continueOnError}
+                  onChange={(e) => setContinueOnError(e.target.checked)}
+                  className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+                />
+              </label>
             </div>
           )}
         </div>
@@ -1,9 +1,12 @@
 "use client";
 
 import { useCallback, useState, useRef, useEffect } from "react";
+import { createPortal } from "react-dom";
 import { useReactFlow, ViewportPortal } from "@xyflow/react";
 import { useWorkflowStore, GROUP_COLORS } from "@/store/workflowStore";
 import { GroupColor } from "@/types";
+import { SubgraphCollapseModal } from "@/components/modals/SubgraphCollapseModal";
+import { ExposableHandle, getCrossingEdges, getExposableHandles, getHandlesInUse } from "@/utils/subgraph";
 
 const HEADER_HEIGHT = 32;
 
@@ -60,10 +63,20 @@ interface GroupControlsProps {
   zoom: number;
 }
 
+interface CollapseOptions {
+  inputs: ExposableHandle[];
+  outputs: ExposableHandle[];
+  requiredHandles: ExposableHandle[];
+  blockedReason: string | null;
+}
+
 // Renders the group header and resize handles - displayed above nodes (z-index 5)
 function GroupControls({ groupId, zoom }: GroupControlsProps) {
-  const { groups, updateGroup, deleteGroup, moveGroupNodes, toggleGroupLock } = useWorkflowStore();
+  const { groups, updateGroup, deleteGroup, moveGroupNodes, toggleGroupLock, collapseGroup, isRunning } = useWorkflowStore();
+  const incrementModalCount = useWorkflowStore((state) => state.incrementModalCount);
+  const decrementModalCount = useWorkflowStore((state) => state.decrementModalCount);
   const group = groups[groupId];
+  const [collapseOptions, setCollapseOptions] = useState<CollapseOptions | null>(null);
 
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(group?.name || "");
@@ -139,6 +152,42 @@ function GroupControls({ groupId, zoom }: GroupControlsProps) {
     toggleGroupLock(groupId);
   }, [groupId, toggleGroupLock]);
 
+  const handleOpenCollapse = useCallback(() => {
+    const { nodes, edges } = useWorkflowStore.getState();
+    const groupNodes = nodes.filter((node) => node.groupId === groupId);
+    if (groupNodes.length === 0) return;
+
+    const handles = groupNodes.map(getExposableHandles);
+    const inputs = handles.flatMap((h) => h.inputs);
+    const outputs = handles.flatMap((h) => h.outputs);
+    const crossing = getCrossingEdges(new Set(groupNodes.map((node) => node.id)), edges);
+    setCollapseOptions({
+      inputs,
+      outputs,
+      requiredHandles: [
+        ...getHandlesInUse(inputs, crossing.incoming, "target"),
+        ...getHandlesInUse(outputs, crossing.outgoing, "source"),
+      ],
+      blockedReason: crossing.reference.length > 0
+        ? "Split Grid and list links can't cross the subgraph boundary. Put the linked nodes in the same group, or remove the links first."
+        : null,
+    });
+    incrementModalCount();
+  }, [groupId, incrementModalCount]);
+
+  const handleCloseCollapse = useCallback(() => {
+    setCollapseOptions(null);
+    decrementModalCount();
+  }, [decrementModalCount]);
+
+  const handleCollapse = useCallback(
+    (exposed: { inputs: ExposableHandle[]; outputs: ExposableHandle[] }) => {
+      collapseGroup(groupId, exposed);
+      handleCloseCollapse();
+    },
+    [groupId, collapseGroup, handleCloseCollapse]
+  );
+
   // Header drag handlers
   const handleHeaderMouseDown = useCallback(
     (e: React.MouseEvent) => {
@@ -381,6 +430,18 @@ function GroupControls({ groupId, zoom }: GroupControlsProps) {
           )}
         </div>
 
+        {/* Collapse to Subgraph Button */}
+        <button
+          onClick={handleOpenCollapse}
+          disabled={isRunning}
+          className="p-0.5 rounded hover:bg-white/20 text-white/70 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Collapse to subgraph"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 9V4.5M9 9H4.5M9 9L3.75 3.75M9 15v4.5M9 15H4.5M9 15l-5.25 5.25M15 9h4.5M15 9V4.5M15 9l5.25-5.25M15 15h4.5M15 15v4.5m0-4.5l5.25 5.25" />
+          </svg>
+        </button>
+
         {/* Lock/Unlock Button */}
         <button
           onClick={handleToggleLock}
@@ -443,6 +504,20 @@ function GroupControls({ groupId, zoom }: GroupControlsProps) {
         className="absolute right-0 top-3 bottom-3 w-2 cursor-e-resize pointer-events-auto"
         onMouseDown={(e) => handleResizeMouseDown(e, "e")}
       />
+
+      {collapseOptions && createPortal(
+        <SubgraphCollapseModal
+          isOpen={!!collapseOptions}
+          groupName={group.name}
+          inputs={collapseOptions.inputs}
+          outputs={collapseOptions.outputs}
+          requiredHandles={collapseOptions.requiredHandles}
+          blockedReason={collapseOptions.blockedReason}
+          onCollapse={handleCollapse}
+          onClose={handleCloseCollapse}
+        />,
+        document.body
+      )}
     </div>
   );
 }
@@ -2,8 +2,10 @@
 
 import { useState, useRef } from "react";
 import { useWorkflowStore, WorkflowFile } from "@/store/workflowStore";
+import { WorkflowValidationError } from "@/utils/workflowSchema";
 import { ProjectSetupModal } from "./ProjectSetupModal";
 import { CostIndicator } from "./CostIndicator";
+import { RunHistoryPanel } from "./RunHistoryPanel";
 
 export function Header() {
   const {
@@ -20,6 +22,7 @@ export function Header() {
 
   const [showProjectModal, setShowProjectModal] = useState(false);
   const [projectModalMode, setProjectModalMode] = useState<"new" | "settings">("new");
+  const [showRunHistory, setShowRunHistory] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isProjectConfigured = !!workflowName;
@@ -54,13 +57,9 @@ export function Header() {
     reader.onload = (event) => {
       try {
         const workflow = JSON.parse(event.target?.result as string) as WorkflowFile;
-        if (workflow.version && workflow.nodes && workflow.edges) {
-          loadWorkflow(workflow);
-        } else {
-          alert("Invalid workflow file format");
-        }
-      } catch {
-        alert("Failed to parse workflow file");
+        loadWorkflow(workflow);
+      } catch (error) {
+        alert(error instanceof WorkflowValidationError ? error.message : "Failed to parse workflow file");
       }
     };
     reader.readAsText(file);
@@ -86,6 +85,7 @@ export function Header() {
         onSave={handleProjectSave}
         mode={projectModalMode}
       />
+      {showRunHistory && <RunHistoryPanel onClose={() => setShowRunHistory(false)} />}
       <input
         ref={fileInputRef}
         type="file"
@@ -175,8 +175,16 @@ export function Header() {
         </div>
 
         <div className="flex items-center gap-3 text-xs">
+          <button
+            onClick={() => setShowRunHistory(true)}
+            className="text-neutral-400 hover:text-neutral-200 transition-colors"
+            title="Past runs of this workflow"
+          >
+            History
+          </button>
           {isProjectConfigured && (
             <>
+              <span className="text-neutral-500">·</span>
               <span className="text-neutral-400">
                 {isSaving ? (
                   "Saving..."
@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { NodeRunRecord, RunParameterValue, RunRecord, RunRecordStatus } from "@/types";
+import { formatCost } from "@/utils/costCalculator";
+import { diffRunInputs, hashWorkflowSnapshot } from "@/utils/runHistory";
+import { formatSweepValues } from "@/utils/sweep";
+
+interface RunHistoryPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<RunRecordStatus, string> = {
+  completed: "text-green-400",
+  failed: "text-red-400",
+  stopped: "text-neutral-400",
+  paused: "text-yellow-400",
+};
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const formatValue = (value: RunParameterValue | undefined) => {
+  if (value === undefined) return "—";
+  if (value === null || value === "") return "(empty)";
+  return String(value);
+};
+
+const getEntryLabel = (entry: NodeRunRecord) => entry.title || entry.nodeId;
+
+function RunListItem({ run, selected, onSelect }: { run: RunRecord; selected: boolean; onSelect: () => void }) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full text-left px-3 py-2 border-b border-neutral-700/50 transition-colors ${
+        selected ? "bg-neutral-700" : "hover:bg-neutral-700/50"
+      }`}
+    >
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-neutral-200">
+          {new Date(run.startedAt).toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+        </span>
+        <span className={STATUS_CLASSES[run.status]}>{run.status}</span>
+      </div>
+      <div className="text-[10px] text-neutral-500 mt-0.5">
+        {run.mode === "node" ? `Node ${run.nodes[0] ? getEntryLabel(run.nodes[0]) : ""}` : `${run.nodes.length} nodes`}
+        {" · "}
+        {formatDuration(run.finishedAt - run.startedAt)}
+        {" · "}
+        {run.dryRun ? "dry run" : formatCost(run.cost)}
+      </div>
+    </button>
+  );
+}
+
+export function RunHistoryPanel({ onClose }: RunHistoryPanelProps) {
+  const runHistory = useWorkflowStore((state) => state.runHistory);
+  const loadRunHistory = useWorkflowStore((state) => state.loadRunHistory);
+  const restoreRunOutput = useWorkflowStore((state) => state.restoreRunOutput);
+  const nodes = useWorkflowStore((state) => state.nodes);
+  const edges = useWorkflowStore((state) => state.edges);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [compareRunId, setCompareRunId] = useState<string>("");
+
+  useEffect(() => {
+    loadRunHistory();
+  }, [loadRunHistory]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const selectedRun = runHistory.find((run) => run.id === selectedRunId) ?? runHistory[0] ?? null;
+  const compareRun = runHistory.find((run) => run.id === compareRunId) ?? null;
+
+  const currentHash = useMemo(() => hashWorkflowSnapshot(nodes, edges), [nodes, edges]);
+  const changes = useMemo(
+    () => (selectedRun && compareRun ? diffRunInputs(compareRun, selectedRun) : []),
+    [selectedRun, compareRun]
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50">
+      <div className="bg-neutral-800 rounded-lg w-full max-w-4xl h-[80vh] mx-4 border border-neutral-700 shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-neutral-700 shrink-0">
+          <h2 className="text-lg font-semibold text-neutral-100">
+            Run History
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-neutral-400 hover:text-neutral-200 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {runHistory.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-neutral-500">
+            No runs yet
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Run list */}
+            <div className="w-60 shrink-0 border-r border-neutral-700 overflow-y-auto">
+              {runHistory.map((run) => (
+                <RunListItem
+                  key={run.id}
+                  run={run}
+                  selected={run.id === selectedRun?.id}
+                  onSelect={() => {
+                    setSelectedRunId(run.id);
+                    if (run.id === compareRunId) setCompareRunId("");
+                  }}
+                />
+              ))}
+            </div>
+
+            {/* Selected run */}
+            {selectedRun && (
+              <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="flex items-center justify-between gap-4 text-xs">
+                  <div className="text-neutral-400 space-y-0.5">
+                    <div>
+                      <span className={STATUS_CLASSES[selectedRun.status]}>{selectedRun.status}</span>
+                      {" · "}
+                      {new Date(selectedRun.startedAt).toLocaleString()}
+                      {" · "}
+                      {formatDuration(selectedRun.finishedAt - selectedRun.startedAt)}
+                      {" · "}
+                      {selectedRun.dryRun ? "dry run" : formatCost(selectedRun.cost)}
+                    </div>
+                    <div className="text-neutral-500" title={`Snapshot ${selectedRun.snapshotHash}`}>
+                      {selectedRun.snapshotHash === currentHash
+                        ? "Same workflow as now"
+                        : "Workflow has changed since this run"}
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2 text-neutral-400 shrink-0">
+                    Compare with
+                    <select
+                      value={compareRunId}
+                      onChange={(e) => setCompareRunId(e.target.value)}
+                      className="text-xs py-1 px-2 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+                    >
+                      <option value="">None</option>
+                      {runHistory
+                        .filter((run) => run.id !== selectedRun.id)
+                        .map((run) => (
+                          <option key={run.id} value={run.id}>
+                            {new Date(run.startedAt).toLocaleString()}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                </div>
+
+                {/* Parameter diff */}
+                {compareRun && (
+                  <div className="bg-neutral-900 rounded-lg p-3">
+                    <div className="text-xs font-medium text-neutral-400 mb-2">
+                      Changes since {new Date(compareRun.startedAt).toLocaleString()}
+                    </div>
+                    {changes.length === 0 ? (
+                      <p className="text-xs text-neutral-500">No differences in node inputs</p>
+                    ) : (
+                      <table className="w-full text-[11px]">
+                        <tbody>
+                          {changes.map((change) => (
+                            <tr key={`${change.nodeId}-${change.key}`} className="align-top">
+                              <td className="pr-3 py-0.5 text-neutral-300 whitespace-nowrap">{change.title || change.nodeId}</td>
+                              <td className="pr-3 py-0.5 text-neutral-500 whitespace-nowrap">{change.key}</td>
+                              <td className="pr-3 py-0.5 text-red-300/80 break-all">{formatValue(change.before)}</td>
+                              <td className="py-0.5 text-green-300/80 break-all">{formatValue(change.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+
+                {/* Node executions */}
+                <div className="space-y-2">
+                  {selectedRun.nodes.map((entry, index) => {
+                    const canRestore = !!entry.outputImageId || entry.outputText !== undefined;
+                    return (
+                      <div key={index} className="bg-neutral-900 rounded-lg p-3 text-[11px]">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span
+                              className={entry.succeeded ? "text-green-400" : entry.cancelled ? "text-neutral-500" : "text-red-400"}
+                              title={entry.cancelled ? "Cancelled" : undefined}
+                            >
+                              {entry.succeeded ? "✓" : entry.cancelled ? "–" : "✗"}
+                            </span>
+                            <span className="text-neutral-200 truncate">{getEntryLabel(entry)}</span>
+                            <span className="text-neutral-500">{entry.type}</span>
+                            <span className="text-neutral-500">
+                              {entry.cached ? "cached" : formatDuration(entry.finishedAt - entry.startedAt)}
+                            </span>
+                          </div>
+                          {canRestore && (
+                            <button
+                              onClick={() => restoreRunOutput(selectedRun.id, index)}
+                              className="shrink-0 px-2 py-0.5 text-[10px] text-neutral-300 bg-neutral-700 hover:bg-neutral-600 rounded transition-colors"
+                              title="Put this output back on the node"
+                            >
+                              Restore
+                            </button>
+                          )}
+                        </div>
+                        {entry.sweepValues && (
+                          <div className="mt-1 text-neutral-500 whitespace-pre-wrap">{formatSweepValues(entry.sweepValues)}</div>
+                        )}
+                        {entry.error && <div className="mt-1 text-red-400">{entry.error}</div>}
+                        {Object.keys(entry.inputs).length > 0 && (
+                          <div className="mt-1.5 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                            {Object.entries(entry.inputs).map(([key, value]) => (
+                              <div key={key} className="contents">
+                                <span className="text-neutral-500">{key}</span>
+                                <span className="text-neutral-300 break-words line-clamp-3">{formatValue(value)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {entry.outputImageId && (
+                          <div className="mt-1.5 text-neutral-500">Output image {entry.outputImageId}</div>
+                        )}
+                        {entry.outputText != null && (
+                          <div className="mt-1.5 text-neutral-400 line-clamp-3">{entry.outputText}</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useReactFlow } from "@xyflow/react";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { findInlinedNode, getTopLevelNodeId } from "@/utils/subgraph";
+
+// Shown after a run that had failed nodes or continued on error, until dismissed or the next run starts
+export function RunSummaryPanel() {
+  const runSummary = useWorkflowStore((state) => state.runSummary);
+  const nodes = useWorkflowStore((state) => state.nodes);
+  const isRunning = useWorkflowStore((state) => state.isRunning);
+  const dismissRunSummary = useWorkflowStore((state) => state.dismissRunSummary);
+  const retryFailedNodes = useWorkflowStore((state) => state.retryFailedNodes);
+  const { fitView } = useReactFlow();
+
+  if (!runSummary) return null;
+
+  // Nodes deleted since the run are left out
+  const getLabel = (nodeId: string) => {
+    const node = findInlinedNode(nodes, nodeId);
+    return node ? node.data.customTitle || node.id : null;
+  };
+  const failed = runSummary.failedNodes.filter(({ nodeId }) => getLabel(nodeId));
+  const skipped = runSummary.skippedNodeIds.filter(getLabel);
+  const branchSkipped = runSummary.branchSkippedNodeIds.filter(getLabel);
+  const completed = runSummary.completedNodeIds.filter(getLabel);
+
+  // Nodes inside a subgraph are shown by the subgraph node
+  const focusNode = (nodeId: string) => {
+    fitView({ nodes: [{ id: getTopLevelNodeId(nodeId) }], duration: 300, maxZoom: 1 });
+  };
+
+  const nodeButton = (nodeId: string, className: string) => (
+    <button
+      key={nodeId}
+      onClick={() => focusNode(nodeId)}
+      className={`hover:underline text-left ${className}`}
+      title="Show on canvas"
+    >
+      {getLabel(nodeId)}
+    </button>
+  );
+
+  return (
+    <div className="fixed bottom-5 right-5 z-50 w-80 max-h-[60vh] flex flex-col bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-700 shrink-0">
+        <div className="text-xs">
+          <span className="font-medium text-neutral-200">
+            {failed.length > 0 ? "Run finished with errors" : "Run finished"}
+          </span>
+          <div className="text-[10px] text-neutral-500 mt-0.5">
+            <span className={failed.length > 0 ? "text-red-400" : ""}>{failed.length} failed</span>
+            {" · "}
+            {skipped.length + branchSkipped.length} skipped
+            {" · "}
+            <span className="text-green-400">{completed.length} completed</span>
+          </div>
+        </div>
+        <button
+          onClick={dismissRunSummary}
+          className="p-1 text-neutral-400 hover:text-neutral-200 transition-colors"
+          title="Dismiss"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-2 space-y-3 text-[11px]">
+        {failed.length > 0 && (
+          <div className="space-y-1.5">
+            <div className="text-[10px] font-medium text-neutral-400 uppercase tracking-wide">Failed</div>
+            {failed.map(({ nodeId, error }) => (
+              <div key={nodeId}>
+                {nodeButton(nodeId, "text-red-300")}
+                {error && <div className="text-neutral-400 break-words line-clamp-3">{error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+        {skipped.length > 0 && (
+          <div className="space-y-1">
+            <div
+              className="text-[10px] font-medium text-neutral-400 uppercase tracking-wide"
+              title="Not run because a node they depend on failed"
+            >
+              Skipped
+            </div>
+            <div className="flex flex-wrap gap-x-2 gap-y-0.5">
+              {skipped.map((nodeId) => nodeButton(nodeId, "text-neutral-300"))}
+            </div>
+          </div>
+        )}
+        {branchSkipped.length > 0 && (
+          <div className="space-y-1">
+            <div
+              className="text-[10px] font-medium text-neutral-400 uppercase tracking-wide"
+              title="Not run because a router didn't take their branch"
+            >
+              Branch not taken
+            </div>
+            <div className="flex flex-wrap gap-x-2 gap-y-0.5">
+              {branchSkipped.map((nodeId) => nodeButton(nodeId, "text-neutral-400"))}
+            </div>
+          </div>
+        )}
+        {completed.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-[10px] font-medium text-neutral-400 uppercase tracking-wide">Completed</div>
+            <div className="flex flex-wrap gap-x-2 gap-y-0.5">
+              {completed.map((nodeId) => nodeButton(nodeId, "text-neutral-500"))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {failed.length > 0 && runSummary.sweep && (
+        <div className="px-3 py-2 border-t border-neutral-700 shrink-0 text-[10px] text-neutral-500">
+          Shows the last run of the sweep - run the sweep again to retry
+        </div>
+      )}
+      {failed.length > 0 && !runSummary.sweep && (
+        <div className="px-3 py-2 border-t border-neutral-700 shrink-0 flex justify-end">
+          <button
+            onClick={() => retryFailedNodes()}
+            disabled={isRunning}
+            className="px-3 py-1 text-[11px] font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+            title="Run the failed and skipped nodes again, keeping the outputs of completed nodes"
+          >
+            Retry failed
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
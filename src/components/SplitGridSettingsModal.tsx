@@ -3,6 +3,7 @@
 import { useState, useCallback } from "react";
 import { useWorkflowStore } from "@/store/workflowStore";
 import { SplitGridNodeData, AspectRatio, Resolution, ModelType } from "@/types";
+import { getImageModel, getImageModelsByProvider, IMAGE_MODELS } from "@/providers/image/catalog";
 
 interface SplitGridSettingsModalProps {
   nodeId: string;
@@ -12,12 +13,7 @@ interface SplitGridSettingsModalProps {
 
 const TARGET_COUNT_OPTIONS = [4, 6, 8, 9, 10] as const;
 
-const ASPECT_RATIOS: AspectRatio[] = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
-const RESOLUTIONS: Resolution[] = ["1K", "2K", "4K"];
-const MODELS: { value: ModelType; label: string }[] = [
-  { value: "nano-banana", label: "Nano Banana" },
-  { value: "nano-banana-pro", label: "Nano Banana Pro" },
-];
+const MODEL_GROUPS = getImageModelsByProvider();
 
 // Calculate grid dimensions from target count
 const getGridDimensions = (count: number): { rows: number; cols: number } => {
@@ -46,7 +42,8 @@ export function SplitGridSettingsModal({
   const [useGoogleSearch, setUseGoogleSearch] = useState(nodeData.generateSettings.useGoogleSearch);
 
   const { rows, cols } = getGridDimensions(targetCount);
-  const isNanoBananaPro = model === "nano-banana-pro";
+  const modelDefinition = getImageModel(model) ?? IMAGE_MODELS[0];
+  const { aspectRatios, resolutions, supportsGoogleSearch } = modelDefinition.capabilities;
 
   const handleCreate = useCallback(() => {
     const splitNode = getNodeById(nodeId);
@@ -258,8 +255,15 @@ export function SplitGridSettingsModal({
                   onChange={(e) => setModel(e.target.value as ModelType)}
                   className="w-full px-3 py-2 bg-neutral-900 border border-neutral-600 rounded text-neutral-100 text-sm focus:outline-none focus:border-neutral-500"
                 >
-                  {MODELS.map((m) => (
-                    <option key={m.value} value={m.value}>{m.label}</option>
+                  {!getImageModel(model) && (
+                    <option value={model}>{model} (unavailable)</option>
+                  )}
+                  {MODEL_GROUPS.map(({ provider, models }) => (
+                    <optgroup key={provider.id} label={provider.label}>
+                      {models.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </optgroup>
                   ))}
                 </select>
               </div>
@@ -273,41 +277,41 @@ export function SplitGridSettingsModal({
                   onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
                   className="w-full px-3 py-2 bg-neutral-900 border border-neutral-600 rounded text-neutral-100 text-sm focus:outline-none focus:border-neutral-500"
                 >
-                  {ASPECT_RATIOS.map((ar) => (
+                  {aspectRatios.map((ar) => (
                     <option key={ar} value={ar}>{ar}</option>
                   ))}
                 </select>
               </div>
 
-              {isNanoBananaPro && (
-                <>
-                  <div>
-                    <label className="block text-xs text-neutral-500 mb-1">
-                      Resolution
-                    </label>
-                    <select
-                      value={resolution}
-                      onChange={(e) => setResolution(e.target.value as Resolution)}
-                      className="w-full px-3 py-2 bg-neutral-900 border border-neutral-600 rounded text-neutral-100 text-sm focus:outline-none focus:border-neutral-500"
-                    >
-                      {RESOLUTIONS.map((res) => (
-                        <option key={res} value={res}>{res}</option>
-                      ))}
-                    </select>
-                  </div>
-
-                  <div className="flex items-end pb-2">
-                    <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
-                      <input
-                        type="checkbox"
-                        checked={useGoogleSearch}
-                        onChange={(e) => setUseGoogleSearch(e.target.checked)}
-                        className="w-4 h-4 rounded border-neutral-600 bg-neutral-900"
-                      />
-                      Google Search
-                    </label>
-                  </div>
-                </>
+              {resolutions.length > 1 && (
+                <div>
+                  <label className="block text-xs text-neutral-500 mb-1">
+                    Resolution
+                  </label>
+                  <select
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value as Resolution)}
+                    className="w-full px-3 py-2 bg-neutral-900 border border-neutral-600 rounded text-neutral-100 text-sm focus:outline-none focus:border-neutral-500"
+                  >
+                    {resolutions.map((res) => (
+                      <option key={res} value={res}>{res}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {supportsGoogleSearch && (
+                <div className="flex items-end pb-2">
+                  <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={useGoogleSearch}
+                      onChange={(e) => setUseGoogleSearch(e.target.checked)}
+                      className="w-4 h-4 rounded border-neutral-600 bg-neutral-900"
+                    />
+                    Google Search
+                  </label>
+                </div>
               )}
             </div>
           </div>
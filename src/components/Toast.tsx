@@ -67,7 +67,7 @@ export function Toast() {
         className={`flex items-center gap-3 px-4 py-3 rounded-lg border shadow-xl ${typeStyles[type]}`}
       >
         {typeIcons[type]}
-        <span className="text-sm font-medium">{message}</span>
+        <span className="text-sm font-medium whitespace-pre-line">{message}</span>
         <button
           onClick={hide}
           className="ml-2 p-1 rounded hover:bg-white/10 transition-colors"
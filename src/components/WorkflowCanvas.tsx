@@ -11,12 +11,19 @@ import {
   Connection,
   Edge,
   useReactFlow,
+  useNodesInitialized,
   OnConnectEnd,
   Node,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 
 import { useWorkflowStore, WorkflowFile } from "@/store/workflowStore";
+import { useAnnotationStore } from "@/store/annotationStore";
+import { WorkflowValidationError } from "@/utils/workflowSchema";
+import { isTemplateHandleId } from "@/utils/promptTemplate";
+import { isFieldHandleId } from "@/utils/structuredOutput";
+import { isBranchHandleId, isImageBranchHandleId } from "@/utils/router";
+import { getPortHandleType } from "@/utils/subgraph";
 import {
   ImageInputNode,
   AnnotationNode,
@@ -25,6 +32,11 @@ import {
   LLMGenerateNode,
   SplitGridNode,
   OutputNode,
+  SubgraphNode,
+  MaskNode,
+  ImageTransformNode,
+  CombineGridNode,
+  RouterNode,
 } from "./nodes";
 import { EditableEdge, ReferenceEdge } from "./edges";
 import { ConnectionDropMenu, MenuAction } from "./ConnectionDropMenu";
@@ -44,6 +56,11 @@ const nodeTypes: NodeTypes = {
   llmGenerate: LLMGenerateNode,
   splitGrid: SplitGridNode,
   output: OutputNode,
+  subgraph: SubgraphNode,
+  mask: MaskNode,
+  imageTransform: ImageTransformNode,
+  combineGrid: CombineGridNode,
+  router: RouterNode,
 };
 
 const edgeTypes: EdgeTypes = {
@@ -53,15 +70,18 @@ const edgeTypes: EdgeTypes = {
 
 // Connection validation rules
 // - Image handles (green) can only connect to image handles
-// - Text handles (blue) can only connect to text handles
+// - Text handles (blue) can only connect to text handles, including prompt template variables
+//   and the field outputs of structured LLM output
+// - Mask handles (violet) can only connect to mask handles
+// - Subgraph ports follow the type named in their ID
 // - NanoBanana image input accepts multiple connections
 // - All other inputs accept only one connection
 const isValidConnection = (connection: Edge | Connection): boolean => {
-  const sourceHandle = connection.sourceHandle;
-  const targetHandle = connection.targetHandle;
+  const sourceHandle = getPortHandleType(connection.sourceHandle) ?? connection.sourceHandle;
+  const targetHandle = getPortHandleType(connection.targetHandle) ?? connection.targetHandle;
 
   // Strict type matching: image <-> image, text <-> text
-  if (sourceHandle === "image" && targetHandle !== "image") {
+  if ((sourceHandle === "image" || isImageBranchHandleId(sourceHandle)) && targetHandle !== "image") {
     logger.warn('connection.validation', 'Connection validation failed: type mismatch', {
       source: connection.source,
       target: connection.target,
@@ -71,7 +91,11 @@ const isValidConnection = (connection: Edge | Connection): boolean => {
     });
     return false;
   }
-  if (sourceHandle === "text" && targetHandle !== "text") {
+  if (
+    (sourceHandle === "text" || isFieldHandleId(sourceHandle) || isBranchHandleId(sourceHandle)) &&
+    targetHandle !== "text" &&
+    !isTemplateHandleId(targetHandle)
+  ) {
     logger.warn('connection.validation', 'Connection validation failed: type mismatch', {
       source: connection.source,
       target: connection.target,
@@ -81,6 +105,16 @@ const isValidConnection = (connection: Edge | Connection): boolean => {
     });
     return false;
   }
+  if ((sourceHandle === "mask") !== (targetHandle === "mask")) {
+    logger.warn('connection.validation', 'Connection validation failed: type mismatch', {
+      source: connection.source,
+      target: connection.target,
+      sourceHandle,
+      targetHandle,
+      reason: 'Mask handles only connect to mask handles',
+    });
+    return false;
+  }
 
   return true;
 };
@@ -95,13 +129,22 @@ const getNodeHandles = (nodeType: string): { inputs: string[]; outputs: string[]
     case "prompt":
       return { inputs: [], outputs: ["text"] };
     case "nanoBanana":
-      return { inputs: ["image", "text"], outputs: ["image"] };
+      return { inputs: ["image", "text", "mask"], outputs: ["image"] };
     case "llmGenerate":
       return { inputs: ["text", "image"], outputs: ["text"] };
     case "splitGrid":
       return { inputs: ["image"], outputs: ["reference"] };
     case "output":
       return { inputs: ["image"], outputs: [] };
+    case "mask":
+      return { inputs: ["image"], outputs: ["image", "mask"] };
+    case "imageTransform":
+      return { inputs: ["image"], outputs: ["image"] };
+    case "combineGrid":
+      return { inputs: ["image", "text"], outputs: ["image"] };
+    case "router":
+      // Branch outputs are named per node
+      return { inputs: ["text", "image"], outputs: [] };
     default:
       return { inputs: [], outputs: [] };
   }
@@ -110,7 +153,7 @@ const getNodeHandles = (nodeType: string): { inputs: string[]; outputs: string[]
 interface ConnectionDropState {
   position: { x: number; y: number };
   flowPosition: { x: number; y: number };
-  handleType: "image" | "text" | null;
+  handleType: "image" | "text" | "mask" | null;
   connectionType: "source" | "target";
   sourceNodeId: string | null;
   sourceHandleId: string | null;
@@ -187,9 +230,11 @@ const findScrollableAncestor = (target: HTMLElement, deltaX: number, deltaY: num
 };
 
 export function WorkflowCanvas() {
-  const { nodes, edges, groups, onNodesChange, onEdgesChange, onConnect, addNode, updateNodeData, loadWorkflow, getNodeById, addToGlobalHistory, setNodeGroupId, executeWorkflow, isModalOpen } =
+  const { nodes, edges, groups, onNodesChange, onEdgesChange, onConnect, addNode, updateNodeData, loadWorkflow, getNodeById, addToGlobalHistory, setNodeGroupId, executeWorkflow, isModalOpen, undo, redo } =
     useWorkflowStore();
-  const { screenToFlowPosition, getViewport, zoomIn, zoomOut, setViewport } = useReactFlow();
+  const { screenToFlowPosition, getViewport, zoomIn, zoomOut, setViewport, getIntersectingNodes } = useReactFlow();
+  const saveDirectoryPath = useWorkflowStore((state) => state.saveDirectoryPath);
+  const nodesInitialized = useNodesInitialized();
   const [isDragOver, setIsDragOver] = useState(false);
   const [dropType, setDropType] = useState<"image" | "workflow" | "node" | null>(null);
   const [connectionDrop, setConnectionDrop] = useState<ConnectionDropState | null>(null);
@@ -201,6 +246,27 @@ export function WorkflowCanvas() {
     return nodes;
   }, [nodes]);
 
+  // Images of a saved workflow are loaded as their nodes come into view
+  const hydrateVisibleImages = useCallback(() => {
+    const bounds = reactFlowWrapper.current?.getBoundingClientRect();
+    if (!bounds) return;
+    const topLeft = screenToFlowPosition({ x: bounds.left, y: bounds.top });
+    const bottomRight = screenToFlowPosition({ x: bounds.right, y: bounds.bottom });
+    const visibleNodes = getIntersectingNodes({
+      x: topLeft.x,
+      y: topLeft.y,
+      width: bottomRight.x - topLeft.x,
+      height: bottomRight.y - topLeft.y,
+    });
+    if (visibleNodes.length > 0) {
+      useWorkflowStore.getState().hydrateWorkflowImages(visibleNodes.map((node) => node.id));
+    }
+  }, [screenToFlowPosition, getIntersectingNodes]);
+
+  useEffect(() => {
+    if (nodesInitialized) hydrateVisibleImages();
+  }, [hydrateVisibleImages, nodesInitialized, nodes.length, saveDirectoryPath]);
+
 
   // Check if a node was dropped into a group and add it to that group
   const handleNodeDragStop = useCallback(
@@ -293,7 +359,11 @@ export function WorkflowCanvas() {
 
       const { clientX, clientY } = event as MouseEvent;
       const fromHandleId = connectionState.fromHandle?.id || null;
-      const fromHandleType = (fromHandleId === "image" || fromHandleId === "text") ? fromHandleId : null;
+      const fromHandleType = (fromHandleId === "image" || fromHandleId === "text" || fromHandleId === "mask")
+        ? fromHandleId
+        : isTemplateHandleId(fromHandleId) || isFieldHandleId(fromHandleId) || isBranchHandleId(fromHandleId)
+          ? "text"
+          : isImageBranchHandleId(fromHandleId) ? "image" : null;
       const isFromSource = connectionState.fromHandle?.type === "source";
 
       // Check if we dropped on a node by looking for node elements under the cursor
@@ -380,7 +450,7 @@ export function WorkflowCanvas() {
         sourceImage = (sourceNode.data as NanoBananaNodeData).outputImage;
       } else if (sourceNode.type === "imageInput") {
         sourceImage = (sourceNode.data as { image: string | null }).image;
-      } else if (sourceNode.type === "annotation") {
+      } else if (sourceNode.type === "annotation" || sourceNode.type === "imageTransform" || sourceNode.type === "combineGrid") {
         sourceImage = (sourceNode.data as { outputImage: string | null }).outputImage;
       }
 
@@ -463,6 +533,8 @@ export function WorkflowCanvas() {
       case "annotation":
         return (node.data as { outputImage: string | null }).outputImage;
       case "nanoBanana":
+      case "imageTransform":
+      case "combineGrid":
         return (node.data as { outputImage: string | null }).outputImage;
       default:
         return null;
@@ -505,15 +577,18 @@ export function WorkflowCanvas() {
 
       // Map handle type to the correct handle ID based on node type
       if (handleType === "image") {
-        if (nodeType === "annotation" || nodeType === "output" || nodeType === "splitGrid") {
+        if (nodeType === "annotation" || nodeType === "output" || nodeType === "splitGrid" || nodeType === "mask") {
           targetHandleId = "image";
         } else if (nodeType === "nanoBanana") {
           targetHandleId = "image";
         } else if (nodeType === "imageInput") {
           sourceHandleIdForNewNode = "image";
+        } else if (nodeType === "imageTransform" || nodeType === "combineGrid") {
+          targetHandleId = "image";
+          sourceHandleIdForNewNode = "image";
         }
       } else if (handleType === "text") {
-        if (nodeType === "nanoBanana" || nodeType === "llmGenerate") {
+        if (nodeType === "nanoBanana" || nodeType === "llmGenerate" || nodeType === "combineGrid" || nodeType === "router") {
           targetHandleId = "text";
           // llmGenerate also has a text output
           if (nodeType === "llmGenerate") {
@@ -522,6 +597,12 @@ export function WorkflowCanvas() {
         } else if (nodeType === "prompt") {
           sourceHandleIdForNewNode = "text";
         }
+      } else if (handleType === "mask") {
+        if (nodeType === "nanoBanana") {
+          targetHandleId = "mask";
+        } else if (nodeType === "mask") {
+          sourceHandleIdForNewNode = "mask";
+        }
       }
 
       // Get all selected nodes to connect them all to the new node
@@ -667,6 +748,19 @@ export function WorkflowCanvas() {
       return;
     }
 
+    // Handle undo (Ctrl/Cmd + Z) and redo (Ctrl/Cmd + Shift + Z or Ctrl + Y)
+    // Modals such as the annotation editor have their own history
+    if ((event.ctrlKey || event.metaKey) && (event.key.toLowerCase() === "z" || event.key === "y")) {
+      if (isModalOpen || useAnnotationStore.getState().isModalOpen) return;
+      event.preventDefault();
+      if (event.key === "y" || event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+      return;
+    }
+
     // Handle workflow execution (Ctrl/Cmd + Enter)
     if ((event.ctrlKey || event.metaKey) && event.key === "Enter") {
       event.preventDefault();
@@ -710,6 +804,18 @@ export function WorkflowCanvas() {
           case "a":
             nodeType = "annotation";
             break;
+          case "m":
+            nodeType = "mask";
+            break;
+          case "t":
+            nodeType = "imageTransform";
+            break;
+          case "c":
+            nodeType = "combineGrid";
+            break;
+          case "r":
+            nodeType = "router";
+            break;
         }
 
         if (nodeType) {
@@ -724,6 +830,11 @@ export function WorkflowCanvas() {
             llmGenerate: { width: 320, height: 360 },
             splitGrid: { width: 300, height: 320 },
             output: { width: 320, height: 320 },
+            subgraph: { width: 280, height: 240 },
+            mask: { width: 300, height: 300 },
+            imageTransform: { width: 320, height: 480 },
+            combineGrid: { width: 320, height: 420 },
+            router: { width: 340, height: 360 },
           };
           const dims = defaultDimensions[nodeType];
           addNode(nodeType, { x: centerX - dims.width / 2, y: centerY - dims.height / 2 });
@@ -807,19 +918,19 @@ export function WorkflowCanvas() {
 
         let currentY = sortedNodes[0].position.y;
 
-        sortedNodes.forEach((node) => {
-          const nodeHeight = (node.style?.height as number) || (node.measured?.height) || 200;
-
-          onNodesChange([
-            {
-              type: "position",
+        // Apply all moves in one change so they undo as a single step
+        onNodesChange(
+          sortedNodes.map((node) => {
+            const nodeHeight = (node.style?.height as number) || (node.measured?.height) || 200;
+            const change = {
+              type: "position" as const,
               id: node.id,
               position: { x: alignX, y: currentY },
-            },
-          ]);
-
-          currentY += nodeHeight + STACK_GAP;
-        });
+            };
+            currentY += nodeHeight + STACK_GAP;
+            return change;
+          })
+        );
       } else if (event.key === "h" || event.key === "H") {
         // Stack horizontally - sort by current x position to maintain relative order
         const sortedNodes = [...selectedNodes].sort((a, b) => a.position.x - b.position.x);
@@ -829,19 +940,18 @@ export function WorkflowCanvas() {
 
         let currentX = sortedNodes[0].position.x;
 
-        sortedNodes.forEach((node) => {
-          const nodeWidth = (node.style?.width as number) || (node.measured?.width) || 220;
-
-          onNodesChange([
-            {
-              type: "position",
+        onNodesChange(
+          sortedNodes.map((node) => {
+            const nodeWidth = (node.style?.width as number) || (node.measured?.width) || 220;
+            const change = {
+              type: "position" as const,
               id: node.id,
               position: { x: currentX, y: alignY },
-            },
-          ]);
-
-          currentX += nodeWidth + STACK_GAP;
-        });
+            };
+            currentX += nodeWidth + STACK_GAP;
+            return change;
+          })
+        );
       } else if (event.key === "g" || event.key === "G") {
         // Arrange as grid
         const count = selectedNodes.length;
@@ -868,23 +978,23 @@ export function WorkflowCanvas() {
         );
 
         // Position each node in the grid
-        sortedNodes.forEach((node, index) => {
-          const col = index % cols;
-          const row = Math.floor(index / cols);
+        onNodesChange(
+          sortedNodes.map((node, index) => {
+            const col = index % cols;
+            const row = Math.floor(index / cols);
 
-          onNodesChange([
-            {
-              type: "position",
+            return {
+              type: "position" as const,
               id: node.id,
               position: {
                 x: startX + col * (maxWidth + STACK_GAP),
                 y: startY + row * (maxHeight + STACK_GAP),
               },
-            },
-          ]);
-        });
+            };
+          })
+        );
       }
-  }, [nodes, onNodesChange, copySelectedNodes, pasteNodes, clearClipboard, clipboard, getViewport, addNode, updateNodeData, executeWorkflow]);
+  }, [nodes, onNodesChange, copySelectedNodes, pasteNodes, clearClipboard, clipboard, getViewport, addNode, updateNodeData, executeWorkflow, isModalOpen, undo, redo]);
 
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
@@ -991,13 +1101,9 @@ export function WorkflowCanvas() {
         reader.onload = (e) => {
           try {
             const workflow = JSON.parse(e.target?.result as string) as WorkflowFile;
-            if (workflow.version && workflow.nodes && workflow.edges) {
-              loadWorkflow(workflow);
-            } else {
-              alert("Invalid workflow file format");
-            }
-          } catch {
-            alert("Failed to parse workflow file");
+            loadWorkflow(workflow);
+          } catch (error) {
+            alert(error instanceof WorkflowValidationError ? error.message : "Failed to parse workflow file");
           }
         };
         reader.readAsText(file);
@@ -1085,6 +1191,7 @@ export function WorkflowCanvas() {
         onConnect={handleConnect}
         onConnectEnd={handleConnectEnd}
         onNodeDragStop={handleNodeDragStop}
+        onMoveEnd={hydrateVisibleImages}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
         isValidConnection={isValidConnection}
@@ -1134,6 +1241,16 @@ export function WorkflowCanvas() {
                 return "#f59e0b";
               case "output":
                 return "#ef4444";
+              case "subgraph":
+                return "#e879f9";
+              case "mask":
+                return "#a855f7";
+              case "imageTransform":
+                return "#14b8a6";
+              case "combineGrid":
+                return "#84cc16";
+              case "router":
+                return "#eab308";
               default:
                 return "#94a3b8";
             }
@@ -10,6 +10,8 @@ import {
 } from "@xyflow/react";
 import { useWorkflowStore } from "@/store/workflowStore";
 import { NanoBananaNodeData, WorkflowEdgeData } from "@/types";
+import { isImageBranchHandleId } from "@/utils/router";
+import { getPortHandleType } from "@/utils/subgraph";
 
 interface EdgeData extends WorkflowEdgeData {
   offsetX?: number;
@@ -20,6 +22,7 @@ interface EdgeData extends WorkflowEdgeData {
 const EDGE_COLORS = {
   image: "#10b981", // Green for image connections
   prompt: "#3b82f6", // Blue for prompt connections
+  mask: "#a855f7", // Violet for mask connections
   default: "#94a3b8", // Gray for unknown
   pause: "#f97316", // Orange for paused edges
 };
@@ -65,9 +68,11 @@ export function EditableEdge({
   const edgeColor = useMemo(() => {
     if (hasPause) return EDGE_COLORS.pause;
     // Use source handle to determine color (or target if source is not available)
-    const handleType = sourceHandleId || targetHandleId;
-    if (handleType === "image") return EDGE_COLORS.image;
+    const handleId = sourceHandleId || targetHandleId;
+    const handleType = getPortHandleType(handleId) ?? handleId;
+    if (handleType === "image" || isImageBranchHandleId(handleId)) return EDGE_COLORS.image;
     if (handleType === "prompt") return EDGE_COLORS.prompt;
+    if (handleType === "mask") return EDGE_COLORS.mask;
     return EDGE_COLORS.default;
   }, [hasPause, sourceHandleId, targetHandleId]);
 
@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ImageChatTurn } from '@/types';
+
+interface ImageChatModalProps {
+  isOpen: boolean;
+  turns: ImageChatTurn[];
+  outputImage: string | null;
+  isGenerating: boolean;
+  // Another run holds the workflow - messages can't be sent until it finishes
+  isBusy: boolean;
+  error: string | null;
+  onSend: (message: string) => void;
+  // Run the node on its inputs, which starts a new thread
+  onRestart: () => void;
+  onSelectImage: (image: string) => void;
+  onClose: () => void;
+}
+
+export const ImageChatModal: React.FC<ImageChatModalProps> = ({
+  isOpen,
+  turns,
+  outputImage,
+  isGenerating,
+  isBusy,
+  error,
+  onSend,
+  onRestart,
+  onSelectImage,
+  onClose,
+}) => {
+  const [message, setMessage] = useState('');
+  const threadRef = useRef<HTMLDivElement>(null);
+  const canSend = turns.length > 0 && !isBusy && message.trim() !== '';
+
+  // Keep the latest answer in view
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight });
+  }, [turns.length, isGenerating]);
+
+  // Handle Escape key to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      window.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const handleSend = useCallback(() => {
+    if (!canSend) return;
+    onSend(message.trim());
+    setMessage('');
+  }, [canSend, message, onSend]);
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        handleSend();
+      }
+    },
+    [handleSend]
+  );
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      // Only close if clicking the backdrop itself, not the dialog content
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    },
+    [onClose]
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-neutral-800 border border-neutral-700 rounded-lg shadow-2xl w-full max-w-3xl h-[85vh] flex flex-col mx-4">
+        {/* Header */}
+        <div className="px-6 pt-6 pb-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-neutral-100">
+            Chat
+          </h2>
+          <button
+            onClick={onRestart}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-xs font-medium text-neutral-300 bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+            title="Generate from the node's inputs again and start a new thread"
+          >
+            {turns.length > 0 ? 'New conversation' : 'Start conversation'}
+          </button>
+        </div>
+
+        {/* Thread */}
+        <div
+          ref={threadRef}
+          className="nowheel mx-6 mb-4 flex-1 overflow-y-auto border border-neutral-700 rounded bg-neutral-900/30 p-4 flex flex-col gap-4"
+        >
+          {turns.length === 0 && !isGenerating && (
+            <div className="flex-1 flex items-center justify-center text-sm text-neutral-500 text-center px-8">
+              Start the conversation by running the node - its prompt and images become the first message.
+            </div>
+          )}
+
+          {turns.map((turn, index) => (
+            <React.Fragment key={`${turn.timestamp}-${index}`}>
+              {/* Message */}
+              <div className="self-end max-w-[80%] flex flex-col items-end gap-2">
+                <div className="px-3 py-2 rounded-lg bg-blue-600/30 border border-blue-500/30 text-sm text-neutral-100 whitespace-pre-wrap break-words">
+                  {turn.prompt}
+                </div>
+                {turn.images.length > 0 && (
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {turn.images.map((image, imageIndex) => (
+                      <img
+                        key={imageIndex}
+                        src={image}
+                        alt={`Input ${imageIndex + 1}`}
+                        className="w-12 h-12 object-cover rounded border border-neutral-700"
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Answer - clicking it makes it the node's output */}
+              <button
+                onClick={() => onSelectImage(turn.image)}
+                className={`self-start max-w-[60%] rounded overflow-hidden border-2 transition-colors ${
+                  turn.image === outputImage ? 'border-blue-500' : 'border-transparent hover:border-neutral-600'
+                }`}
+                title={turn.image === outputImage ? 'Current output' : 'Use as output'}
+              >
+                <img src={turn.image} alt={`Answer ${index + 1}`} className="max-h-80 object-contain" />
+              </button>
+            </React.Fragment>
+          ))}
+
+          {isGenerating && (
+            <div className="self-start flex items-center gap-2 text-sm text-neutral-400">
+              <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="3" />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+              Generating...
+            </div>
+          )}
+
+          {error && !isGenerating && (
+            <div className="self-start text-sm text-red-400">{error}</div>
+          )}
+        </div>
+
+        {/* Message input */}
+        <div className="flex gap-3 px-6 pb-6">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={turns.length > 0 ? 'Describe the next change...' : 'Start the conversation first'}
+            disabled={turns.length === 0}
+            rows={2}
+            className="nodrag nopan nowheel flex-1 px-3 py-2 text-sm text-neutral-100 bg-neutral-900/50 border border-neutral-700 rounded resize-none focus:outline-none focus:ring-1 focus:ring-neutral-600 placeholder:text-neutral-500 disabled:opacity-50"
+            autoFocus
+          />
+          <button
+            onClick={handleSend}
+            disabled={!canSend}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors focus:outline-none focus:ring-1 focus:ring-blue-400"
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
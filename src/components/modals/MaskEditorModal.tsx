@@ -0,0 +1,245 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Stage, Layer, Image as KonvaImage, Line } from "react-konva";
+import Konva from "konva";
+import { MaskStroke } from "@/types";
+import { renderMask } from "@/utils/mask";
+
+const BRUSH_SIZES = [16, 40, 80, 160];
+
+// Painted region shown over the image - the saved mask is black and white
+const OVERLAY_COLOR = "#a855f7";
+const OVERLAY_OPACITY = 0.55;
+
+interface MaskEditorModalProps {
+  isOpen: boolean;
+  image: string;
+  strokes: MaskStroke[];
+  onSave: (strokes: MaskStroke[], mask: string | null) => void;
+  onClose: () => void;
+}
+
+// A lone click leaves a single point, which a line would not draw
+const getLinePoints = (stroke: MaskStroke) =>
+  stroke.points.length === 2 ? [...stroke.points, ...stroke.points] : stroke.points;
+
+export function MaskEditorModal({ isOpen, image, strokes: initialStrokes, onSave, onClose }: MaskEditorModalProps) {
+  const stageRef = useRef<Konva.Stage>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  const [scale, setScale] = useState(1);
+  const [position, setPosition] = useState({ x: 0, y: 0 });
+  const [strokes, setStrokes] = useState<MaskStroke[]>(initialStrokes);
+  const [currentStroke, setCurrentStroke] = useState<MaskStroke | null>(null);
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [isErasing, setIsErasing] = useState(false);
+
+  // Fit the image to the canvas area
+  useEffect(() => {
+    const img = new window.Image();
+    img.onload = () => {
+      setSourceImage(img);
+      if (containerRef.current) {
+        const containerWidth = containerRef.current.clientWidth - 100;
+        const containerHeight = containerRef.current.clientHeight - 100;
+        const newScale = Math.min(containerWidth / img.width, containerHeight / img.height, 1);
+        setScale(newScale);
+        setPosition({
+          x: (containerWidth - img.width * newScale) / 2 + 50,
+          y: (containerHeight - img.height * newScale) / 2 + 50,
+        });
+      }
+    };
+    img.src = image;
+  }, [image]);
+
+  const undo = useCallback(() => {
+    setStrokes((current) => current.slice(0, -1));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      } else if ((e.ctrlKey || e.metaKey) && e.key === "z") {
+        e.preventDefault();
+        undo();
+      } else if (e.key === "b") {
+        setIsErasing(false);
+      } else if (e.key === "e") {
+        setIsErasing(true);
+      }
+    };
+
+    if (isOpen) {
+      window.addEventListener("keydown", handleKeyDown);
+    }
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen, onClose, undo]);
+
+  // Pointer position in image pixels
+  const getImagePointerPosition = useCallback(() => {
+    const stage = stageRef.current;
+    const pos = stage?.getPointerPosition();
+    if (!stage || !pos) return null;
+    return stage.getAbsoluteTransform().copy().invert().point(pos);
+  }, []);
+
+  const handleMouseDown = useCallback(() => {
+    const pos = getImagePointerPosition();
+    if (!pos) return;
+    setCurrentStroke({ points: [pos.x, pos.y], size: brushSize, erase: isErasing });
+  }, [getImagePointerPosition, brushSize, isErasing]);
+
+  const handleMouseMove = useCallback(() => {
+    if (!currentStroke) return;
+    const pos = getImagePointerPosition();
+    if (!pos) return;
+    setCurrentStroke({ ...currentStroke, points: [...currentStroke.points, pos.x, pos.y] });
+  }, [currentStroke, getImagePointerPosition]);
+
+  const handleMouseUp = useCallback(() => {
+    if (!currentStroke) return;
+    setStrokes((current) => [...current, currentStroke]);
+    setCurrentStroke(null);
+  }, [currentStroke]);
+
+  const handleWheel = useCallback((e: Konva.KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    const scaleBy = 1.1;
+    const newScale = e.evt.deltaY > 0 ? scale / scaleBy : scale * scaleBy;
+    setScale(Math.min(Math.max(newScale, 0.1), 5));
+  }, [scale]);
+
+  const handleSave = useCallback(() => {
+    if (!sourceImage) return;
+    // Nothing painted means no mask - the whole image may change
+    const mask = strokes.some((stroke) => !stroke.erase)
+      ? renderMask(strokes, sourceImage.width, sourceImage.height)
+      : null;
+    onSave(mask ? strokes : [], mask);
+  }, [sourceImage, strokes, onSave]);
+
+  if (!isOpen) return null;
+
+  const renderStroke = (stroke: MaskStroke, key: number | string) => (
+    <Line
+      key={key}
+      points={getLinePoints(stroke)}
+      stroke={OVERLAY_COLOR}
+      strokeWidth={stroke.size}
+      lineCap="round"
+      lineJoin="round"
+      globalCompositeOperation={stroke.erase ? "destination-out" : "source-over"}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-neutral-950 flex flex-col">
+      {/* Top Bar */}
+      <div className="h-14 bg-neutral-900 flex items-center justify-between px-4 border-b border-neutral-800">
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => setIsErasing(false)}
+            className={`px-3.5 py-1.5 text-xs font-medium rounded transition-colors ${
+              !isErasing ? "bg-white text-neutral-900" : "text-neutral-400 hover:text-white"
+            }`}
+            title="Paint the region to change (B)"
+          >
+            Brush
+          </button>
+          <button
+            onClick={() => setIsErasing(true)}
+            className={`px-3.5 py-1.5 text-xs font-medium rounded transition-colors ${
+              isErasing ? "bg-white text-neutral-900" : "text-neutral-400 hover:text-white"
+            }`}
+            title="Erase back to the region to keep (E)"
+          >
+            Eraser
+          </button>
+
+          <div className="w-px h-6 bg-neutral-700 mx-3" />
+
+          <button onClick={undo} className="px-3 py-1.5 text-xs text-neutral-400 hover:text-white">Undo</button>
+          <button onClick={() => setStrokes([])} className="px-3 py-1.5 text-xs text-neutral-400 hover:text-red-400">Clear</button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className="px-4 py-1.5 text-xs font-medium text-neutral-400 hover:text-white">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!sourceImage}
+            className="px-4 py-1.5 text-xs font-medium bg-white text-neutral-900 rounded hover:bg-neutral-200 disabled:opacity-50"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas Container */}
+      <div ref={containerRef} className="flex-1 overflow-hidden bg-neutral-900 cursor-crosshair">
+        <Stage
+          ref={stageRef}
+          width={containerRef.current?.clientWidth || 800}
+          height={containerRef.current?.clientHeight || 600}
+          scaleX={scale}
+          scaleY={scale}
+          x={position.x}
+          y={position.y}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          onWheel={handleWheel}
+        >
+          <Layer>
+            {sourceImage && <KonvaImage image={sourceImage} width={sourceImage.width} height={sourceImage.height} />}
+          </Layer>
+          {/* Own layer so the eraser only cuts through strokes, not the image */}
+          <Layer opacity={OVERLAY_OPACITY}>
+            {strokes.map(renderStroke)}
+            {currentStroke && renderStroke(currentStroke, "current")}
+          </Layer>
+        </Stage>
+      </div>
+
+      {/* Bottom Options Bar */}
+      <div className="h-14 bg-neutral-900 flex items-center justify-center gap-6 px-4 border-t border-neutral-800">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-neutral-500 uppercase tracking-wide mr-1">Size</span>
+          {BRUSH_SIZES.map((size) => (
+            <button
+              key={size}
+              onClick={() => setBrushSize(size)}
+              className={`px-2.5 py-1 text-xs rounded transition-colors ${
+                brushSize === size ? "bg-white text-neutral-900" : "text-neutral-400 hover:text-white"
+              }`}
+            >
+              {size}px
+            </button>
+          ))}
+        </div>
+
+        <div className="w-px h-6 bg-neutral-700" />
+
+        <span className="text-[10px] text-neutral-500">
+          Painted areas may change - everything else is kept
+        </span>
+
+        <div className="w-px h-6 bg-neutral-700" />
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => setScale(Math.max(scale - 0.1, 0.1))} className="w-7 h-7 rounded text-neutral-400 hover:text-white text-sm">-</button>
+          <span className="text-xs text-neutral-400 w-12 text-center">{Math.round(scale * 100)}%</span>
+          <button onClick={() => setScale(Math.min(scale + 0.1, 5))} className="w-7 h-7 rounded text-neutral-400 hover:text-white text-sm">+</button>
+        </div>
+      </div>
+    </div>
+  );
+}
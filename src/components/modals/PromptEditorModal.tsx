@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { getTemplateVariables, splitTemplate, TemplateValues } from '@/utils/promptTemplate';
 
 const FONT_SIZE_STORAGE_KEY = 'prompt-editor-font-size';
 const DEFAULT_FONT_SIZE = 14;
@@ -9,6 +10,8 @@ const FONT_SIZE_OPTIONS = [10, 12, 14, 16, 18, 20, 24];
 interface PromptEditorModalProps {
   isOpen: boolean;
   initialPrompt: string;
+  // Text connected to the prompt's {{variables}}, for the preview
+  templateValues?: TemplateValues;
   onSubmit: (prompt: string) => void;
   onClose: () => void;
 }
@@ -16,6 +19,7 @@ interface PromptEditorModalProps {
 export const PromptEditorModal: React.FC<PromptEditorModalProps> = ({
   isOpen,
   initialPrompt,
+  templateValues = {},
   onSubmit,
   onClose,
 }) => {
@@ -34,6 +38,8 @@ export const PromptEditorModal: React.FC<PromptEditorModalProps> = ({
     return DEFAULT_FONT_SIZE;
   });
 
+  const hasVariables = useMemo(() => getTemplateVariables(prompt).length > 0, [prompt]);
+
   // Update local state when initial prompt changes
   useEffect(() => {
     setPrompt(initialPrompt);
@@ -126,6 +132,39 @@ export const PromptEditorModal: React.FC<PromptEditorModalProps> = ({
           />
         </div>
 
+        {/* Preview of the prompt with connected text filled in */}
+        {hasVariables && (
+          <div className="mx-6 mb-4 max-h-[30%] flex flex-col border border-neutral-700 rounded bg-neutral-900/30 overflow-hidden">
+            <div className="px-4 py-2 bg-neutral-900 border-b border-neutral-700 text-xs font-medium text-neutral-400 shrink-0">
+              Preview
+            </div>
+            <div
+              className="px-6 py-3 overflow-y-auto leading-relaxed text-neutral-300 whitespace-pre-wrap break-words"
+              style={{ fontSize: `${fontSize}px` }}
+            >
+              {splitTemplate(prompt).map((part, index) => {
+                if (part.variable === undefined) {
+                  return <React.Fragment key={index}>{part.text}</React.Fragment>;
+                }
+                const value = templateValues[part.variable];
+                return value != null ? (
+                  <span key={index} className="text-blue-300" title={`{{${part.variable}}}`}>
+                    {value}
+                  </span>
+                ) : (
+                  <span
+                    key={index}
+                    className="text-amber-400"
+                    title={part.variable in templateValues ? "No text yet - run the connected node" : "Not connected"}
+                  >
+                    {part.text}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Footer with buttons */}
         <div className="flex justify-end gap-3 px-6 pb-6">
           <button
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { HandleType } from '@/types';
+import { ExposableHandle } from '@/utils/subgraph';
+
+interface SubgraphCollapseModalProps {
+  isOpen: boolean;
+  groupName: string;
+  inputs: ExposableHandle[];
+  outputs: ExposableHandle[];
+  // Handles with edges to nodes outside the group - they must stay reachable
+  requiredHandles: ExposableHandle[];
+  // Why the group can't be collapsed, if it can't
+  blockedReason: string | null;
+  onCollapse: (exposed: { inputs: ExposableHandle[]; outputs: ExposableHandle[] }) => void;
+  onClose: () => void;
+}
+
+const HANDLE_TYPE_COLORS: Record<HandleType, string> = {
+  image: 'text-emerald-400',
+  text: 'text-blue-400',
+  mask: 'text-purple-400',
+};
+
+const handleKey = (handle: ExposableHandle) => `${handle.nodeId}:${handle.handleId}`;
+
+export const SubgraphCollapseModal: React.FC<SubgraphCollapseModalProps> = ({
+  isOpen,
+  groupName,
+  inputs,
+  outputs,
+  requiredHandles,
+  blockedReason,
+  onCollapse,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(requiredHandles.map(handleKey)));
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const required = new Set(requiredHandles.map(handleKey));
+
+  // Handle Escape key to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      window.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  const toggle = useCallback((key: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleCollapse = useCallback(() => {
+    const exposed = (handles: ExposableHandle[]) =>
+      handles
+        .filter((handle) => selected.has(handleKey(handle)))
+        .map((handle) => ({ ...handle, label: labels[handleKey(handle)]?.trim() || handle.label }));
+    onCollapse({ inputs: exposed(inputs), outputs: exposed(outputs) });
+  }, [inputs, outputs, selected, labels, onCollapse]);
+
+  const handleBackdropClick = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      // Only close if clicking the backdrop itself, not the dialog content
+      if (e.target === e.currentTarget) {
+        onClose();
+      }
+    },
+    [onClose]
+  );
+
+  if (!isOpen) return null;
+
+  const renderHandles = (title: string, handles: ExposableHandle[]) => (
+    <div className="flex flex-col gap-1.5">
+      <div className="text-xs font-medium text-neutral-400 uppercase tracking-wide">{title}</div>
+      {handles.length === 0 ? (
+        <div className="text-sm text-neutral-500">None available</div>
+      ) : (
+        handles.map((handle) => {
+          const key = handleKey(handle);
+          const isRequired = required.has(key);
+          return (
+            <label key={key} className="flex items-center gap-2 text-sm text-neutral-200">
+              <input
+                type="checkbox"
+                checked={isRequired || selected.has(key)}
+                disabled={isRequired}
+                onChange={() => toggle(key)}
+                className="accent-blue-500"
+                title={isRequired ? 'Connected to nodes outside the group' : undefined}
+              />
+              <input
+                type="text"
+                value={labels[key] ?? handle.label}
+                onChange={(e) => setLabels((current) => ({ ...current, [key]: e.target.value }))}
+                disabled={!isRequired && !selected.has(key)}
+                className="flex-1 px-2 py-1 text-sm text-neutral-100 bg-neutral-900/50 border border-neutral-700 rounded focus:outline-none focus:ring-1 focus:ring-neutral-600 disabled:opacity-50"
+              />
+              <span className={`text-xs ${HANDLE_TYPE_COLORS[handle.type]}`}>
+                {handle.type}
+              </span>
+            </label>
+          );
+        })
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-neutral-800 border border-neutral-700 rounded-lg shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col mx-4">
+        {/* Header */}
+        <div className="px-6 pt-6 pb-2">
+          <h2 className="text-xl font-semibold text-neutral-100">
+            Collapse &quot;{groupName}&quot; to a subgraph
+          </h2>
+          <p className="mt-1 text-sm text-neutral-400">
+            Choose the handles the subgraph node exposes. Handles connected outside the group are always exposed.
+          </p>
+        </div>
+
+        {/* Handles */}
+        <div className="nowheel px-6 py-4 flex-1 overflow-y-auto flex flex-col gap-4">
+          {blockedReason ? (
+            <div className="text-sm text-red-400">{blockedReason}</div>
+          ) : (
+            <>
+              {renderHandles('Inputs', inputs)}
+              {renderHandles('Outputs', outputs)}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 px-6 pb-6 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-neutral-300 bg-neutral-700 hover:bg-neutral-600 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCollapse}
+            disabled={!!blockedReason}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors focus:outline-none focus:ring-1 focus:ring-blue-400"
+          >
+            Collapse
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
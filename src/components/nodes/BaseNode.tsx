@@ -1,9 +1,67 @@
 "use client";
 
-import { ReactNode, useCallback, useState, useEffect, useRef } from "react";
+import { ReactNode, useCallback, useMemo, useState, useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
 import { NodeResizer, OnResize, useReactFlow } from "@xyflow/react";
 import { useWorkflowStore } from "@/store/workflowStore";
+import { getConnectedInputs, getRunGraph } from "@/engine/workflowEngine";
+import { NodeCacheState, getNodeCacheState } from "@/utils/nodeCache";
+import { NodeAttempts, WorkflowEdge, WorkflowNode, WorkflowNodeData } from "@/types";
+
+type ConnectedInputs = ReturnType<typeof getConnectedInputs>;
+
+const sameInputs = (a: ConnectedInputs, b: ConnectedInputs) =>
+  a.text === b.text &&
+  a.mask === b.mask &&
+  a.images.length === b.images.length &&
+  a.images.every((image, i) => image === b.images[i]);
+
+// Shared by every node's selector, so the run's view of the graph is built once per change
+let lastRunGraph: { nodes: WorkflowNode[]; edges: WorkflowEdge[]; graph: ReturnType<typeof getRunGraph> } | null = null;
+function getSharedRunGraph(nodes: WorkflowNode[], edges: WorkflowEdge[]) {
+  if (lastRunGraph?.nodes !== nodes || lastRunGraph.edges !== edges) {
+    lastRunGraph = { nodes, edges, graph: getRunGraph(nodes, edges) };
+  }
+  return lastRunGraph.graph;
+}
+
+/**
+ * Store selector for one node's cache state, from the inputs a run would give it.
+ * Hashing the inputs reads every image in them, so it only happens again when the
+ * node's data or its inputs change - not on every drag or keystroke elsewhere on
+ * the canvas.
+ */
+function createCacheStateSelector(id: string) {
+  let last: {
+    nodes: WorkflowNode[];
+    edges: WorkflowEdge[];
+    data: WorkflowNodeData;
+    inputs: ConnectedInputs;
+    dryRun: boolean;
+    cacheState: NodeCacheState | null;
+  } | null = null;
+
+  return (state: { nodes: WorkflowNode[]; edges: WorkflowEdge[]; dryRun: boolean }): NodeCacheState | null => {
+    if (last && last.nodes === state.nodes && last.edges === state.edges && last.dryRun === state.dryRun) {
+      return last.cacheState;
+    }
+    const graph = getSharedRunGraph(state.nodes, state.edges);
+    const node = graph.nodes.find((n) => n.id === id);
+    // Only nodes that ran have a hash to compare
+    if (!node?.data.inputHash) {
+      last = null;
+      return null;
+    }
+
+    const inputs = getConnectedInputs(graph.nodes, graph.edges, id);
+    const cacheState =
+      last && last.data === node.data && last.dryRun === state.dryRun && sameInputs(last.inputs, inputs)
+        ? last.cacheState
+        : getNodeCacheState(node, inputs, state.dryRun);
+    last = { nodes: state.nodes, edges: state.edges, data: node.data, inputs, dryRun: state.dryRun, cacheState };
+    return cacheState;
+  };
+}
 
 interface BaseNodeProps {
   id: string;
@@ -40,15 +98,23 @@ export function BaseNode({
   minWidth = 180,
   minHeight = 100,
 }: BaseNodeProps) {
-  const currentNodeId = useWorkflowStore((state) => state.currentNodeId);
+  const currentNodeIds = useWorkflowStore((state) => state.currentNodeIds);
   const groups = useWorkflowStore((state) => state.groups);
   const nodes = useWorkflowStore((state) => state.nodes);
-  const isCurrentlyExecuting = currentNodeId === id;
+  const isCurrentlyExecuting = currentNodeIds.includes(id);
+  // Whether the next run would reuse this node's output or regenerate it
+  const selectCacheState = useMemo(() => createCacheStateSelector(id), [id]);
+  const cacheState = useWorkflowStore(selectCacheState);
+  const isSkipped = useWorkflowStore((state) => !!state.runSummary?.skippedNodeIds.includes(id));
+  const isBranchSkipped = useWorkflowStore((state) => state.branchSkippedNodeIds.includes(id));
+  const isCancelled = useWorkflowStore((state) => state.nodes.find((n) => n.id === id)?.data.status === "cancelled");
   const { getNodes, setNodes } = useReactFlow();
 
   // Check if node is in a locked group
   const node = nodes.find((n) => n.id === id);
   const isInLockedGroup = node?.groupId && groups[node.groupId]?.locked;
+  // Provider calls made by the latest execution - only worth showing once something was retried
+  const attempts = node?.data.attempts as NodeAttempts | null | undefined;
 
   // Inline editing state
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -221,6 +287,64 @@ export function BaseNode({
             )}
           </div>
 
+          {/* Skipped Badge for nodes downstream of a failure in the last run */}
+          {isSkipped && !isCurrentlyExecuting && (
+            <span
+              className="ml-2 shrink-0 text-[9px] font-medium uppercase tracking-wide text-neutral-500"
+              title="Not run because a node it depends on failed"
+            >
+              skipped
+            </span>
+          )}
+
+          {/* Skipped Badge for nodes on a branch a router didn't take */}
+          {isBranchSkipped && !isSkipped && !isCurrentlyExecuting && (
+            <span
+              className="ml-2 shrink-0 text-[9px] font-medium uppercase tracking-wide text-neutral-500"
+              title="Not run because a router didn't take its branch"
+            >
+              skipped
+            </span>
+          )}
+
+          {/* Cancelled Badge for nodes stopped mid-call */}
+          {isCancelled && !isCurrentlyExecuting && (
+            <span
+              className="ml-2 shrink-0 text-[9px] font-medium uppercase tracking-wide text-neutral-500"
+              title="Stopped before the provider answered - the previous output is kept"
+            >
+              cancelled
+            </span>
+          )}
+
+          {/* Attempts Badge for retried provider calls */}
+          {attempts && attempts.attempt > 1 && (
+            <span
+              className={`ml-2 shrink-0 text-[9px] font-medium uppercase tracking-wide ${
+                isCurrentlyExecuting ? "text-amber-400" : "text-neutral-500"
+              }`}
+              title={attempts.lastError ? `Previous attempt failed: ${attempts.lastError}` : undefined}
+            >
+              {isCurrentlyExecuting ? `attempt ${attempts.attempt}/${attempts.maxAttempts}` : `${attempts.attempt} attempts`}
+            </span>
+          )}
+
+          {/* Cache Badge for nodes with an output */}
+          {cacheState && !isCurrentlyExecuting && (
+            <span
+              className={`ml-2 shrink-0 text-[9px] font-medium uppercase tracking-wide ${
+                cacheState === "cached" ? "text-neutral-500" : "text-amber-400"
+              }`}
+              title={
+                cacheState === "cached"
+                  ? "Inputs unchanged since this output was made - a run will reuse it. Use Force re-run to regenerate."
+                  : "Inputs changed since this output was made - the next run will regenerate it"
+              }
+            >
+              {cacheState}
+            </span>
+          )}
+
           {/* Lock Badge for nodes in locked groups */}
           {isInLockedGroup && (
             <div className="ml-2 shrink-0 flex items-center" title="This node is in a locked group and will be skipped during execution">
@@ -0,0 +1,162 @@
+"use client";
+
+import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { getConnectedInputs } from "@/engine/workflowEngine";
+import { CombineGridNodeData } from "@/types";
+import { getListItems } from "@/utils/listExpansion";
+import { MAX_GRID_SIZE, getGridSize } from "@/utils/gridCombiner";
+
+type CombineGridNodeType = Node<CombineGridNodeData, "combineGrid">;
+
+interface NumberFieldProps {
+  label: string;
+  value: number | null;
+  placeholder?: string;
+  min: number;
+  onChange: (value: number | null) => void;
+}
+
+function NumberField({ label, value, placeholder, min, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex items-center gap-1 min-w-0 flex-1">
+      <span className="text-[9px] text-neutral-500 shrink-0">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={MAX_GRID_SIZE}
+        value={value ?? ""}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value === "" ? null : Math.max(min, Math.round(Number(e.target.value))))}
+        className="nodrag w-full min-w-0 text-[10px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+      />
+    </label>
+  );
+}
+
+export function CombineGridNode({ id, data, selected }: NodeProps<CombineGridNodeType>) {
+  const nodeData = data;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const regenerateNode = useWorkflowStore((state) => state.regenerateNode);
+  const isRunning = useWorkflowStore((state) => state.isRunning);
+  // Counted from the connections, so the grid updates before the next run
+  const imageCount = useWorkflowStore((state) => getConnectedInputs(state.nodes, state.edges, id).images.length);
+  const captionCount = useWorkflowStore(
+    (state) => getListItems({ outputText: getConnectedInputs(state.nodes, state.edges, id).text, outputSchema: null }).length
+  );
+
+  let gridLabel: string;
+  let gridError: string | null = null;
+  try {
+    const { rows, cols } = getGridSize(imageCount, nodeData);
+    gridLabel = `${imageCount} image${imageCount === 1 ? "" : "s"} in ${rows}×${cols}`;
+  } catch (error) {
+    gridLabel = `${imageCount} images`;
+    gridError = error instanceof Error ? error.message : "Grid too small";
+  }
+
+  return (
+    <BaseNode
+      id={id}
+      title="Combine Grid"
+      customTitle={nodeData.customTitle}
+      comment={nodeData.comment}
+      onCustomTitleChange={(title) => updateNodeData(id, { customTitle: title || undefined })}
+      onCommentChange={(comment) => updateNodeData(id, { comment: comment || undefined })}
+      onRun={() => regenerateNode(id)}
+      selected={selected}
+      isExecuting={isRunning}
+      hasError={nodeData.status === "error"}
+    >
+      {/* Any number of images - they fill the grid in connection order */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="image"
+        style={{ top: "35%" }}
+        data-handletype="image"
+      />
+      {/* Captions, one per line */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="text"
+        style={{ top: "65%" }}
+        data-handletype="text"
+      />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="image"
+        data-handletype="image"
+      />
+
+      <div className="flex-1 flex flex-col min-h-0 gap-2">
+        <div className="relative flex-1 min-h-[100px] flex items-center justify-center">
+          {nodeData.outputImage ? (
+            <img
+              src={nodeData.outputImage}
+              alt="Combined grid"
+              className="max-w-full max-h-full object-contain rounded"
+            />
+          ) : (
+            <div className="w-full h-full border border-dashed border-neutral-600 rounded flex items-center justify-center">
+              <span className="text-[10px] text-neutral-500">
+                {imageCount > 0 ? "Run to combine" : "Connect images"}
+              </span>
+            </div>
+          )}
+          {nodeData.status === "loading" && (
+            <div className="absolute inset-0 bg-neutral-900/60 rounded flex items-center justify-center">
+              <svg className="w-4 h-4 animate-spin text-white" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="3" />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+            </div>
+          )}
+        </div>
+
+        {/* Grid */}
+        <div className="flex items-center gap-1.5 shrink-0">
+          <span className="text-[9px] text-neutral-500 shrink-0">Grid</span>
+          <NumberField label="Rows" value={nodeData.gridRows} placeholder="auto" min={0} onChange={(value) => updateNodeData(id, { gridRows: value || null })} />
+          <NumberField label="Cols" value={nodeData.gridCols} placeholder="auto" min={0} onChange={(value) => updateNodeData(id, { gridCols: value || null })} />
+        </div>
+
+        {/* Cells */}
+        <div className="flex items-center gap-1.5 shrink-0">
+          <span className="text-[9px] text-neutral-500 shrink-0">Cell</span>
+          <NumberField label="W" value={nodeData.cellWidth} min={1} onChange={(value) => updateNodeData(id, { cellWidth: value ?? 1 })} />
+          <NumberField label="Gap" value={nodeData.gutter} min={0} onChange={(value) => updateNodeData(id, { gutter: value ?? 0 })} />
+          <input
+            type="color"
+            value={nodeData.backgroundColor}
+            onChange={(e) => updateNodeData(id, { backgroundColor: e.target.value })}
+            className="nodrag w-6 h-5 shrink-0 rounded border border-neutral-700 bg-neutral-900/50"
+            title="Background color"
+          />
+        </div>
+
+        <div className="text-[10px] text-neutral-500 shrink-0">
+          {gridLabel}
+          {captionCount > 0 && `, ${captionCount} caption${captionCount === 1 ? "" : "s"}`}
+        </div>
+        {gridError && (
+          <div className="text-[10px] text-amber-400 shrink-0 truncate" title={gridError}>
+            {gridError}
+          </div>
+        )}
+        {nodeData.status === "error" && nodeData.error && (
+          <div className="text-[10px] text-red-400 shrink-0 truncate" title={nodeData.error}>
+            {nodeData.error}
+          </div>
+        )}
+      </div>
+    </BaseNode>
+  );
+}
@@ -4,46 +4,69 @@ import { useCallback, useRef } from "react";
 import { Handle, Position, NodeProps, Node } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
 import { useWorkflowStore } from "@/store/workflowStore";
-import { ImageInputNodeData } from "@/types";
+import { ImageInputNodeData, SweepImage } from "@/types";
 
 type ImageInputNodeType = Node<ImageInputNodeData, "imageInput">;
 
+interface LoadedImage extends SweepImage {
+  dimensions: { width: number; height: number };
+}
+
+function loadImageFile(file: File): Promise<LoadedImage | null> {
+  if (!file.type.match(/^image\/(png|jpeg|webp)$/)) {
+    alert(`Unsupported format${file.name ? ` (${file.name})` : ""}. Use PNG, JPG, or WebP.`);
+    return Promise.resolve(null);
+  }
+
+  if (file.size > 10 * 1024 * 1024) {
+    alert(`Image too large${file.name ? ` (${file.name})` : ""}. Maximum size is 10MB.`);
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const base64 = event.target?.result as string;
+      const img = new Image();
+      img.onload = () => {
+        resolve({ image: base64, filename: file.name, dimensions: { width: img.width, height: img.height } });
+      };
+      img.onerror = () => resolve(null);
+      img.src = base64;
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
 export function ImageInputNode({ id, data, selected }: NodeProps<ImageInputNodeType>) {
   const nodeData = data;
   const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      e.target.value = "";
+      if (files.length === 0) return;
 
-      if (!file.type.match(/^image\/(png|jpeg|webp)$/)) {
-        alert("Unsupported format. Use PNG, JPG, or WebP.");
-        return;
-      }
+      // List mode appends every file; otherwise the first file replaces the image
+      const loaded = (await Promise.all((nodeData.sweep ? files : files.slice(0, 1)).map(loadImageFile)))
+        .filter((image): image is LoadedImage => image !== null);
+      if (loaded.length === 0) return;
 
-      if (file.size > 10 * 1024 * 1024) {
-        alert("Image too large. Maximum size is 10MB.");
+      const { image, filename, dimensions } = loaded[0];
+      if (nodeData.sweep) {
+        const images = [...nodeData.sweep.images, ...loaded.map((item) => ({ image: item.image, filename: item.filename }))];
+        updateNodeData(id, {
+          sweep: { images },
+          ...(nodeData.sweep.images.length === 0 && { image, filename, dimensions }),
+        });
         return;
       }
 
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const base64 = event.target?.result as string;
-        const img = new Image();
-        img.onload = () => {
-          updateNodeData(id, {
-            image: base64,
-            filename: file.name,
-            dimensions: { width: img.width, height: img.height },
-          });
-        };
-        img.src = base64;
-      };
-      reader.readAsDataURL(file);
+      updateNodeData(id, { image, filename, dimensions });
     },
-    [id, updateNodeData]
+    [id, nodeData.sweep, updateNodeData]
   );
 
   const handleDrop = useCallback(
@@ -51,17 +74,17 @@ export function ImageInputNode({ id, data, selected }: NodeProps<ImageInputNodeT
       e.preventDefault();
       e.stopPropagation();
 
-      const file = e.dataTransfer.files?.[0];
-      if (!file) return;
+      const files = Array.from(e.dataTransfer.files || []);
+      if (files.length === 0) return;
 
       const dt = new DataTransfer();
-      dt.items.add(file);
+      (nodeData.sweep ? files : files.slice(0, 1)).forEach((file) => dt.items.add(file));
       if (fileInputRef.current) {
         fileInputRef.current.files = dt.files;
         fileInputRef.current.dispatchEvent(new Event("change", { bubbles: true }));
       }
     },
-    []
+    [nodeData.sweep]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -77,6 +100,34 @@ export function ImageInputNode({ id, data, selected }: NodeProps<ImageInputNodeT
     });
   }, [id, updateNodeData]);
 
+  // The node's own image always mirrors the first list image
+  const handleRemoveSweepImage = useCallback(
+    (index: number) => {
+      if (!nodeData.sweep) return;
+      const images = nodeData.sweep.images.filter((_, i) => i !== index);
+      updateNodeData(id, {
+        sweep: { images },
+        ...(index === 0 && {
+          image: images[0]?.image ?? null,
+          filename: images[0]?.filename ?? null,
+          dimensions: null,
+        }),
+      });
+    },
+    [id, nodeData.sweep, updateNodeData]
+  );
+
+  const handleSweepToggle = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(id, {
+        sweep: e.target.checked
+          ? { images: nodeData.image ? [{ image: nodeData.image, filename: nodeData.filename || "image" }] : [] }
+          : undefined,
+      });
+    },
+    [id, nodeData.image, nodeData.filename, updateNodeData]
+  );
+
   return (
     <BaseNode
       id={id}
@@ -100,11 +151,46 @@ export function ImageInputNode({ id, data, selected }: NodeProps<ImageInputNodeT
         ref={fileInputRef}
         type="file"
         accept="image/png,image/jpeg,image/webp"
+        multiple={!!nodeData.sweep}
         onChange={handleFileChange}
         className="hidden"
       />
 
-      {nodeData.image ? (
+      {nodeData.sweep ? (
+        <div
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          className="nowheel flex-1 min-h-[112px] overflow-y-auto grid grid-cols-3 gap-1 content-start"
+        >
+          {nodeData.sweep.images.map((item, index) => (
+            <div key={index} className="relative group aspect-square">
+              <img
+                src={item.image}
+                alt={item.filename}
+                title={item.filename}
+                className="w-full h-full object-cover rounded"
+              />
+              <button
+                onClick={() => handleRemoveSweepImage(index)}
+                className="absolute top-0.5 right-0.5 w-4 h-4 bg-black/60 text-white rounded opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+              >
+                <svg className="w-2.5 h-2.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            title="Add images"
+            className="aspect-square border border-dashed border-neutral-600 rounded flex items-center justify-center cursor-pointer hover:border-neutral-500 hover:bg-neutral-700/50 transition-colors"
+          >
+            <svg className="w-4 h-4 text-neutral-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+            </svg>
+          </div>
+        </div>
+      ) : nodeData.image ? (
         <div className="relative group flex-1 flex flex-col min-h-0">
           <img
             src={nodeData.image}
@@ -146,6 +232,24 @@ export function ImageInputNode({ id, data, selected }: NodeProps<ImageInputNodeT
         </div>
       )}
 
+      {/* List mode - each image becomes a separate run */}
+      <div className="mt-1.5 flex items-center justify-between shrink-0">
+        <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!nodeData.sweep}
+            onChange={handleSweepToggle}
+            className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+          />
+          <span>List</span>
+        </label>
+        {nodeData.sweep && (
+          <span className={`text-[10px] ${nodeData.sweep.images.length === 0 ? "text-amber-400" : "text-neutral-500"}`}>
+            {nodeData.sweep.images.length} {nodeData.sweep.images.length === 1 ? "image" : "images"}
+          </span>
+        )}
+      </div>
+
       <Handle
         type="source"
         position={Position.Right}
@@ -0,0 +1,353 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { getConnectedInputs } from "@/engine/workflowEngine";
+import { ALL_ASPECT_RATIOS } from "@/providers/image/catalog";
+import { AspectRatio, CropRect, ImageRotation, ImageTransformNodeData } from "@/types";
+import { DEFAULT_IMAGE_TRANSFORM, MAX_TRANSFORM_SIZE, getCropPixels, getTransformSizes } from "@/utils/imageTransform";
+
+type ImageTransformNodeType = Node<ImageTransformNodeData, "imageTransform">;
+
+type Size = { width: number; height: number };
+
+// Crop boxes smaller than this, as a fraction of the image, are taken for stray clicks
+const MIN_CROP_FRACTION = 0.01;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Largest box with the image's aspect ratio that fits the container
+const fitSize = (image: Size, container: Size): Size => {
+  const scale = Math.min(container.width / image.width, container.height / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number | null;
+  placeholder?: string;
+  disabled?: boolean;
+  onChange: (value: number | null) => void;
+}
+
+function NumberField({ label, value, placeholder, disabled, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex items-center gap-1 min-w-0 flex-1">
+      <span className="text-[9px] text-neutral-500 shrink-0">{label}</span>
+      <input
+        type="number"
+        min={0}
+        max={MAX_TRANSFORM_SIZE}
+        value={value ?? ""}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === "" ? null : Math.max(0, Math.round(Number(e.target.value))))}
+        className="nodrag w-full min-w-0 text-[10px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 disabled:opacity-50"
+      />
+    </label>
+  );
+}
+
+export function ImageTransformNode({ id, data, selected }: NodeProps<ImageTransformNodeType>) {
+  const nodeData = data;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const regenerateNode = useWorkflowStore((state) => state.regenerateNode);
+  const isRunning = useWorkflowStore((state) => state.isRunning);
+  // The connected image may be newer than the one from the last run
+  const connectedImage = useWorkflowStore(
+    (state) => getConnectedInputs(state.nodes, state.edges, id).images[0] ?? null
+  );
+  const sourceImage = connectedImage ?? nodeData.sourceImage;
+
+  const [showResult, setShowResult] = useState(false);
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  const [containerSize, setContainerSize] = useState<Size | null>(null);
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: "draw" | "move"; start: { x: number; y: number }; crop: CropRect | null } | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const previewImage = showResult && nodeData.outputImage ? nodeData.outputImage : sourceImage;
+  const isCropping = previewImage === sourceImage;
+  const crop = draftCrop ?? nodeData.crop;
+  const displaySize = imageSize && containerSize ? fitSize(imageSize, containerSize) : null;
+
+  // Pointer position as a fraction of the displayed image
+  const getPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  // Drag inside the crop box to move it, anywhere else to draw a new one
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isCropping) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    const inside = !!crop &&
+      point.x >= crop.x && point.x <= crop.x + crop.width &&
+      point.y >= crop.y && point.y <= crop.y + crop.height;
+    dragRef.current = { mode: inside ? "move" : "draw", start: point, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = getPoint(e);
+
+    if (drag.mode === "move" && drag.crop) {
+      const { width, height } = drag.crop;
+      setDraftCrop({
+        x: Math.min(Math.max(drag.crop.x + point.x - drag.start.x, 0), 1 - width),
+        y: Math.min(Math.max(drag.crop.y + point.y - drag.start.y, 0), 1 - height),
+        width,
+        height,
+      });
+    } else {
+      setDraftCrop({
+        x: Math.min(drag.start.x, point.x),
+        y: Math.min(drag.start.y, point.y),
+        width: Math.abs(point.x - drag.start.x),
+        height: Math.abs(point.y - drag.start.y),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draftCrop && draftCrop.width >= MIN_CROP_FRACTION && draftCrop.height >= MIN_CROP_FRACTION) {
+      updateNodeData(id, { crop: draftCrop });
+    }
+    setDraftCrop(null);
+  };
+
+  // Numeric crop fields are in pixels of the current source image
+  const cropPixels = imageSize ? getCropPixels(nodeData.crop, imageSize.width, imageSize.height) : null;
+  const handleCropFieldChange = useCallback(
+    (field: keyof CropRect, value: number | null) => {
+      if (!imageSize || !cropPixels || value === null) return;
+      const pixels = { ...cropPixels, [field]: value };
+      const x = Math.min(pixels.x, imageSize.width - 1);
+      const y = Math.min(pixels.y, imageSize.height - 1);
+      updateNodeData(id, {
+        crop: {
+          x: x / imageSize.width,
+          y: y / imageSize.height,
+          width: Math.min(Math.max(pixels.width, 1), imageSize.width - x) / imageSize.width,
+          height: Math.min(Math.max(pixels.height, 1), imageSize.height - y) / imageSize.height,
+        },
+      });
+    },
+    [id, imageSize, cropPixels, updateNodeData]
+  );
+
+  const handleRotate = useCallback(
+    (degrees: number) => {
+      updateNodeData(id, { rotation: (((nodeData.rotation + degrees) % 360) + 360) % 360 as ImageRotation });
+    },
+    [id, nodeData.rotation, updateNodeData]
+  );
+
+  const handleReset = useCallback(() => {
+    updateNodeData(id, { ...DEFAULT_IMAGE_TRANSFORM });
+  }, [id, updateNodeData]);
+
+  const outputSize = imageSize ? getTransformSizes(imageSize.width, imageSize.height, nodeData).output : null;
+  const toggleClass = (active: boolean) =>
+    `nodrag flex-1 py-0.5 text-[10px] rounded border transition-colors ${
+      active
+        ? "border-neutral-500 bg-neutral-600 text-neutral-100"
+        : "border-neutral-700 bg-neutral-900/50 text-neutral-400 hover:text-neutral-200"
+    }`;
+
+  return (
+    <BaseNode
+      id={id}
+      title="Transform"
+      customTitle={nodeData.customTitle}
+      comment={nodeData.comment}
+      onCustomTitleChange={(title) => updateNodeData(id, { customTitle: title || undefined })}
+      onCommentChange={(comment) => updateNodeData(id, { comment: comment || undefined })}
+      onRun={() => regenerateNode(id)}
+      selected={selected}
+      isExecuting={isRunning}
+      hasError={nodeData.status === "error"}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="image"
+        data-handletype="image"
+      />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="image"
+        data-handletype="image"
+      />
+
+      <div className="flex-1 flex flex-col min-h-0 gap-2">
+        {/* Preview - drag on the source image to set the crop */}
+        <div ref={containerRef} className="relative flex-1 min-h-[100px] flex items-center justify-center">
+          {previewImage ? (
+            <div
+              className={`nodrag relative overflow-hidden rounded ${isCropping ? "cursor-crosshair" : ""}`}
+              style={displaySize ? { width: displaySize.width, height: displaySize.height } : { visibility: "hidden" }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img
+                src={previewImage}
+                alt={isCropping ? "Transform source" : "Transform result"}
+                draggable={false}
+                onLoad={(e) => {
+                  if (!isCropping) return;
+                  setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
+                }}
+                className="w-full h-full select-none"
+              />
+              {isCropping && crop && (
+                <div
+                  className="absolute border border-white pointer-events-none"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                    boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.55)",
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="w-full h-full border border-dashed border-neutral-600 rounded flex items-center justify-center">
+              <span className="text-[10px] text-neutral-500">Connect an image</span>
+            </div>
+          )}
+          {nodeData.status === "loading" && (
+            <div className="absolute inset-0 bg-neutral-900/60 rounded flex items-center justify-center">
+              <svg className="w-4 h-4 animate-spin text-white" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="3" />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+            </div>
+          )}
+        </div>
+
+        {nodeData.outputImage && (
+          <div className="flex gap-1 shrink-0">
+            <button onClick={() => setShowResult(false)} className={toggleClass(!showResult)}>Source</button>
+            <button onClick={() => setShowResult(true)} className={toggleClass(showResult)}>Result</button>
+          </div>
+        )}
+
+        {/* Crop */}
+        <div className="flex flex-col gap-1 shrink-0">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-neutral-500">Crop</span>
+            {nodeData.crop && (
+              <button
+                onClick={() => updateNodeData(id, { crop: null })}
+                className="nodrag text-[9px] text-neutral-500 hover:text-neutral-300"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          <div className="flex gap-1.5">
+            <NumberField label="X" value={nodeData.crop ? cropPixels?.x ?? null : null} placeholder="0" disabled={!imageSize} onChange={(value) => handleCropFieldChange("x", value)} />
+            <NumberField label="Y" value={nodeData.crop ? cropPixels?.y ?? null : null} placeholder="0" disabled={!imageSize} onChange={(value) => handleCropFieldChange("y", value)} />
+            <NumberField label="W" value={nodeData.crop ? cropPixels?.width ?? null : null} placeholder={imageSize ? String(imageSize.width) : ""} disabled={!imageSize} onChange={(value) => handleCropFieldChange("width", value)} />
+            <NumberField label="H" value={nodeData.crop ? cropPixels?.height ?? null : null} placeholder={imageSize ? String(imageSize.height) : ""} disabled={!imageSize} onChange={(value) => handleCropFieldChange("height", value)} />
+          </div>
+        </div>
+
+        {/* Rotate and flip */}
+        <div className="flex gap-1 shrink-0">
+          <button onClick={() => handleRotate(-90)} className={toggleClass(false)} title="Rotate counterclockwise">
+            ↺ 90°
+          </button>
+          <button onClick={() => handleRotate(90)} className={toggleClass(false)} title="Rotate clockwise">
+            ↻ 90°
+          </button>
+          <button
+            onClick={() => updateNodeData(id, { flipHorizontal: !nodeData.flipHorizontal })}
+            className={toggleClass(nodeData.flipHorizontal)}
+            title="Flip horizontally"
+          >
+            Flip H
+          </button>
+          <button
+            onClick={() => updateNodeData(id, { flipVertical: !nodeData.flipVertical })}
+            className={toggleClass(nodeData.flipVertical)}
+            title="Flip vertically"
+          >
+            Flip V
+          </button>
+        </div>
+
+        {/* Pad */}
+        <div className="flex items-center gap-1.5 shrink-0">
+          <span className="text-[9px] text-neutral-500 shrink-0">Pad to</span>
+          <select
+            value={nodeData.padAspectRatio ?? ""}
+            onChange={(e) => updateNodeData(id, { padAspectRatio: (e.target.value || null) as AspectRatio | null })}
+            className="nodrag flex-1 min-w-0 text-[10px] py-0.5 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+          >
+            <option value="">No padding</option>
+            {ALL_ASPECT_RATIOS.map((ratio) => (
+              <option key={ratio} value={ratio}>
+                {ratio}
+              </option>
+            ))}
+          </select>
+          <input
+            type="color"
+            value={nodeData.padColor}
+            onChange={(e) => updateNodeData(id, { padColor: e.target.value })}
+            disabled={!nodeData.padAspectRatio}
+            className="nodrag w-6 h-5 shrink-0 rounded border border-neutral-700 bg-neutral-900/50 disabled:opacity-50"
+            title="Padding color"
+          />
+        </div>
+
+        {/* Resize */}
+        <div className="flex items-center gap-1.5 shrink-0">
+          <span className="text-[9px] text-neutral-500 shrink-0">Resize</span>
+          <NumberField label="W" value={nodeData.resizeWidth} placeholder="auto" onChange={(value) => updateNodeData(id, { resizeWidth: value || null })} />
+          <NumberField label="H" value={nodeData.resizeHeight} placeholder="auto" onChange={(value) => updateNodeData(id, { resizeHeight: value || null })} />
+        </div>
+
+        <div className="flex items-center justify-between shrink-0">
+          <span className="text-[10px] text-neutral-500">
+            {outputSize ? `Output ${outputSize.width}×${outputSize.height}` : "Output size unknown"}
+          </span>
+          <button onClick={handleReset} className="nodrag text-[9px] text-neutral-500 hover:text-neutral-300">
+            Reset all
+          </button>
+        </div>
+        {nodeData.status === "error" && nodeData.error && (
+          <div className="text-[10px] text-red-400 shrink-0 truncate" title={nodeData.error}>
+            {nodeData.error}
+          </div>
+        )}
+      </div>
+    </BaseNode>
+  );
+}
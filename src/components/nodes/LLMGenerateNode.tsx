@@ -1,27 +1,19 @@
 "use client";
 
-import { useCallback } from "react";
-import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { useCallback, useEffect, useMemo } from "react";
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
+import { LLMModelSelect } from "./LLMModelSelect";
+import { NodeRetrySettings } from "./NodeRetrySettings";
 import { useWorkflowStore } from "@/store/workflowStore";
-import { LLMGenerateNodeData, LLMProvider, LLMModelType } from "@/types";
-
-const PROVIDERS: { value: LLMProvider; label: string }[] = [
-  { value: "google", label: "Google" },
-  { value: "openai", label: "OpenAI" },
-];
-
-const MODELS: Record<LLMProvider, { value: LLMModelType; label: string }[]> = {
-  google: [
-    { value: "gemini-3-flash-preview", label: "Gemini 3 Flash" },
-    { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
-    { value: "gemini-3-pro-preview", label: "Gemini 3.0 Pro" },
-  ],
-  openai: [
-    { value: "gpt-4.1-mini", label: "GPT-4.1 Mini" },
-    { value: "gpt-4.1-nano", label: "GPT-4.1 Nano" },
-  ],
-};
+import { getListItems } from "@/utils/listExpansion";
+import { LLMGenerateNodeData } from "@/types";
+import {
+  DEFAULT_OUTPUT_SCHEMA,
+  getFieldHandleId,
+  getOutputFields,
+  parseOutputSchema,
+} from "@/utils/structuredOutput";
 
 type LLMGenerateNodeType = Node<LLMGenerateNodeData, "llmGenerate">;
 
@@ -29,21 +21,23 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
   const nodeData = data;
   const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
 
-  const handleProviderChange = useCallback(
-    (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const newProvider = e.target.value as LLMProvider;
-      const firstModelForProvider = MODELS[newProvider][0].value;
-      updateNodeData(id, {
-        provider: newProvider,
-        model: firstModelForProvider
-      });
+  const handleModelSettingsChange = useCallback(
+    (settings: Partial<LLMGenerateNodeData>) => {
+      updateNodeData(id, settings);
     },
     [id, updateNodeData]
   );
 
-  const handleModelChange = useCallback(
-    (e: React.ChangeEvent<HTMLSelectElement>) => {
-      updateNodeData(id, { model: e.target.value as LLMModelType });
+  const handleStructuredOutputToggle = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(id, { outputSchema: e.target.checked ? DEFAULT_OUTPUT_SCHEMA : null });
+    },
+    [id, updateNodeData]
+  );
+
+  const handleSchemaChange = useCallback(
+    (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+      updateNodeData(id, { outputSchema: e.target.value });
     },
     [id, updateNodeData]
   );
@@ -66,11 +60,29 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
     updateNodeData(id, { outputText: null, status: "idle", error: null });
   }, [id, updateNodeData]);
 
-  const provider = nodeData.provider || "google";
-  const availableModels = MODELS[provider] || MODELS.google;
-  const model = availableModels.some(m => m.value === nodeData.model)
-    ? nodeData.model
-    : availableModels[0].value;
+  // With a schema, each top-level field (or array item) gets its own text output
+  const updateNodeInternals = useUpdateNodeInternals();
+  const parsedSchema = useMemo(
+    () => (nodeData.outputSchema ? parseOutputSchema(nodeData.outputSchema) : null),
+    [nodeData.outputSchema]
+  );
+  const schema = parsedSchema && "schema" in parsedSchema ? parsedSchema.schema : null;
+  const fields = useMemo(
+    () => (schema ? getOutputFields(schema, nodeData.outputText) : []),
+    [schema, nodeData.outputText]
+  );
+  const fieldKey = fields.join("\n");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, fieldKey, updateNodeInternals]);
+
+  // Lists can be expanded into linked prompt + generate pairs
+  const expandList = useWorkflowStore((state) => state.expandList);
+  const listItemCount = useMemo(
+    () => getListItems({ outputText: nodeData.outputText, outputSchema: nodeData.outputSchema }).length,
+    [nodeData.outputText, nodeData.outputSchema]
+  );
+  const linkedCount = nodeData.childNodeIds?.length ?? 0;
 
   return (
     <BaseNode
@@ -104,13 +116,42 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
         type="source"
         position={Position.Right}
         id="text"
+        style={{ top: `${100 / (fields.length + 2)}%` }}
         data-handletype="text"
       />
+      {/* Reference output to the prompts of an expanded list */}
+      {linkedCount > 0 && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="reference"
+          data-handletype="reference"
+          className="!bg-gray-500"
+        />
+      )}
+      {fields.map((field, index) => (
+        <Handle
+          key={field}
+          type="source"
+          position={Position.Right}
+          id={getFieldHandleId(field)}
+          style={{ top: `${((index + 2) / (fields.length + 2)) * 100}%` }}
+          data-handletype="text"
+        >
+          <span className="absolute left-full top-1/2 -translate-y-1/2 ml-1.5 text-[10px] text-neutral-400 whitespace-nowrap pointer-events-none">
+            {schema?.type === "array" ? `#${index + 1}` : field}
+          </span>
+        </Handle>
+      ))}
 
       <div className="flex-1 flex flex-col min-h-0 gap-2">
         {/* Output preview area */}
         <div className="nodrag nopan nowheel relative w-full flex-1 min-h-[80px] border border-dashed border-neutral-600 rounded p-2 overflow-auto">
-          {nodeData.status === "loading" ? (
+          {nodeData.status === "loading" && nodeData.streamingText ? (
+            <p className="text-[10px] text-neutral-300 whitespace-pre-wrap break-words pr-6">
+              {nodeData.streamingText}
+            </p>
+          ) : nodeData.status === "loading" ? (
             <div className="h-full flex items-center justify-center">
               <svg
                 className="w-4 h-4 animate-spin text-neutral-400"
@@ -172,31 +213,57 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
           )}
         </div>
 
-        {/* Provider selector */}
-        <select
-          value={provider}
-          onChange={handleProviderChange}
-          className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
-        >
-          {PROVIDERS.map((p) => (
-            <option key={p.value} value={p.value}>
-              {p.label}
-            </option>
-          ))}
-        </select>
-
-        {/* Model selector */}
-        <select
-          value={model}
-          onChange={handleModelChange}
-          className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
-        >
-          {availableModels.map((m) => (
-            <option key={m.value} value={m.value}>
-              {m.label}
-            </option>
-          ))}
-        </select>
+        {/* List expansion */}
+        {(listItemCount > 1 || linkedCount > 0) && (
+          <div className="flex items-center justify-between gap-2 text-[10px] text-neutral-400 shrink-0">
+            <span>
+              {linkedCount > 0
+                ? `${linkedCount} linked generate node${linkedCount === 1 ? "" : "s"}${listItemCount !== linkedCount ? ` · ${listItemCount} items` : ""}`
+                : `${listItemCount} items`}
+            </span>
+            {(linkedCount === 0 || listItemCount !== linkedCount) && (
+              <button
+                onClick={() => expandList(id)}
+                disabled={isRunning || listItemCount === 0}
+                className="nodrag px-2 py-0.5 text-neutral-300 bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+                title="One prompt + generate pair per item, refreshed with the new items on every run"
+              >
+                {linkedCount > 0 ? "Update pairs" : "Expand list"}
+              </button>
+            )}
+          </div>
+        )}
+
+        <LLMModelSelect
+          provider={nodeData.provider}
+          model={nodeData.model}
+          onChange={handleModelSettingsChange}
+        />
+
+        {/* Structured output */}
+        <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 cursor-pointer shrink-0">
+          <input
+            type="checkbox"
+            checked={!!nodeData.outputSchema}
+            onChange={handleStructuredOutputToggle}
+            className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+          />
+          <span title="Ask for JSON matching a schema; each field gets its own output">JSON output</span>
+        </label>
+        {nodeData.outputSchema && (
+          <>
+            <textarea
+              value={nodeData.outputSchema}
+              onChange={handleSchemaChange}
+              rows={5}
+              spellCheck={false}
+              className="nodrag nopan nowheel w-full p-1.5 text-[10px] font-mono leading-snug text-neutral-300 border border-neutral-700 rounded bg-neutral-900/50 resize-none focus:outline-none focus:ring-1 focus:ring-neutral-600 shrink-0"
+            />
+            {parsedSchema && "error" in parsedSchema && (
+              <span className="text-[9px] text-red-400 shrink-0">{parsedSchema.error}</span>
+            )}
+          </>
+        )}
 
         {/* Temperature slider */}
         <div className="flex flex-col gap-0.5 shrink-0">
@@ -211,6 +278,11 @@ export function LLMGenerateNode({ id, data, selected }: NodeProps<LLMGenerateNod
             className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-neutral-400"
           />
         </div>
+
+        <NodeRetrySettings
+          policy={nodeData.retryPolicy}
+          onChange={(retryPolicy) => updateNodeData(id, { retryPolicy })}
+        />
       </div>
     </BaseNode>
   );
@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { BuiltInLLMModelType, LLMModelsResponse, LLMProvider, LLMModelType } from "@/types";
+
+const PROVIDERS: { value: LLMProvider; label: string }[] = [
+  { value: "google", label: "Google" },
+  { value: "openai", label: "OpenAI" },
+  { value: "openai-compatible", label: "OpenAI-compatible" },
+];
+
+// The OpenAI-compatible server's models are fetched instead
+const MODELS: Record<Exclude<LLMProvider, "openai-compatible">, { value: BuiltInLLMModelType; label: string }[]> = {
+  google: [
+    { value: "gemini-3-flash-preview", label: "Gemini 3 Flash" },
+    { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+    { value: "gemini-3-pro-preview", label: "Gemini 3.0 Pro" },
+  ],
+  openai: [
+    { value: "gpt-4.1-mini", label: "GPT-4.1 Mini" },
+    { value: "gpt-4.1-nano", label: "GPT-4.1 Nano" },
+  ],
+};
+
+// Shared by every node so the server is asked once; failures are asked again next time
+let compatibleModelsRequest: Promise<LLMModelsResponse> | null = null;
+
+function fetchCompatibleModels(refresh = false): Promise<LLMModelsResponse> {
+  if (!compatibleModelsRequest || refresh) {
+    compatibleModelsRequest = fetch("/api/llm/models")
+      .then((response) => response.json() as Promise<LLMModelsResponse>)
+      .catch((error): LLMModelsResponse => ({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list models",
+      }))
+      .then((result) => {
+        if (!result.success) compatibleModelsRequest = null;
+        return result;
+      });
+  }
+  return compatibleModelsRequest;
+}
+
+function useCompatibleModels(enabled: boolean) {
+  const [result, setResult] = useState<LLMModelsResponse | null>(null);
+
+  useEffect(() => {
+    if (enabled) fetchCompatibleModels().then(setResult);
+  }, [enabled]);
+
+  const refresh = useCallback(() => {
+    setResult(null);
+    fetchCompatibleModels(true).then(setResult);
+  }, []);
+
+  return { isLoading: result === null, models: result?.models ?? [], error: result?.error ?? null, refresh };
+}
+
+interface LLMModelSelectProps {
+  provider: LLMProvider;
+  model: LLMModelType;
+  onChange: (settings: { provider?: LLMProvider; model: LLMModelType }) => void;
+}
+
+// Provider and model pickers shared by the nodes that call an LLM
+export function LLMModelSelect({ provider: savedProvider, model: savedModel, onChange }: LLMModelSelectProps) {
+  const provider = savedProvider || "google";
+  const isCompatible = provider === "openai-compatible";
+  const compatibleModels = useCompatibleModels(isCompatible);
+
+  const handleProviderChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const newProvider = e.target.value as LLMProvider;
+      // Left empty for the OpenAI-compatible server until its models are in
+      const firstModelForProvider = newProvider === "openai-compatible" ? "" : MODELS[newProvider][0].value;
+      onChange({
+        provider: newProvider,
+        model: firstModelForProvider
+      });
+    },
+    [onChange]
+  );
+
+  const handleModelChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      onChange({ model: e.target.value as LLMModelType });
+    },
+    [onChange]
+  );
+
+  // A saved model stays selectable while the server is down or no longer lists it
+  let availableModels: { value: LLMModelType; label: string }[];
+  if (isCompatible) {
+    const ids = savedModel && !compatibleModels.models.includes(savedModel)
+      ? [savedModel, ...compatibleModels.models]
+      : compatibleModels.models;
+    availableModels = ids.map((modelId) => ({ value: modelId, label: modelId }));
+  } else {
+    availableModels = MODELS[provider] || MODELS.google;
+  }
+  const model = isCompatible || availableModels.some(m => m.value === savedModel)
+    ? savedModel
+    : availableModels[0].value;
+
+  // Pick the server's first model once they are in
+  const firstCompatibleModel = compatibleModels.models[0];
+  useEffect(() => {
+    if (isCompatible && !savedModel && firstCompatibleModel) {
+      onChange({ model: firstCompatibleModel });
+    }
+  }, [isCompatible, savedModel, firstCompatibleModel, onChange]);
+
+  return (
+    <>
+      {/* Provider selector */}
+      <select
+        value={provider}
+        onChange={handleProviderChange}
+        className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
+      >
+        {PROVIDERS.map((p) => (
+          <option key={p.value} value={p.value}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+
+      {/* Model selector */}
+      <div className="flex gap-1 shrink-0">
+        <select
+          value={model}
+          onChange={handleModelChange}
+          className="flex-1 min-w-0 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+        >
+          {availableModels.length === 0 && (
+            <option value="">{compatibleModels.isLoading ? "Loading models..." : "No models"}</option>
+          )}
+          {availableModels.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        {isCompatible && (
+          <button
+            onClick={compatibleModels.refresh}
+            disabled={compatibleModels.isLoading}
+            className="nodrag px-1.5 border border-neutral-700 rounded bg-neutral-900/50 text-neutral-400 hover:text-neutral-200 disabled:opacity-50 transition-colors"
+            title="Fetch the server's models again"
+          >
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+          </button>
+        )}
+      </div>
+      {isCompatible && compatibleModels.error && (
+        <span className="text-[9px] text-red-400 shrink-0">{compatibleModels.error}</span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { createPortal } from "react-dom";
+import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { MaskEditorModal } from "@/components/modals/MaskEditorModal";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { MaskNodeData, MaskStroke } from "@/types";
+
+type MaskNodeType = Node<MaskNodeData, "mask">;
+
+export function MaskNode({ id, data, selected }: NodeProps<MaskNodeType>) {
+  const nodeData = data;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const getConnectedInputs = useWorkflowStore((state) => state.getConnectedInputs);
+  const incrementModalCount = useWorkflowStore((state) => state.incrementModalCount);
+  const decrementModalCount = useWorkflowStore((state) => state.decrementModalCount);
+  const [editorImage, setEditorImage] = useState<string | null>(null);
+
+  // The connected image may be newer than the one from the last run
+  const handleEdit = useCallback(() => {
+    const image = getConnectedInputs(id).images[0] ?? nodeData.sourceImage;
+    if (!image) {
+      alert("No image available. Connect an image, or run the workflow to produce one.");
+      return;
+    }
+    setEditorImage(image);
+    incrementModalCount();
+  }, [id, nodeData.sourceImage, getConnectedInputs, incrementModalCount]);
+
+  const handleCloseEditor = useCallback(() => {
+    setEditorImage(null);
+    decrementModalCount();
+  }, [decrementModalCount]);
+
+  const handleSave = useCallback(
+    (strokes: MaskStroke[], mask: string | null) => {
+      updateNodeData(id, { sourceImage: editorImage, strokes, mask });
+      handleCloseEditor();
+    },
+    [id, editorImage, updateNodeData, handleCloseEditor]
+  );
+
+  const handleClearMask = useCallback(() => {
+    updateNodeData(id, { strokes: [], mask: null });
+  }, [id, updateNodeData]);
+
+  return (
+    <BaseNode
+      id={id}
+      title="Mask"
+      customTitle={nodeData.customTitle}
+      comment={nodeData.comment}
+      onCustomTitleChange={(title) => updateNodeData(id, { customTitle: title || undefined })}
+      onCommentChange={(comment) => updateNodeData(id, { comment: comment || undefined })}
+      selected={selected}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="image"
+        data-handletype="image"
+      />
+      {/* Image passes through so the mask and the image it was painted on travel together */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="image"
+        style={{ top: "35%" }}
+        data-handletype="image"
+      />
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="mask"
+        style={{ top: "65%" }}
+        data-handletype="mask"
+      />
+
+      {nodeData.sourceImage ? (
+        <div
+          className="relative group cursor-pointer flex-1 flex flex-col min-h-0"
+          onClick={handleEdit}
+        >
+          <div className="relative flex-1 min-h-0 flex items-center justify-center">
+            <img
+              src={nodeData.sourceImage}
+              alt="Mask source"
+              className="max-w-full max-h-full object-contain rounded"
+            />
+            {/* Darkens the kept region, leaving the region to change as it is */}
+            {nodeData.mask && (
+              <img
+                src={nodeData.mask}
+                alt="Mask"
+                className="absolute max-w-full max-h-full object-contain rounded mix-blend-multiply opacity-70 pointer-events-none"
+              />
+            )}
+          </div>
+          {nodeData.mask && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleClearMask();
+              }}
+              className="absolute top-1 right-1 w-5 h-5 bg-black/60 text-white rounded text-xs opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+              title="Clear mask"
+            >
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+          <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors rounded flex items-center justify-center pointer-events-none">
+            <span className="text-[10px] font-medium text-white opacity-0 group-hover:opacity-100 transition-opacity bg-black/50 px-2 py-1 rounded">
+              {nodeData.mask ? "Edit mask" : "Paint mask"}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <div
+          onClick={handleEdit}
+          className="w-full flex-1 min-h-[112px] border border-dashed border-neutral-600 rounded flex flex-col items-center justify-center cursor-pointer hover:border-neutral-500 hover:bg-neutral-700/50 transition-colors"
+        >
+          <span className="text-[10px] text-neutral-400">
+            Connect an image to paint on
+          </span>
+        </div>
+      )}
+
+      {!nodeData.mask && nodeData.sourceImage && (
+        <div className="text-[10px] text-neutral-500 shrink-0 mt-1">
+          No mask painted - the whole image may change
+        </div>
+      )}
+
+      {/* Modal - rendered via portal to escape React Flow stacking context */}
+      {editorImage && createPortal(
+        <MaskEditorModal
+          isOpen={!!editorImage}
+          image={editorImage}
+          strokes={nodeData.strokes}
+          onSave={handleSave}
+          onClose={handleCloseEditor}
+        />,
+        document.body
+      )}
+    </BaseNode>
+  );
+}
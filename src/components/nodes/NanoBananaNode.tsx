@@ -1,21 +1,18 @@
 "use client";
 
 import { useCallback, useState } from "react";
+import { createPortal } from "react-dom";
 import { Handle, Position, NodeProps, Node } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
+import { NodeRetrySettings } from "./NodeRetrySettings";
+import { ImageChatModal } from "@/components/modals/ImageChatModal";
 import { useWorkflowStore, saveNanoBananaDefaults } from "@/store/workflowStore";
 import { NanoBananaNodeData, AspectRatio, Resolution, ModelType } from "@/types";
+import { getImageModel, getImageModelsByProvider, IMAGE_MODELS, MAX_CANDIDATE_COUNT } from "@/providers/image/catalog";
+import { formatSweepValues } from "@/utils/sweep";
 
-// All 10 aspect ratios supported by both models
-const ASPECT_RATIOS: AspectRatio[] = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
-
-// Resolutions only for Nano Banana Pro (gemini-3-pro-image-preview)
-const RESOLUTIONS: Resolution[] = ["1K", "2K", "4K"];
-
-const MODELS: { value: ModelType; label: string }[] = [
-  { value: "nano-banana", label: "Nano Banana" },
-  { value: "nano-banana-pro", label: "Nano Banana Pro" },
-];
+const MODEL_GROUPS = getImageModelsByProvider();
+const CANDIDATE_COUNTS = Array.from({ length: MAX_CANDIDATE_COUNT }, (_, index) => index + 1);
 
 type NanoBananaNodeType = Node<NanoBananaNodeData, "nanoBanana">;
 
@@ -24,6 +21,9 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
   const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
   const generationsPath = useWorkflowStore((state) => state.generationsPath);
   const [isLoadingCarouselImage, setIsLoadingCarouselImage] = useState(false);
+  const incrementModalCount = useWorkflowStore((state) => state.incrementModalCount);
+  const decrementModalCount = useWorkflowStore((state) => state.decrementModalCount);
+  const [isChatOpen, setIsChatOpen] = useState(false);
 
   const handleAspectRatioChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -61,6 +61,21 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
     [id, updateNodeData]
   );
 
+  const handleCandidateCountChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      updateNodeData(id, { candidateCount: Number(e.target.value) });
+    },
+    [id, updateNodeData]
+  );
+
+  // Candidates are the newest carousel entries, in order, until the next run replaces them
+  const handleSelectCandidate = useCallback(
+    (image: string, index: number) => {
+      updateNodeData(id, { outputImage: image, selectedHistoryIndex: index });
+    },
+    [id, updateNodeData]
+  );
+
   const handleClearImage = useCallback(() => {
     updateNodeData(id, { outputImage: null, status: "idle", error: null });
   }, [id, updateNodeData]);
@@ -72,6 +87,37 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
     regenerateNode(id);
   }, [id, regenerateNode]);
 
+  const handleChatModeToggle = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(id, { chatMode: e.target.checked });
+    },
+    [id, updateNodeData]
+  );
+
+  const handleOpenChat = useCallback(() => {
+    setIsChatOpen(true);
+    incrementModalCount();
+  }, [incrementModalCount]);
+
+  const handleCloseChat = useCallback(() => {
+    setIsChatOpen(false);
+    decrementModalCount();
+  }, [decrementModalCount]);
+
+  const handleSendChatMessage = useCallback(
+    (chatMessage: string) => {
+      regenerateNode(id, { chatMessage });
+    },
+    [id, regenerateNode]
+  );
+
+  const handleSelectChatImage = useCallback(
+    (image: string) => {
+      updateNodeData(id, { outputImage: image });
+    },
+    [id, updateNodeData]
+  );
+
   const loadImageById = useCallback(async (imageId: string) => {
     if (!generationsPath) {
       console.error("Generations path not configured");
@@ -141,8 +187,13 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
     }
   }, [id, nodeData.imageHistory, nodeData.selectedHistoryIndex, isLoadingCarouselImage, loadImageById, updateNodeData]);
 
-  const isNanoBananaPro = nodeData.model === "nano-banana-pro";
+  // Settings offered depend on the selected model's capabilities
+  const modelDefinition = getImageModel(nodeData.model) ?? IMAGE_MODELS[0];
+  const { aspectRatios, resolutions, supportsGoogleSearch, supportsChat } = modelDefinition.capabilities;
+  const chatTurns = nodeData.chatTurns ?? [];
+  const candidateImages = nodeData.candidateImages ?? [];
   const hasCarouselImages = (nodeData.imageHistory || []).length > 1;
+  const selectedSweepValues = nodeData.imageHistory?.[nodeData.selectedHistoryIndex || 0]?.sweepValues;
 
   return (
     <BaseNode
@@ -152,6 +203,7 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
       comment={nodeData.comment}
       onCustomTitleChange={(title) => updateNodeData(id, { customTitle: title || undefined })}
       onCommentChange={(comment) => updateNodeData(id, { comment: comment || undefined })}
+      onExpand={nodeData.chatMode ? handleOpenChat : undefined}
       onRun={handleRegenerate}
       selected={selected}
       isExecuting={isRunning}
@@ -174,6 +226,14 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
         style={{ top: "65%" }}
         data-handletype="text"
       />
+      {/* Mask input - limits the edit to part of the first image */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="mask"
+        style={{ top: "85%" }}
+        data-handletype="mask"
+      />
       {/* Image output */}
       <Handle
         type="source"
@@ -253,6 +313,24 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
               </div>
             </div>
 
+            {/* Candidates of the last run - the picked one is passed downstream */}
+            {candidateImages.length > 1 && (
+              <div className="flex gap-1 shrink-0">
+                {candidateImages.map((image, index) => (
+                  <button
+                    key={index}
+                    onClick={() => handleSelectCandidate(image, index)}
+                    className={`nodrag flex-1 min-w-0 aspect-square rounded overflow-hidden border transition-colors ${
+                      image === nodeData.outputImage ? "border-blue-500" : "border-neutral-700 hover:border-neutral-500"
+                    }`}
+                    title={image === nodeData.outputImage ? `Candidate ${index + 1} (output)` : `Use candidate ${index + 1}`}
+                  >
+                    <img src={image} alt={`Candidate ${index + 1}`} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Carousel controls - only show if there are multiple images */}
             {hasCarouselImages && (
               <div className="flex items-center justify-center gap-2 shrink-0">
@@ -266,7 +344,10 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
                     <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
                   </svg>
                 </button>
-                <span className="text-[10px] text-neutral-400 min-w-[32px] text-center">
+                <span
+                  className="text-[10px] text-neutral-400 min-w-[32px] text-center"
+                  title={selectedSweepValues ? formatSweepValues(selectedSweepValues) : undefined}
+                >
                   {(nodeData.selectedHistoryIndex || 0) + 1} / {(nodeData.imageHistory || []).length}
                 </span>
                 <button
@@ -322,10 +403,17 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
           onChange={handleModelChange}
           className="w-full text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 shrink-0"
         >
-          {MODELS.map((m) => (
-            <option key={m.value} value={m.value}>
-              {m.label}
-            </option>
+          {!getImageModel(nodeData.model) && (
+            <option value={nodeData.model}>{nodeData.model} (unavailable)</option>
+          )}
+          {MODEL_GROUPS.map(({ provider, models }) => (
+            <optgroup key={provider.id} label={provider.label}>
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.label}
+                </option>
+              ))}
+            </optgroup>
           ))}
         </select>
 
@@ -336,29 +424,44 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
             onChange={handleAspectRatioChange}
             className="flex-1 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
           >
-            {ASPECT_RATIOS.map((ratio) => (
+            {aspectRatios.map((ratio) => (
               <option key={ratio} value={ratio}>
                 {ratio}
               </option>
             ))}
           </select>
-          {isNanoBananaPro && (
+          {resolutions.length > 1 && (
             <select
               value={nodeData.resolution}
               onChange={handleResolutionChange}
               className="w-12 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
             >
-              {RESOLUTIONS.map((res) => (
+              {resolutions.map((res) => (
                 <option key={res} value={res}>
                   {res}
                 </option>
               ))}
             </select>
           )}
+          {/* Candidates per run - a chat thread continues from a single image */}
+          {!nodeData.chatMode && (
+            <select
+              value={nodeData.candidateCount ?? 1}
+              onChange={handleCandidateCountChange}
+              className="w-10 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+              title="Images per run"
+            >
+              {CANDIDATE_COUNTS.map((count) => (
+                <option key={count} value={count}>
+                  ×{count}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
-        {/* Google Search toggle - only for Nano Banana Pro */}
-        {isNanoBananaPro && (
+        {/* Google Search toggle - only for models that support it */}
+        {supportsGoogleSearch && (
           <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 shrink-0 cursor-pointer">
             <input
               type="checkbox"
@@ -369,7 +472,49 @@ export function NanoBananaNode({ id, data, selected }: NodeProps<NanoBananaNodeT
             <span>Google Search</span>
           </label>
         )}
+
+        {/* Chat mode - follow-up messages edit the output instead of starting over, expand to open the thread */}
+        {supportsChat && (
+          <div className="flex items-center gap-1.5 shrink-0">
+            <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!nodeData.chatMode}
+                onChange={handleChatModeToggle}
+                className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+              />
+              <span>Chat</span>
+            </label>
+            {nodeData.chatMode && chatTurns.length > 0 && (
+              <span className="ml-auto text-[10px] text-neutral-500">
+                {chatTurns.length} {chatTurns.length === 1 ? "turn" : "turns"}
+              </span>
+            )}
+          </div>
+        )}
+
+        <NodeRetrySettings
+          policy={nodeData.retryPolicy}
+          onChange={(retryPolicy) => updateNodeData(id, { retryPolicy })}
+        />
       </div>
+
+      {/* Modal - rendered via portal to escape React Flow stacking context */}
+      {isChatOpen && createPortal(
+        <ImageChatModal
+          isOpen={isChatOpen}
+          turns={chatTurns}
+          outputImage={nodeData.outputImage}
+          isGenerating={nodeData.status === "loading"}
+          isBusy={isRunning}
+          error={nodeData.status === "error" ? nodeData.error : null}
+          onSend={handleSendChatMessage}
+          onRestart={handleRegenerate}
+          onSelectImage={handleSelectChatImage}
+          onClose={handleCloseChat}
+        />,
+        document.body
+      )}
     </BaseNode>
   );
 }
@@ -0,0 +1,56 @@
+"use client";
+
+import { RetryPolicy } from "@/types";
+import { MAX_RETRY_ATTEMPTS, RETRY_TIMEOUT_CHOICES_MS, formatRetryTimeout } from "@/utils/retry";
+
+interface NodeRetrySettingsProps {
+  policy: Partial<RetryPolicy> | undefined;
+  onChange: (policy: Partial<RetryPolicy> | undefined) => void;
+}
+
+const SELECT_CLASS =
+  "flex-1 min-w-0 text-[10px] py-1 px-1.5 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300";
+
+// Per-node attempts and timeout; "Default" follows the Run menu settings
+export function NodeRetrySettings({ policy, onChange }: NodeRetrySettingsProps) {
+  const update = (key: "maxAttempts" | "timeoutMs", value: string) => {
+    const next = { ...policy };
+    if (value === "") {
+      delete next[key];
+    } else {
+      next[key] = parseInt(value, 10);
+    }
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="flex gap-1.5 shrink-0">
+      <select
+        value={policy?.maxAttempts ?? ""}
+        onChange={(e) => update("maxAttempts", e.target.value)}
+        className={SELECT_CLASS}
+        title="Tries for this node. Default uses the Run menu setting."
+      >
+        <option value="">Attempts: default</option>
+        {Array.from({ length: MAX_RETRY_ATTEMPTS }, (_, i) => i + 1).map((n) => (
+          <option key={n} value={n}>
+            {n === 1 ? "No retries" : `${n} attempts`}
+          </option>
+        ))}
+      </select>
+      <select
+        value={policy?.timeoutMs ?? ""}
+        onChange={(e) => update("timeoutMs", e.target.value)}
+        className={SELECT_CLASS}
+        title="How long one attempt may take. Default uses the Run menu setting."
+      >
+        <option value="">Timeout: default</option>
+        {RETRY_TIMEOUT_CHOICES_MS.map((ms) => (
+          <option key={ms} value={ms}>
+            {ms === 0 ? "No timeout" : `${formatRetryTimeout(ms)} timeout`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
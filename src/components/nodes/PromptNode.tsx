@@ -1,11 +1,14 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { createPortal } from "react-dom";
-import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from "@xyflow/react";
 import { BaseNode } from "./BaseNode";
 import { useWorkflowStore } from "@/store/workflowStore";
-import { PromptNodeData } from "@/types";
+import { PromptNodeData, PromptSweepSource } from "@/types";
+import { getPromptSweepItems } from "@/utils/sweep";
+import { getTemplateHandleId, getTemplateVariables, TemplateValues } from "@/utils/promptTemplate";
+import { getTemplateValues } from "@/engine/workflowEngine";
 import { PromptEditorModal } from "@/components/modals/PromptEditorModal";
 
 type PromptNodeType = Node<PromptNodeData, "prompt">;
@@ -16,6 +19,19 @@ export function PromptNode({ id, data, selected }: NodeProps<PromptNodeType>) {
   const incrementModalCount = useWorkflowStore((state) => state.incrementModalCount);
   const decrementModalCount = useWorkflowStore((state) => state.decrementModalCount);
   const [isModalOpenLocal, setIsModalOpenLocal] = useState(false);
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
+  const updateNodeInternals = useUpdateNodeInternals();
+  // Prompts created by expanding an LLM node's list are linked to it
+  const isListItem = useWorkflowStore((state) =>
+    state.edges.some((e) => e.target === id && e.targetHandle === "reference")
+  );
+
+  // Each {{variable}} in the prompt gets a text input handle
+  const variables = useMemo(() => getTemplateVariables(nodeData.prompt), [nodeData.prompt]);
+  const variableKey = variables.join("\n");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, variableKey, updateNodeInternals]);
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -24,10 +40,36 @@ export function PromptNode({ id, data, selected }: NodeProps<PromptNodeType>) {
     [id, updateNodeData]
   );
 
+  const handleSweepToggle = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(id, { sweep: e.target.checked ? { source: "lines", column: "" } : undefined });
+    },
+    [id, updateNodeData]
+  );
+
+  const handleSweepSourceChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      updateNodeData(id, { sweep: { source: e.target.value as PromptSweepSource, column: nodeData.sweep?.column ?? "" } });
+    },
+    [id, nodeData.sweep?.column, updateNodeData]
+  );
+
+  const handleSweepColumnChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateNodeData(id, { sweep: { source: "csv", column: e.target.value } });
+    },
+    [id, updateNodeData]
+  );
+
+  const sweepItemCount = useMemo(() => getPromptSweepItems(nodeData).length, [nodeData]);
+
   const handleOpenModal = useCallback(() => {
+    // Snapshot of the connected text for the modal's preview
+    const { nodes, edges } = useWorkflowStore.getState();
+    setTemplateValues(getTemplateValues(nodes, edges, id));
     setIsModalOpenLocal(true);
     incrementModalCount();
-  }, [incrementModalCount]);
+  }, [id, incrementModalCount]);
 
   const handleCloseModal = useCallback(() => {
     setIsModalOpenLocal(false);
@@ -53,13 +95,83 @@ export function PromptNode({ id, data, selected }: NodeProps<PromptNodeType>) {
         onExpand={handleOpenModal}
         selected={selected}
       >
+        {/* Reference input handle for visual links from an expanded LLM Generate node */}
+        {isListItem && (
+          <Handle
+            type="target"
+            position={Position.Left}
+            id="reference"
+            data-handletype="reference"
+            className="!bg-gray-500"
+          />
+        )}
+
+        {variables.map((variable, index) => (
+          <Handle
+            key={variable}
+            type="target"
+            position={Position.Left}
+            id={getTemplateHandleId(variable)}
+            style={{ top: `${((index + 1) / (variables.length + 1)) * 100}%` }}
+            data-handletype="text"
+          >
+            <span className="absolute right-full top-1/2 -translate-y-1/2 mr-1.5 text-[10px] text-neutral-400 whitespace-nowrap pointer-events-none">
+              {variable}
+            </span>
+          </Handle>
+        ))}
+
         <textarea
           value={nodeData.prompt}
           onChange={handleChange}
-          placeholder="Describe what to generate..."
+          placeholder={
+            !nodeData.sweep
+              ? "Describe what to generate..."
+              : nodeData.sweep.source === "csv"
+                ? "CSV with a header row..."
+                : "One prompt per line..."
+          }
           className="nodrag nopan nowheel w-full flex-1 min-h-[70px] p-2 text-xs leading-relaxed text-neutral-100 border border-neutral-700 rounded bg-neutral-900/50 resize-none focus:outline-none focus:ring-1 focus:ring-neutral-600 focus:border-neutral-600 placeholder:text-neutral-500"
         />
 
+        {/* List mode - each line or CSV row becomes a separate run */}
+        <div className="mt-1.5 flex items-center gap-1.5 shrink-0">
+          <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!nodeData.sweep}
+              onChange={handleSweepToggle}
+              className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+            />
+            <span>List</span>
+          </label>
+          {nodeData.sweep && (
+            <>
+              <select
+                value={nodeData.sweep.source}
+                onChange={handleSweepSourceChange}
+                className="nodrag text-[10px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300"
+              >
+                <option value="lines">Lines</option>
+                <option value="csv">CSV</option>
+              </select>
+              {nodeData.sweep.source === "csv" && (
+                <input
+                  type="text"
+                  value={nodeData.sweep.column}
+                  onChange={handleSweepColumnChange}
+                  placeholder="Column"
+                  title="Header of the column to use - the first column if empty"
+                  className="nodrag min-w-0 flex-1 text-[10px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300 placeholder:text-neutral-500"
+                />
+              )}
+              <span className={`ml-auto text-[10px] ${sweepItemCount === 0 ? "text-amber-400" : "text-neutral-500"}`}>
+                {sweepItemCount} {sweepItemCount === 1 ? "item" : "items"}
+              </span>
+            </>
+          )}
+        </div>
+
         <Handle
           type="source"
           position={Position.Right}
@@ -73,6 +185,7 @@ export function PromptNode({ id, data, selected }: NodeProps<PromptNodeType>) {
         <PromptEditorModal
           isOpen={isModalOpenLocal}
           initialPrompt={nodeData.prompt}
+          templateValues={templateValues}
           onSubmit={handleSubmitModal}
           onClose={handleCloseModal}
         />,
@@ -0,0 +1,266 @@
+"use client";
+
+import { Fragment, useCallback, useEffect } from "react";
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { LLMModelSelect } from "./LLMModelSelect";
+import { NodeRetrySettings } from "./NodeRetrySettings";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { RouterBranch, RouterMode, RouterNodeData, RouterRuleOperator } from "@/types";
+import {
+  OTHERWISE_HANDLE_ID,
+  createRouterBranch,
+  getBranchHandleId,
+  getBranchName,
+  getBranchesError,
+  getImageBranchHandleId,
+} from "@/utils/router";
+
+type RouterNodeType = Node<RouterNodeData, "router">;
+
+const OPERATORS: { value: RouterRuleOperator; label: string }[] = [
+  { value: "contains", label: "contains" },
+  { value: "equals", label: "equals" },
+  { value: "regex", label: "matches regex" },
+];
+
+const INPUT_CLASS =
+  "nodrag min-w-0 text-[10px] py-0.5 px-1 border border-neutral-700 rounded bg-neutral-900/50 focus:outline-none focus:ring-1 focus:ring-neutral-600 text-neutral-300";
+
+const toggleClass = (active: boolean) =>
+  `nodrag flex-1 py-0.5 text-[10px] rounded border transition-colors ${
+    active
+      ? "border-neutral-500 bg-neutral-600 text-neutral-100"
+      : "border-neutral-700 bg-neutral-900/50 text-neutral-400 hover:text-neutral-200"
+  }`;
+
+export function RouterNode({ id, data, selected }: NodeProps<RouterNodeType>) {
+  const nodeData = data;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const removeEdge = useWorkflowStore((state) => state.removeEdge);
+  const regenerateNode = useWorkflowStore((state) => state.regenerateNode);
+  const isRunning = useWorkflowStore((state) => state.isRunning);
+
+  // A text and an image output per branch, then "Otherwise"
+  const updateNodeInternals = useUpdateNodeInternals();
+  const handleIds = [...nodeData.branches.map(getBranchHandleId), OTHERWISE_HANDLE_ID];
+  const handleKey = handleIds.join("\n");
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleKey, updateNodeInternals]);
+
+  const updateBranch = useCallback(
+    (branchId: string, update: Partial<RouterBranch>) => {
+      updateNodeData(id, {
+        branches: nodeData.branches.map((branch) => (branch.id === branchId ? { ...branch, ...update } : branch)),
+      });
+    },
+    [id, nodeData.branches, updateNodeData]
+  );
+
+  const handleAddBranch = useCallback(() => {
+    const name = String.fromCharCode(65 + (nodeData.branches.length % 26));
+    updateNodeData(id, { branches: [...nodeData.branches, createRouterBranch(name)] });
+  }, [id, nodeData.branches, updateNodeData]);
+
+  // The branch's connections go with it
+  const handleRemoveBranch = useCallback(
+    (branch: RouterBranch) => {
+      const handleId = getBranchHandleId(branch);
+      const imageHandleId = getImageBranchHandleId(handleId);
+      useWorkflowStore
+        .getState()
+        .edges.filter((edge) => edge.source === id && (edge.sourceHandle === handleId || edge.sourceHandle === imageHandleId))
+        .forEach((edge) => removeEdge(edge.id));
+      updateNodeData(id, {
+        branches: nodeData.branches.filter((candidate) => candidate.id !== branch.id),
+        ...(nodeData.selectedBranch === handleId && { selectedBranch: null }),
+      });
+    },
+    [id, nodeData.branches, nodeData.selectedBranch, removeEdge, updateNodeData]
+  );
+
+  const handleModelSettingsChange = useCallback(
+    (settings: Partial<RouterNodeData>) => {
+      updateNodeData(id, settings);
+    },
+    [id, updateNodeData]
+  );
+
+  const isRule = nodeData.mode === "rule";
+  const branchesError = getBranchesError(nodeData.branches);
+  const takenName = nodeData.selectedBranch ? getBranchName(nodeData.branches, nodeData.selectedBranch) : null;
+
+  return (
+    <BaseNode
+      id={id}
+      title="Router"
+      customTitle={nodeData.customTitle}
+      comment={nodeData.comment}
+      onCustomTitleChange={(title) => updateNodeData(id, { customTitle: title || undefined })}
+      onCommentChange={(comment) => updateNodeData(id, { comment: comment || undefined })}
+      onRun={() => regenerateNode(id)}
+      selected={selected}
+      isExecuting={isRunning}
+      hasError={nodeData.status === "error"}
+    >
+      {/* Text to route - passed on by the branch taken */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="text"
+        style={{ top: "35%" }}
+        data-handletype="text"
+      />
+      {/* Images - passed on by the branch taken, and shown to the model in LLM mode */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        id="image"
+        style={{ top: "65%" }}
+        data-handletype="image"
+      />
+      {handleIds.map((handleId, index) => (
+        <Fragment key={handleId}>
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={handleId}
+            style={{ top: `${((2 * index + 1) / (2 * handleIds.length + 1)) * 100}%` }}
+            data-handletype="text"
+          >
+            <span
+              className={`absolute left-full top-1/2 -translate-y-1/2 ml-1.5 text-[10px] whitespace-nowrap pointer-events-none ${
+                nodeData.selectedBranch === handleId ? "text-green-400" : "text-neutral-400"
+              }`}
+            >
+              {getBranchName(nodeData.branches, handleId) || "(unnamed)"}
+            </span>
+          </Handle>
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={getImageBranchHandleId(handleId)}
+            style={{ top: `${((2 * index + 2) / (2 * handleIds.length + 1)) * 100}%` }}
+            data-handletype="image"
+          />
+        </Fragment>
+      ))}
+
+      <div className="flex-1 flex flex-col min-h-0 gap-2">
+        {/* Mode */}
+        <div className="flex gap-1 shrink-0">
+          {(["rule", "llm"] as RouterMode[]).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => updateNodeData(id, { mode })}
+              className={toggleClass(nodeData.mode === mode)}
+              title={mode === "rule" ? "Match the text against each branch's rule" : "Ask a model which branch fits"}
+            >
+              {mode === "rule" ? "Rule" : "LLM"}
+            </button>
+          ))}
+        </div>
+
+        {!isRule && (
+          <textarea
+            value={nodeData.question}
+            onChange={(e) => updateNodeData(id, { question: e.target.value })}
+            placeholder="What to decide, e.g. Is this a portrait or a landscape?"
+            rows={2}
+            className="nodrag nopan nowheel w-full p-1.5 text-[10px] text-neutral-300 border border-neutral-700 rounded bg-neutral-900/50 resize-none focus:outline-none focus:ring-1 focus:ring-neutral-600 shrink-0"
+          />
+        )}
+
+        {/* Branches, checked in order */}
+        <div className="nowheel flex-1 min-h-0 overflow-y-auto flex flex-col gap-1">
+          {nodeData.branches.map((branch) => (
+            <div key={branch.id} className="flex items-center gap-1">
+              <input
+                value={branch.name}
+                onChange={(e) => updateBranch(branch.id, { name: e.target.value })}
+                placeholder="Name"
+                className={`${INPUT_CLASS} w-16 shrink-0`}
+              />
+              {isRule && (
+                <select
+                  value={branch.operator}
+                  onChange={(e) => updateBranch(branch.id, { operator: e.target.value as RouterRuleOperator })}
+                  className={`${INPUT_CLASS} shrink-0`}
+                >
+                  {OPERATORS.map((operator) => (
+                    <option key={operator.value} value={operator.value}>
+                      {operator.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                value={branch.value}
+                onChange={(e) => updateBranch(branch.id, { value: e.target.value })}
+                placeholder={isRule ? "Text" : "Description (optional)"}
+                className={`${INPUT_CLASS} flex-1 ${isRule && branch.operator === "regex" ? "font-mono" : ""}`}
+              />
+              <button
+                onClick={() => handleRemoveBranch(branch)}
+                disabled={nodeData.branches.length <= 1}
+                className="nodrag w-4 shrink-0 text-neutral-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-neutral-500"
+                title="Remove branch"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={handleAddBranch}
+            className="nodrag self-start text-[10px] text-neutral-500 hover:text-neutral-300"
+          >
+            + Add branch
+          </button>
+        </div>
+
+        {isRule ? (
+          <label className="flex items-center gap-1.5 text-[10px] text-neutral-300 cursor-pointer shrink-0">
+            <input
+              type="checkbox"
+              checked={nodeData.caseSensitive}
+              onChange={(e) => updateNodeData(id, { caseSensitive: e.target.checked })}
+              className="w-3 h-3 rounded border-neutral-700 bg-neutral-900/50 text-neutral-600 focus:ring-1 focus:ring-neutral-600 focus:ring-offset-0"
+            />
+            Case sensitive
+          </label>
+        ) : (
+          <>
+            <LLMModelSelect
+              provider={nodeData.provider}
+              model={nodeData.model}
+              onChange={handleModelSettingsChange}
+            />
+            <NodeRetrySettings
+              policy={nodeData.retryPolicy}
+              onChange={(retryPolicy) => updateNodeData(id, { retryPolicy })}
+            />
+          </>
+        )}
+
+        <div className="text-[10px] text-neutral-500 shrink-0 truncate">
+          {nodeData.status === "loading"
+            ? "Deciding..."
+            : takenName
+              ? <>Took <span className="text-green-400">{takenName}</span></>
+              : "No branch taken yet - first match wins"}
+        </div>
+        {branchesError && (
+          <div className="text-[10px] text-amber-400 shrink-0 truncate" title={branchesError}>
+            {branchesError}
+          </div>
+        )}
+        {nodeData.status === "error" && nodeData.error && (
+          <div className="text-[10px] text-red-400 shrink-0 truncate" title={nodeData.error}>
+            {nodeData.error}
+          </div>
+        )}
+      </div>
+    </BaseNode>
+  );
+}
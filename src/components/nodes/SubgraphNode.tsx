@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { Handle, Position, NodeProps, Node } from "@xyflow/react";
+import { BaseNode } from "./BaseNode";
+import { useWorkflowStore } from "@/store/workflowStore";
+import { NanoBananaNodeData, NodeStatus, OutputNodeData, SubgraphDefinition, SubgraphNodeData } from "@/types";
+
+type SubgraphNodeType = Node<SubgraphNodeData, "subgraph">;
+
+interface SubgraphState {
+  nodeCount: number;
+  status: NodeStatus;
+  error: string | null;
+  preview: string | null;
+}
+
+// What the inner nodes are doing, summed up for the collapsed node - nested subgraphs included
+function getSubgraphState(subgraph: SubgraphDefinition): SubgraphState {
+  const state: SubgraphState = { nodeCount: 0, status: "idle", error: null, preview: null };
+
+  subgraph.nodes.forEach((node) => {
+    if (node.type === "subgraph") {
+      const inner = getSubgraphState((node.data as SubgraphNodeData).subgraph);
+      state.nodeCount += inner.nodeCount;
+      if (inner.status === "loading" || state.status !== "loading" && inner.status === "error") {
+        state.status = inner.status;
+      }
+      state.error = state.error ?? inner.error;
+      state.preview = inner.preview ?? state.preview;
+      return;
+    }
+
+    state.nodeCount++;
+    const status = node.data.status as NodeStatus | undefined;
+    if (status === "loading") {
+      state.status = "loading";
+    } else if (status === "error" && state.status !== "loading") {
+      state.status = "error";
+      state.error = state.error ?? (node.data.error as string | null | undefined) ?? null;
+    } else if (status === "complete" && state.status === "idle") {
+      state.status = "complete";
+    }
+
+    // Output nodes show the subgraph's result; generated images stand in until there is one
+    if (node.type === "output") {
+      state.preview = (node.data as OutputNodeData).image ?? state.preview;
+    } else if (node.type === "nanoBanana" && !state.preview) {
+      state.preview = (node.data as NanoBananaNodeData).outputImage;
+    }
+  });
+
+  return state;
+}
+
+export function SubgraphNode({ id, data, selected }: NodeProps<SubgraphNodeType>) {
+  const nodeData = data;
+  const { subgraph } = nodeData;
+  const updateNodeData = useWorkflowStore((state) => state.updateNodeData);
+  const expandSubgraph = useWorkflowStore((state) => state.expandSubgraph);
+  const saveSubgraphToLibrary = useWorkflowStore((state) => state.saveSubgraphToLibrary);
+  const isRunning = useWorkflowStore((state) => state.isRunning);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { nodeCount, status, error, preview } = useMemo(() => getSubgraphState(subgraph), [subgraph]);
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    await saveSubgraphToLibrary(id);
+    setIsSaving(false);
+  }, [id, saveSubgraphToLibrary]);
+
+  return (
+    <BaseNode
+      id={id}
+      title={subgraph.name}
+      customTitle={nodeData.customTitle}
+      comment={nodeData.comment}
+      onCustomTitleChange={(title) => updateNodeData(id, { customTitle: title || undefined })}
+      onCommentChange={(comment) => updateNodeData(id, { comment: comment || undefined })}
+      selected={selected}
+      hasError={status === "error"}
+      className="min-w-[220px]"
+    >
+      {subgraph.inputs.map((port, index) => (
+        <Handle
+          key={port.id}
+          type="target"
+          position={Position.Left}
+          id={port.id}
+          style={{ top: `${((index + 1) / (subgraph.inputs.length + 1)) * 100}%` }}
+          data-handletype={port.type}
+        >
+          <span className="absolute left-full top-1/2 -translate-y-1/2 ml-1.5 text-[10px] text-neutral-400 whitespace-nowrap pointer-events-none">
+            {port.label}
+          </span>
+        </Handle>
+      ))}
+      {subgraph.outputs.map((port, index) => (
+        <Handle
+          key={port.id}
+          type="source"
+          position={Position.Right}
+          id={port.id}
+          style={{ top: `${((index + 1) / (subgraph.outputs.length + 1)) * 100}%` }}
+          data-handletype={port.type}
+        >
+          <span className="absolute right-full top-1/2 -translate-y-1/2 mr-1.5 text-[10px] text-neutral-400 whitespace-nowrap pointer-events-none">
+            {port.label}
+          </span>
+        </Handle>
+      ))}
+
+      <div className="flex-1 flex flex-col min-h-0 gap-2">
+        {/* Preview - kept clear of the port labels on both sides */}
+        <div className="relative mx-16 flex-1 min-h-[60px] border border-dashed border-neutral-600 rounded flex items-center justify-center overflow-hidden">
+          {preview ? (
+            <img src={preview} alt="Subgraph output" className="w-full h-full object-contain" />
+          ) : (
+            <span className="text-neutral-500 text-[10px] text-center px-1">No output yet</span>
+          )}
+          {status === "loading" && (
+            <div className="absolute inset-0 bg-neutral-900/60 flex items-center justify-center">
+              <svg className="w-4 h-4 animate-spin text-white" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="3" />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                />
+              </svg>
+            </div>
+          )}
+        </div>
+
+        <div className="text-[10px] text-neutral-500 shrink-0 text-center">
+          {nodeCount} node{nodeCount === 1 ? "" : "s"} inside
+        </div>
+        {status === "error" && error && (
+          <div className="text-[10px] text-red-400 shrink-0 truncate" title={error}>
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-1.5 shrink-0">
+          <button
+            onClick={() => expandSubgraph(id)}
+            disabled={isRunning}
+            className="nodrag flex-1 py-1 text-[10px] font-medium text-neutral-300 bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+            title="Put the inner nodes back on the canvas as a group"
+          >
+            Expand
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="nodrag flex-1 py-1 text-[10px] font-medium text-neutral-300 bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed rounded transition-colors"
+            title={nodeData.libraryId ? "Update the library entry with this subgraph" : "Save to the subgraph library"}
+          >
+            {isSaving ? "Saving..." : nodeData.libraryId ? "Update library" : "Save to library"}
+          </button>
+        </div>
+      </div>
+    </BaseNode>
+  );
+}
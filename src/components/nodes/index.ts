@@ -5,4 +5,9 @@ export { NanoBananaNode } from "./NanoBananaNode";
 export { LLMGenerateNode } from "./LLMGenerateNode";
 export { SplitGridNode } from "./SplitGridNode";
 export { OutputNode } from "./OutputNode";
+export { SubgraphNode } from "./SubgraphNode";
+export { MaskNode } from "./MaskNode";
+export { ImageTransformNode } from "./ImageTransformNode";
+export { CombineGridNode } from "./CombineGridNode";
+export { RouterNode } from "./RouterNode";
 export { GroupNode } from "./GroupNode";
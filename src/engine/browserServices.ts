@@ -0,0 +1,119 @@
+/**
+ * Execution services for the editor: provider calls go through the API routes
+ * and grids are split, masks composited and images transformed on a canvas
+ */
+
+import { GenerateResponse, LLMGenerateRequest, LLMGenerateResponse, LLMStreamEvent } from "@/types";
+import { parseRetryAfter } from "@/utils/retry";
+import { readServerSentEvents } from "@/utils/sse";
+import { ExecutionServices, ServiceResponse, SplitGridCell } from "./types";
+
+const post = (url: string, body: unknown, signal?: AbortSignal) =>
+  fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+// Turn an HTTP failure into the routes' { success, error } shape
+async function readErrorResponse<T extends { success: boolean; error?: string }>(
+  response: Response
+): Promise<ServiceResponse<T>> {
+  const errorText = await response.text();
+  let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  try {
+    const errorJson = JSON.parse(errorText);
+    errorMessage = errorJson.error || errorMessage;
+  } catch {
+    if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
+  }
+  const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+  return {
+    success: false,
+    error: errorMessage,
+    status: response.status,
+    ...(retryAfterMs !== undefined && { retryAfterMs }),
+  } as ServiceResponse<T>;
+}
+
+// POST to an API route, turning HTTP failures into the routes' { success, error } shape
+async function postJson<T extends { success: boolean; error?: string }>(
+  url: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<ServiceResponse<T>> {
+  const response = await post(url, body, signal);
+  if (!response.ok) {
+    return readErrorResponse<T>(response);
+  }
+
+  return response.json();
+}
+
+// Ask /api/llm to stream, passing the text so far to onText as events arrive
+async function streamText(
+  request: LLMGenerateRequest,
+  signal: AbortSignal | undefined,
+  onText: (text: string) => void
+): Promise<ServiceResponse<LLMGenerateResponse>> {
+  const response = await post("/api/llm", { ...request, stream: true }, signal);
+  if (!response.ok || !response.body) {
+    return readErrorResponse<LLMGenerateResponse>(response);
+  }
+
+  let text = "";
+  let result: ServiceResponse<LLMGenerateResponse> | null = null;
+  await readServerSentEvents(response.body, (data) => {
+    const event = JSON.parse(data) as LLMStreamEvent;
+    if (event.type === "delta") {
+      text += event.text;
+      onText(text);
+    } else if (event.type === "done") {
+      result = { success: true, text: event.text, ...(event.dryRun && { dryRun: true }) };
+    } else {
+      result = { success: false, error: event.error, status: event.status, retryAfterMs: event.retryAfterMs };
+    }
+  });
+
+  // No status: the connection dropped mid-stream, which is worth retrying
+  return result ?? { success: false, error: "The response ended before the output was complete" };
+}
+
+const getImageDimensions = (image: string) =>
+  new Promise<SplitGridCell["dimensions"]>((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = () => resolve(null);
+    img.src = image;
+  });
+
+export const browserServices: ExecutionServices = {
+  generateImage: (request, signal) => postJson<GenerateResponse>("/api/generate", request, signal),
+
+  generateText: (request, signal, onText) =>
+    onText ? streamText(request, signal, onText) : postJson<LLMGenerateResponse>("/api/llm", request, signal),
+
+  splitGrid: async (image, rows, cols) => {
+    const { splitWithDimensions } = await import("@/utils/gridSplitter");
+    const { images } = await splitWithDimensions(image, rows, cols);
+    return Promise.all(
+      images.map(async (cell) => ({ image: cell, dimensions: await getImageDimensions(cell) }))
+    );
+  },
+
+  compositeMasked: async (original, generated, mask) => {
+    const { compositeMasked } = await import("@/utils/mask");
+    return compositeMasked(original, generated, mask);
+  },
+
+  transformImage: async (image, settings) => {
+    const { transformImage } = await import("@/utils/imageTransform");
+    return transformImage(image, settings);
+  },
+
+  combineGrid: async (images, captions, settings) => {
+    const { combineGrid } = await import("@/utils/gridCombiner");
+    return combineGrid(images, captions, settings);
+  },
+};
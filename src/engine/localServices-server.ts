@@ -0,0 +1,51 @@
+/**
+ * Execution services for the headless runner: provider code is called
+ * in-process instead of through the API routes.
+ * Server-side only. Split Grid, mask compositing, Image Transform and Combine Grid are unavailable - they need a browser canvas.
+ */
+
+import { GenerateResponse, LLMGenerateResponse } from "@/types";
+import { generateImage } from "@/providers/image/generate";
+import { generateText } from "@/providers/llm/generate";
+import { getProviderErrorInfo } from "@/providers/errors";
+import { ExecutionServices, ServiceResponse } from "./types";
+
+const generateRequestId = () => `cli-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const localServices: ExecutionServices = {
+  generateImage: async (request, signal): Promise<ServiceResponse<GenerateResponse>> => {
+    try {
+      const { image, images, dryRun, thoughtSignature } = await generateImage(request, generateRequestId(), signal);
+      return {
+        success: true,
+        image,
+        ...(images.length > 1 && { images }),
+        ...(dryRun && { dryRun }),
+        ...(thoughtSignature && { thoughtSignature }),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Generation failed",
+        ...getProviderErrorInfo(error),
+      };
+    }
+  },
+
+  generateText: async (request, signal, onText): Promise<ServiceResponse<LLMGenerateResponse>> => {
+    let streamed = "";
+    try {
+      const { text, dryRun } = await generateText(request, generateRequestId(), signal, onText && ((delta) => {
+        streamed += delta;
+        onText(streamed);
+      }));
+      return { success: true, text, ...(dryRun && { dryRun }) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "LLM generation failed",
+        ...getProviderErrorInfo(error),
+      };
+    }
+  },
+};
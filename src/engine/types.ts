@@ -0,0 +1,145 @@
+/**
+ * Types for the workflow execution engine
+ *
+ * The engine runs nodes against an ExecutionContext so the same code drives the
+ * editor (zustand store + API routes) and the headless runner (plain objects +
+ * provider code called directly).
+ */
+
+import {
+  AspectRatio,
+  GenerateRequest,
+  GridCombineSettings,
+  GenerateResponse,
+  ImageTransformSettings,
+  LLMGenerateRequest,
+  LLMGenerateResponse,
+  ModelType,
+  NodeGroup,
+  Resolution,
+  RetryPolicy,
+  SweepValues,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowNodeData,
+} from "@/types";
+
+export interface SplitGridCell {
+  image: string;
+  dimensions: { width: number; height: number } | null;
+}
+
+// A provider response plus what the engine needs to decide on a retry
+export type ServiceResponse<T> = T & {
+  status?: number; // HTTP status of a failure - missing when the request never got an answer
+  retryAfterMs?: number;
+  cancelled?: boolean; // The run was stopped before the call finished
+};
+
+// Side effects the engine needs from its environment
+export interface ExecutionServices {
+  // The signal aborts the call when an attempt times out or the run is stopped
+  generateImage: (request: GenerateRequest, signal?: AbortSignal) => Promise<ServiceResponse<GenerateResponse>>;
+  // With onText the output is streamed: it gets the text so far each time more arrives
+  generateText: (
+    request: LLMGenerateRequest,
+    signal?: AbortSignal,
+    onText?: (text: string) => void
+  ) => Promise<ServiceResponse<LLMGenerateResponse>>;
+  // Needs an image decoder - environments without one leave it out and Split Grid nodes fail
+  splitGrid?: (image: string, rows: number, cols: number) => Promise<SplitGridCell[]>;
+  // Also needs an image decoder - without it masked generations keep the model's whole image
+  compositeMasked?: (original: string, generated: string, mask: string) => Promise<string>;
+  // Needs a canvas too - without it Image Transform nodes fail
+  transformImage?: (image: string, settings: ImageTransformSettings) => Promise<string>;
+  // And a canvas to draw the sheet on - without it Combine Grid nodes fail
+  combineGrid?: (images: string[], captions: string[], settings: GridCombineSettings) => Promise<string>;
+}
+
+export interface GeneratedImageEvent {
+  nodeId: string;
+  image: string;
+  imageId: string;
+  timestamp: number;
+  prompt: string;
+  model: ModelType;
+  aspectRatio: AspectRatio;
+  resolution: Resolution;
+  cost: number; // 0 for dry runs
+  dryRun: boolean;
+  sweepValues?: SweepValues;
+}
+
+// Whether a router's output passes anything on
+export type BranchFilter = (router: WorkflowNode, handleId: string | null | undefined) => boolean;
+
+export interface ExecutionContext {
+  // Always return the latest state - nodes update each other while a run is in flight
+  getNodes: () => WorkflowNode[];
+  getEdges: () => WorkflowEdge[];
+  updateNodeData: (nodeId: string, data: Partial<WorkflowNodeData>) => void;
+  services: ExecutionServices;
+  dryRun?: boolean;
+  // Workflow-wide retry policy for provider calls - nodes may override parts of it
+  retryPolicy?: RetryPolicy;
+  // Aborts provider calls in flight when the run is stopped
+  signal?: AbortSignal;
+  // Set while running one item of a sweep - recorded with every generated image
+  sweepValues?: SweepValues;
+  onImageGenerated?: (event: GeneratedImageEvent) => void;
+  // A node was skipped because its cached output still matches its inputs
+  onCacheHit?: (nodeId: string) => void;
+  // Which router outputs pass anything on - set by runWorkflow. Each router's last pick otherwise.
+  isBranchOpen?: BranchFilter;
+}
+
+export interface ExecuteNodeOptions {
+  // Use the inputs recorded on the node when nothing is connected (single-node regeneration)
+  useStoredInputs?: boolean;
+  // Call providers even when the cached output matches the current inputs
+  force?: boolean;
+  // Generate nodes in chat mode: continue the conversation with this message instead of running on the inputs
+  chatMessage?: string;
+}
+
+export interface RunOptions {
+  groups?: Record<string, NodeGroup>;
+  maxConcurrency: number;
+  startFromNodeId?: string;
+  // Resuming from a pause: the start node's pause edge is not honored again
+  isResuming?: boolean;
+  // Nodes finished by an earlier (paused) run that should not execute again
+  previouslyCompleted?: Set<string>;
+  // Run straight through pause edges instead of holding branches at them
+  ignorePauseEdges?: boolean;
+  // Re-run every node instead of reusing cached outputs
+  force?: boolean;
+  // Keep running branches that don't depend on a failed node
+  continueOnError?: boolean;
+  // Checked before launching more nodes - return false to stop after in-flight nodes settle
+  shouldContinue?: () => boolean;
+  onNodeStart?: (nodeId: string) => void;
+  onNodeEnd?: (nodeId: string, succeeded: boolean) => void;
+  // Left out because it hangs off a branch a router didn't take - it never starts
+  onNodeSkipped?: (nodeId: string) => void;
+}
+
+export type RunStatus = "completed" | "failed" | "stopped" | "paused";
+
+export interface RunResult {
+  status: RunStatus;
+  completedNodeIds: Set<string>;
+  failedNodeIds: string[];
+  skippedNodeIds: string[]; // Left unrun because a node they depend on failed
+  branchSkippedNodeIds: string[]; // Left unrun because a router didn't take their branch
+  pausedAtNodeId: string | null;
+}
+
+export interface SweepRunOptions extends RunOptions {
+  onIterationStart?: (index: number, total: number, values: SweepValues) => void;
+  onIterationEnd?: (index: number, result: RunResult) => void;
+}
+
+export interface SweepRunResult extends RunResult {
+  iterationsCompleted: number;
+}
@@ -0,0 +1,1348 @@
+/**
+ * Framework-independent workflow execution
+ *
+ * Node behaviour and scheduling live here; callers supply state access and
+ * provider calls through an ExecutionContext (see types.ts).
+ */
+
+import {
+  AnnotationNodeData,
+  CombineGridNodeData,
+  GenerateResponse,
+  ImageChatTurn,
+  ImageInputNodeData,
+  ImageTransformNodeData,
+  LLMGenerateNodeData,
+  LLMGenerateResponse,
+  MaskNodeData,
+  NanoBananaNodeData,
+  PromptNodeData,
+  RetryPolicy,
+  RouterNodeData,
+  SplitGridNodeData,
+  SubgraphNodeData,
+  WorkflowEdge,
+  WorkflowNode,
+} from "@/types";
+import { getCandidateCount } from "@/providers/image/catalog";
+import { calculateGenerationCost } from "@/utils/costCalculator";
+import { logger } from "@/utils/logger";
+import { getListItems } from "@/utils/listExpansion";
+import { computeNodeInputHash, isCachedOutput } from "@/utils/nodeCache";
+import {
+  TemplateValues,
+  fillTemplate,
+  getTemplateVariable,
+  getTemplateVariables,
+  isTemplateHandleId,
+} from "@/utils/promptTemplate";
+import { RetryableResult, resolveRetryPolicy, withRetry } from "@/utils/retry";
+import {
+  getAnsweredBranch,
+  getBranchesError,
+  getBranchName,
+  getClassificationPrompt,
+  getClassificationSchema,
+  isBranchTaken,
+  isImageBranchHandleId,
+  pickRuleBranch,
+} from "@/utils/router";
+import {
+  JsonSchema,
+  getFieldName,
+  getFieldText,
+  isFieldHandleId,
+  parseJsonOutput,
+  parseOutputSchema,
+  validateJson,
+} from "@/utils/structuredOutput";
+import { getTopLevelNodeId, inlineSubgraphs, isInlinedNodeId, updateSubgraphNodeData } from "@/utils/subgraph";
+import {
+  SweepCombination,
+  SweepSource,
+  applySweepOverrides,
+  getDownstreamNodeIds,
+  getSweepCombinations,
+  getSweepSources,
+} from "@/utils/sweep";
+import {
+  BranchFilter,
+  ExecuteNodeOptions,
+  ExecutionContext,
+  RunOptions,
+  RunResult,
+  ServiceResponse,
+  SweepRunOptions,
+  SweepRunResult,
+} from "./types";
+
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+// Image IDs double as filenames in the generations folder, so parallel
+// generations finishing in the same millisecond must not collide
+export const generateImageId = (timestamp: number) =>
+  `${timestamp}-${Math.random().toString(36).substr(2, 6)}`;
+
+// Outside runs, a router's outputs follow the branch it took last
+const isLastPick: BranchFilter = (router, handleId) => isBranchTaken(router.data as RouterNodeData, handleId);
+
+// Text a node passes on through a text output, or null if it has none yet
+function getTextOutput(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  node: WorkflowNode,
+  sourceHandle: string | null | undefined,
+  visiting: Set<string>,
+  isBranchOpen: BranchFilter
+): string | null {
+  if (node.type === "prompt") {
+    const { prompt } = node.data as PromptNodeData;
+    // A cycle through template variables leaves the placeholders unfilled
+    if (visiting.has(node.id) || getTemplateVariables(prompt).length === 0) return prompt;
+    return fillTemplate(prompt, collectTemplateValues(nodes, edges, node.id, new Set(visiting).add(node.id), isBranchOpen));
+  }
+  if (node.type === "llmGenerate") {
+    const { outputText } = node.data as LLMGenerateNodeData;
+    // Field outputs of structured output pass on one part of the JSON
+    return isFieldHandleId(sourceHandle) ? getFieldText(outputText, getFieldName(sourceHandle)) : outputText;
+  }
+  if (node.type === "router") {
+    return isBranchOpen(node, sourceHandle) ? (node.data as RouterNodeData).inputText : null;
+  }
+  return null;
+}
+
+function collectTemplateValues(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  nodeId: string,
+  visiting: Set<string>,
+  isBranchOpen: BranchFilter
+): TemplateValues {
+  const values: TemplateValues = {};
+  edges
+    .filter((edge) => edge.target === nodeId && isTemplateHandleId(edge.targetHandle))
+    .forEach((edge) => {
+      const sourceNode = nodes.find((n) => n.id === edge.source);
+      if (!sourceNode) return;
+      values[getTemplateVariable(edge.targetHandle!)] = getTextOutput(nodes, edges, sourceNode, edge.sourceHandle, visiting, isBranchOpen);
+    });
+  return values;
+}
+
+// Text connected to each {{variable}} handle of a prompt node
+export const getTemplateValues = (nodes: WorkflowNode[], edges: WorkflowEdge[], nodeId: string) =>
+  collectTemplateValues(nodes, edges, nodeId, new Set([nodeId]), isLastPick);
+
+export function getConnectedInputs(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  nodeId: string,
+  isBranchOpen: BranchFilter = isLastPick
+): { images: string[]; text: string | null; mask: string | null } {
+  const images: string[] = [];
+  let text: string | null = null;
+  let mask: string | null = null;
+
+  edges
+    .filter((edge) => edge.target === nodeId)
+    .forEach((edge) => {
+      const sourceNode = nodes.find((n) => n.id === edge.source);
+      if (!sourceNode) return;
+
+      const handleId = edge.targetHandle;
+
+      if (handleId === "image" || !handleId) {
+        // Get image from source node - collect all connected images
+        if (sourceNode.type === "imageInput") {
+          const sourceImage = (sourceNode.data as ImageInputNodeData).image;
+          if (sourceImage) images.push(sourceImage);
+        } else if (sourceNode.type === "annotation") {
+          const sourceImage = (sourceNode.data as AnnotationNodeData).outputImage;
+          if (sourceImage) images.push(sourceImage);
+        } else if (sourceNode.type === "nanoBanana") {
+          const sourceImage = (sourceNode.data as NanoBananaNodeData).outputImage;
+          if (sourceImage) images.push(sourceImage);
+        } else if (sourceNode.type === "imageTransform") {
+          const sourceImage = (sourceNode.data as ImageTransformNodeData).outputImage;
+          if (sourceImage) images.push(sourceImage);
+        } else if (sourceNode.type === "combineGrid") {
+          const sourceImage = (sourceNode.data as CombineGridNodeData).outputImage;
+          if (sourceImage) images.push(sourceImage);
+        } else if (sourceNode.type === "mask") {
+          // Mask nodes pass their image through unchanged
+          const sourceImage = (sourceNode.data as MaskNodeData).sourceImage;
+          if (sourceImage) images.push(sourceImage);
+        } else if (sourceNode.type === "router" && isImageBranchHandleId(edge.sourceHandle)) {
+          // Routers pass their images on through the image output of the branch taken
+          if (isBranchOpen(sourceNode, edge.sourceHandle)) {
+            images.push(...(sourceNode.data as RouterNodeData).inputImages);
+          }
+        }
+      }
+
+      if (handleId === "mask" && sourceNode.type === "mask") {
+        mask = (sourceNode.data as MaskNodeData).mask;
+      }
+
+      if (handleId === "text") {
+        // Prompt templates are filled in as their text is read
+        if (sourceNode.type === "prompt" || sourceNode.type === "llmGenerate" || sourceNode.type === "router") {
+          text = getTextOutput(nodes, edges, sourceNode, edge.sourceHandle, new Set(), isBranchOpen);
+        }
+      }
+    });
+
+  return { images, text, mask };
+}
+
+// Skipped when an input has connections but none of them is active - an image
+// input fed from several branches still runs on the ones that were taken
+function hasNoActiveInput(edges: WorkflowEdge[], nodeId: string, isEdgeActive: (edge: WorkflowEdge) => boolean) {
+  const activeByHandle = new Map<string, boolean>();
+  edges
+    .filter((e) => e.target === nodeId)
+    .forEach((edge) => {
+      const handle = edge.targetHandle ?? "";
+      activeByHandle.set(handle, !!activeByHandle.get(handle) || isEdgeActive(edge));
+    });
+  return Array.from(activeByHandle.values()).some((active) => !active);
+}
+
+// Nodes ordered so every node comes after the nodes it depends on. Throws on cycles.
+export function sortNodesTopologically(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowNode[] {
+  const sorted: WorkflowNode[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  const visit = (nodeId: string) => {
+    if (visited.has(nodeId)) return;
+    if (visiting.has(nodeId)) {
+      logger.error('workflow.validation', 'Cycle detected in workflow', { nodeId });
+      throw new Error("Cycle detected in workflow");
+    }
+
+    visiting.add(nodeId);
+
+    // Visit all nodes that this node depends on
+    edges
+      .filter((e) => e.target === nodeId)
+      .forEach((e) => visit(e.source));
+
+    visiting.delete(nodeId);
+    visited.add(nodeId);
+
+    const node = nodes.find((n) => n.id === nodeId);
+    if (node) sorted.push(node);
+  };
+
+  nodes.forEach((node) => visit(node.id));
+  return sorted;
+}
+
+function describeRequestError(error: unknown, fallback: string): string {
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return "Request timed out. Try reducing image sizes or using a simpler prompt.";
+  } else if (error instanceof TypeError && error.message.includes('NetworkError')) {
+    return "Network error. Check your connection and try again.";
+  } else if (error instanceof TypeError) {
+    return `Network error: ${error.message}`;
+  } else if (error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+}
+
+// Call a provider under the node's retry policy, keeping the attempt count visible on the node
+async function callProvider<T extends RetryableResult>(
+  context: ExecutionContext,
+  node: WorkflowNode,
+  call: (signal: AbortSignal) => Promise<T>,
+  fallbackError: string
+): Promise<{ result: T; attempts: number }> {
+  const policy = resolveRetryPolicy(context.retryPolicy, node.data.retryPolicy as Partial<RetryPolicy> | undefined);
+
+  // Only a request that never got an answer (fetch rejects with a TypeError) is left without
+  // a status; anything else thrown is a bug or a bad response that another try won't fix
+  return withRetry(
+    (signal) => call(signal).catch((error) => ({
+      success: false,
+      error: describeRequestError(error, fallbackError),
+      ...(!(error instanceof TypeError) && { status: 500 }),
+    }) as T),
+    policy,
+    {
+      signal: context.signal,
+      onAttempt: (attempt, maxAttempts, previous) => {
+        context.updateNodeData(node.id, { attempts: { attempt, maxAttempts, lastError: previous?.error ?? null } });
+      },
+      onRetry: (failure, attempt, delayMs) => {
+        logger.warn('node.execution', 'Provider call failed, retrying', {
+          nodeId: node.id,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          status: failure.status,
+          retryAfterMs: failure.retryAfterMs,
+          delayMs,
+          error: failure.error,
+        });
+      },
+    }
+  );
+}
+
+// Structured output must parse and match the schema; it is stored pretty-printed so fields read back reliably.
+// A response that doesn't match has no status, so it is retried like a dropped connection.
+function checkStructuredOutput(
+  result: ServiceResponse<LLMGenerateResponse>,
+  schema: JsonSchema
+): ServiceResponse<LLMGenerateResponse> {
+  if (!result.success || !result.text) return result;
+
+  let output: unknown;
+  try {
+    output = parseJsonOutput(result.text);
+  } catch {
+    return { success: false, error: "Response is not valid JSON" };
+  }
+  const errors = validateJson(output, schema);
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : "";
+    return { success: false, error: `Response doesn't match the schema: ${errors.slice(0, 3).join("; ")}${more}` };
+  }
+  return { ...result, text: JSON.stringify(output, null, 2) };
+}
+
+const describeAttempts = (error: string, attempts: number) =>
+  attempts > 1 ? `${error} (after ${attempts} attempts)` : error;
+
+// Stopped mid-call - keep the previous output and don't count the call as a failure
+function markCancelled(context: ExecutionContext, nodeId: string, attempts: number): boolean {
+  logger.info('node.execution', 'Provider call cancelled', { nodeId, attempts });
+  context.updateNodeData(nodeId, { status: "cancelled", error: null });
+  return false;
+}
+
+// Keep the original outside the mask - models tend to redraw more than they were asked to
+async function compositeOverOriginal(
+  context: ExecutionContext,
+  original: string,
+  candidates: string[],
+  mask: string
+): Promise<string[]> {
+  const { compositeMasked } = context.services;
+  if (!compositeMasked) {
+    logger.warn('node.execution', 'No image decoder to composite masked output - keeping the whole image');
+    return candidates;
+  }
+  return Promise.all(candidates.map((candidate) => compositeMasked(original, candidate, mask)));
+}
+
+/**
+ * Put new images on a generate node and its carousel, and report each one for
+ * the gallery and cost tracking. Several candidates from one request share a
+ * batch ID; the first becomes the output until another one is picked.
+ */
+function addGeneratedImages(
+  context: ExecutionContext,
+  node: WorkflowNode,
+  images: string[],
+  dryRun: boolean,
+  prompt: string,
+  data: Partial<NanoBananaNodeData>
+): void {
+  const nodeData = node.data as NanoBananaNodeData;
+  const { sweepValues } = context;
+  const timestamp = Date.now();
+  const batchId = images.length > 1 ? generateImageId(timestamp) : undefined;
+  const generated = images.map((image) => ({ image, imageId: generateImageId(timestamp) }));
+
+  // Add to node's carousel history, candidates in order
+  const newHistoryItems = generated.map(({ imageId }) => ({
+    id: imageId,
+    timestamp,
+    prompt,
+    aspectRatio: nodeData.aspectRatio,
+    model: nodeData.model,
+    ...(sweepValues && { sweepValues }),
+    ...(batchId && { batchId }),
+  }));
+  const updatedHistory = [...newHistoryItems, ...(nodeData.imageHistory || [])];
+
+  context.updateNodeData(node.id, {
+    outputImage: images[0],
+    status: "complete",
+    error: null,
+    imageHistory: updatedHistory,
+    selectedHistoryIndex: 0,
+    candidateImages: images.length > 1 ? images : null,
+    ...data,
+  });
+
+  // Dry-run placeholders are free
+  generated.forEach(({ image, imageId }) => {
+    context.onImageGenerated?.({
+      nodeId: node.id,
+      image,
+      imageId,
+      timestamp,
+      prompt,
+      model: nodeData.model,
+      aspectRatio: nodeData.aspectRatio,
+      resolution: nodeData.resolution,
+      cost: dryRun ? 0 : calculateGenerationCost(nodeData.model, nodeData.resolution),
+      dryRun,
+      sweepValues,
+    });
+  });
+}
+
+const toChatTurn = (prompt: string, images: string[], result: GenerateResponse & { image: string }): ImageChatTurn => ({
+  prompt,
+  images,
+  image: result.image,
+  ...(result.thoughtSignature && { thoughtSignature: result.thoughtSignature }),
+  timestamp: Date.now(),
+});
+
+/**
+ * Send a follow-up message in a generate node's chat. The thread so far goes
+ * along with it, so the model edits its last answer; the answer becomes the
+ * node's output. The node's inputs are left alone - they started the thread.
+ */
+async function continueChat(context: ExecutionContext, node: WorkflowNode, message: string): Promise<boolean> {
+  const { updateNodeData, services, dryRun } = context;
+  const nodeData = node.data as NanoBananaNodeData;
+  const turns = nodeData.chatTurns ?? [];
+
+  if (turns.length === 0) {
+    updateNodeData(node.id, {
+      status: "error",
+      error: "Run the node to start the conversation",
+    });
+    return false;
+  }
+
+  updateNodeData(node.id, { status: "loading", error: null });
+
+  logger.info('api.gemini', 'Continuing image chat', {
+    nodeId: node.id,
+    model: nodeData.model,
+    turnCount: turns.length,
+    prompt: message,
+  });
+
+  const { result, attempts } = await callProvider(context, node, (signal) =>
+    services.generateImage({
+      images: [],
+      prompt: message,
+      history: turns,
+      aspectRatio: nodeData.aspectRatio,
+      resolution: nodeData.resolution,
+      model: nodeData.model,
+      useGoogleSearch: nodeData.useGoogleSearch,
+      ...(dryRun && { dryRun }),
+    }, signal),
+    "Generation failed"
+  );
+
+  if (result.success && result.image) {
+    const image = result.image;
+    addGeneratedImages(context, node, [image], !!result.dryRun, message, {
+      chatTurns: [...turns, toChatTurn(message, [], { ...result, image })],
+    });
+    return true;
+  }
+
+  if (result.cancelled) {
+    return markCancelled(context, node.id, attempts);
+  }
+
+  logger.error('api.error', 'Image chat message failed', {
+    nodeId: node.id,
+    error: result.error,
+    status: result.status,
+    attempts,
+  });
+  updateNodeData(node.id, {
+    status: "error",
+    error: describeAttempts(result.error || "Generation failed", attempts),
+  });
+  return false;
+}
+
+// Inputs and settings match the ones behind the current output - keep it instead of paying for a new one
+function reuseCachedOutput(context: ExecutionContext, nodeId: string): boolean {
+  logger.info('node.execution', 'Inputs unchanged, reusing cached output', { nodeId });
+  context.updateNodeData(nodeId, { status: "complete", error: null });
+  context.onCacheHit?.(nodeId);
+  return true;
+}
+
+/**
+ * Write an LLM node's list items into its linked prompts; prompts without an item
+ * are emptied. A prompt that no longer holds the item last written to it was
+ * edited by hand and keeps its text.
+ */
+function syncListChildren(context: ExecutionContext, node: WorkflowNode, outputText: string) {
+  const nodeData = node.data as LLMGenerateNodeData;
+  if (!nodeData.childNodeIds?.length) return;
+
+  const items = getListItems({ outputText, outputSchema: nodeData.outputSchema });
+  // Links made before items were recorded were written from the previous output
+  const previousItems = getListItems(nodeData);
+  const nodes = context.getNodes();
+  let changed = false;
+  const childNodeIds = nodeData.childNodeIds.map((child, index) => {
+    const prompt = (nodes.find((n) => n.id === child.prompt)?.data as PromptNodeData | undefined)?.prompt;
+    const item = items[index] ?? "";
+    if (prompt !== (child.item ?? previousItems[index] ?? "") || child.item === item) return child;
+    if (prompt !== item) context.updateNodeData(child.prompt, { prompt: item });
+    changed = true;
+    return { ...child, item };
+  });
+  if (changed) context.updateNodeData(node.id, { childNodeIds });
+
+  if (items.length !== nodeData.childNodeIds.length) {
+    logger.warn('node.execution', 'List item count differs from linked prompts', {
+      nodeId: node.id,
+      itemCount: items.length,
+      linkedCount: nodeData.childNodeIds.length,
+    });
+  }
+}
+
+/**
+ * Execute a single node, reading its inputs from connected nodes.
+ * Returns false if the node failed and the run should stop.
+ */
+export async function executeNode(
+  context: ExecutionContext,
+  nodeId: string,
+  options: ExecuteNodeOptions = {}
+): Promise<boolean> {
+  const { updateNodeData, services, dryRun } = context;
+  // Read the latest node state - upstream nodes may have updated it while this one was waiting
+  const node = context.getNodes().find((n) => n.id === nodeId);
+  if (!node) return true;
+
+  logger.info('node.execution', `Executing ${node.type} node`, {
+    nodeId: node.id,
+    nodeType: node.type,
+  });
+
+  const inputs = getConnectedInputs(context.getNodes(), context.getEdges(), node.id, context.isBranchOpen);
+
+  switch (node.type) {
+    case "imageInput":
+      // Nothing to execute, data is already set
+      return true;
+
+    case "annotation": {
+      // Get connected image and set as source (use first image)
+      const image = inputs.images[0] || null;
+      if (image) {
+        updateNodeData(node.id, { sourceImage: image });
+        // If no annotations, pass through the image
+        const nodeData = node.data as AnnotationNodeData;
+        if (!nodeData.outputImage) {
+          updateNodeData(node.id, { outputImage: image });
+        }
+      }
+      return true;
+    }
+
+    case "mask": {
+      // Strokes are in source image pixels - a new image keeps them, the user repaints if it doesn't fit
+      const image = inputs.images[0] || null;
+      if (image) {
+        updateNodeData(node.id, { sourceImage: image });
+      }
+      return true;
+    }
+
+    case "imageTransform": {
+      const nodeData = node.data as ImageTransformNodeData;
+      const image = inputs.images[0] || null;
+      if (!image) {
+        updateNodeData(node.id, { status: "error", error: "No input image connected" });
+        return false;
+      }
+      if (!services.transformImage) {
+        updateNodeData(node.id, { status: "error", error: "Transforming images is not supported here" });
+        return false;
+      }
+
+      updateNodeData(node.id, { sourceImage: image, status: "loading", error: null });
+      try {
+        const outputImage = await services.transformImage(image, nodeData);
+        updateNodeData(node.id, { outputImage, status: "complete", error: null });
+        return true;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Transform failed";
+        logger.error('node.error', 'imageTransform node execution failed', {
+          nodeId: node.id,
+          errorMessage,
+        }, error instanceof Error ? error : undefined);
+        updateNodeData(node.id, { status: "error", error: errorMessage });
+        return false;
+      }
+    }
+
+    case "combineGrid": {
+      const nodeData = node.data as CombineGridNodeData;
+      if (inputs.images.length === 0) {
+        updateNodeData(node.id, { status: "error", error: "No input images connected" });
+        return false;
+      }
+      if (!services.combineGrid) {
+        updateNodeData(node.id, { status: "error", error: "Combining grids is not supported here" });
+        return false;
+      }
+
+      // One caption per line of the connected text, in the same order as the images
+      const captions = getListItems({ outputText: inputs.text, outputSchema: null });
+      updateNodeData(node.id, { inputImages: inputs.images, status: "loading", error: null });
+      try {
+        const outputImage = await services.combineGrid(inputs.images, captions, nodeData);
+        updateNodeData(node.id, { outputImage, status: "complete", error: null });
+        return true;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Combining images failed";
+        logger.error('node.error', 'combineGrid node execution failed', {
+          nodeId: node.id,
+          errorMessage,
+        }, error instanceof Error ? error : undefined);
+        updateNodeData(node.id, { status: "error", error: errorMessage });
+        return false;
+      }
+    }
+
+    case "router": {
+      const nodeData = node.data as RouterNodeData;
+      const useStored = options.useStoredInputs;
+      const images = inputs.images.length > 0 || !useStored ? inputs.images : nodeData.inputImages;
+      const text = useStored ? inputs.text ?? nodeData.inputText : inputs.text;
+
+      const branchesError = getBranchesError(nodeData.branches);
+      if (branchesError) {
+        updateNodeData(node.id, { status: "error", error: branchesError });
+        return false;
+      }
+      if (nodeData.mode === "rule" && text === null) {
+        updateNodeData(node.id, { status: "error", error: "Missing text input" });
+        return false;
+      }
+      if (nodeData.mode === "llm" && !text && images.length === 0) {
+        updateNodeData(node.id, { status: "error", error: "Connect text or an image to decide on" });
+        return false;
+      }
+
+      // Nothing passes on until a branch is picked
+      updateNodeData(node.id, {
+        inputText: text,
+        inputImages: images,
+        selectedBranch: null,
+        status: "loading",
+        error: null,
+      });
+
+      const choose = (selectedBranch: string) => {
+        logger.info('node.execution', 'Router picked a branch', {
+          nodeId: node.id,
+          mode: nodeData.mode,
+          branch: getBranchName(nodeData.branches, selectedBranch),
+        });
+        updateNodeData(node.id, { selectedBranch, status: "complete", error: null });
+        return true;
+      };
+
+      if (nodeData.mode === "rule") {
+        try {
+          return choose(pickRuleBranch(text ?? "", nodeData));
+        } catch (error) {
+          updateNodeData(node.id, {
+            status: "error",
+            error: error instanceof Error ? error.message : "Rule evaluation failed",
+          });
+          return false;
+        }
+      }
+
+      const responseSchema = getClassificationSchema(nodeData.branches);
+      try {
+        const { result, attempts } = await callProvider(
+          context,
+          node,
+          (signal) =>
+            services.generateText({
+              prompt: getClassificationPrompt(nodeData, text),
+              ...(images.length > 0 && { images }),
+              provider: nodeData.provider,
+              model: nodeData.model,
+              // The same input should take the same branch
+              temperature: 0,
+              maxTokens: 256,
+              responseSchema,
+              ...(dryRun && { dryRun }),
+            }, signal).then((result) => checkStructuredOutput(result, responseSchema)),
+          "Routing failed"
+        );
+
+        if (result.success && result.text) {
+          return choose(getAnsweredBranch(result.text, nodeData.branches));
+        }
+        if (result.cancelled) {
+          return markCancelled(context, node.id, attempts);
+        }
+
+        logger.error('api.error', 'Router classification failed', {
+          nodeId: node.id,
+          error: result.error,
+          status: result.status,
+          attempts,
+        });
+        updateNodeData(node.id, {
+          status: "error",
+          error: describeAttempts(result.error || "Routing failed", attempts),
+        });
+        return false;
+      } catch (error) {
+        logger.error('node.error', 'router node execution failed', {
+          nodeId: node.id,
+        }, error instanceof Error ? error : undefined);
+        updateNodeData(node.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Routing failed",
+        });
+        return false;
+      }
+    }
+
+    case "prompt":
+      // Nothing to execute, data is already set
+      return true;
+
+    case "nanoBanana": {
+      const nodeData = node.data as NanoBananaNodeData;
+      if (options.chatMessage !== undefined) {
+        return continueChat(context, node, options.chatMessage);
+      }
+
+      const useStored = options.useStoredInputs;
+      const images = inputs.images.length > 0 || !useStored ? inputs.images : nodeData.inputImages || [];
+      const text = useStored ? inputs.text ?? nodeData.inputPrompt : inputs.text;
+      const mask = useStored ? inputs.mask ?? nodeData.inputMask ?? null : inputs.mask;
+
+      if (images.length === 0 || !text) {
+        logger.error('node.error', 'nanoBanana node missing inputs', {
+          nodeId: node.id,
+          hasImages: images.length > 0,
+          hasText: !!text,
+        });
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Missing image or text input",
+        });
+        return false;
+      }
+
+      const inputHash = computeNodeInputHash(node, { images, text, mask }, !!dryRun);
+      if (!options.force && isCachedOutput(node, inputHash)) {
+        return reuseCachedOutput(context, node.id);
+      }
+
+      updateNodeData(node.id, {
+        inputImages: images,
+        inputPrompt: text,
+        inputMask: mask,
+        status: "loading",
+        error: null,
+      });
+
+      const candidateCount = getCandidateCount(nodeData);
+
+      try {
+        logger.info('api.gemini', 'Calling image generation API', {
+          nodeId: node.id,
+          model: nodeData.model,
+          aspectRatio: nodeData.aspectRatio,
+          resolution: nodeData.resolution,
+          imageCount: images.length,
+          candidateCount,
+          masked: !!mask,
+          prompt: text,
+        });
+
+        const { result, attempts } = await callProvider(context, node, (signal) =>
+          services.generateImage({
+            images,
+            prompt: text,
+            aspectRatio: nodeData.aspectRatio,
+            resolution: nodeData.resolution,
+            model: nodeData.model,
+            useGoogleSearch: nodeData.useGoogleSearch,
+            ...(candidateCount > 1 && { candidateCount }),
+            ...(mask && { mask }),
+            ...(dryRun && { dryRun }),
+          }, signal),
+          "Generation failed"
+        );
+
+        if (result.success && result.image) {
+          const candidates = mask
+            ? await compositeOverOriginal(context, images[0], result.images ?? [result.image], mask)
+            : result.images ?? [result.image];
+          // In chat mode every run starts a new thread from the inputs - with the model's own answer in it
+          addGeneratedImages(context, node, candidates, !!result.dryRun, text, {
+            ...(inputHash && { inputHash }),
+            ...(nodeData.chatMode && { chatTurns: [toChatTurn(text, images, { ...result, image: result.image })] }),
+          });
+          return true;
+        }
+
+        if (result.cancelled) {
+          return markCancelled(context, node.id, attempts);
+        }
+
+        logger.error('api.error', 'Image generation failed', {
+          nodeId: node.id,
+          error: result.error,
+          status: result.status,
+          attempts,
+        });
+        updateNodeData(node.id, {
+          status: "error",
+          error: describeAttempts(result.error || "Generation failed", attempts),
+        });
+        return false;
+      } catch (error) {
+        const errorMessage = describeRequestError(error, "Generation failed");
+
+        logger.error('node.error', 'nanoBanana node execution failed', {
+          nodeId: node.id,
+          errorMessage,
+        }, error instanceof Error ? error : undefined);
+
+        updateNodeData(node.id, {
+          status: "error",
+          error: errorMessage,
+        });
+        return false;
+      }
+    }
+
+    case "llmGenerate": {
+      const nodeData = node.data as LLMGenerateNodeData;
+      const useStored = options.useStoredInputs;
+      const images = inputs.images.length > 0 || !useStored ? inputs.images : nodeData.inputImages || [];
+      const text = useStored ? inputs.text ?? nodeData.inputPrompt : inputs.text;
+
+      if (!text) {
+        logger.error('node.error', 'llmGenerate node missing text input', {
+          nodeId: node.id,
+        });
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Missing text input",
+        });
+        return false;
+      }
+
+      let responseSchema: JsonSchema | undefined;
+      if (nodeData.outputSchema) {
+        const parsed = parseOutputSchema(nodeData.outputSchema);
+        if ("error" in parsed) {
+          updateNodeData(node.id, { status: "error", error: parsed.error });
+          return false;
+        }
+        responseSchema = parsed.schema;
+      }
+
+      const inputHash = computeNodeInputHash(node, { images, text }, !!dryRun);
+      if (!options.force && isCachedOutput(node, inputHash)) {
+        // Linked prompts follow the list on a cache hit too
+        if (nodeData.outputText) syncListChildren(context, node, nodeData.outputText);
+        return reuseCachedOutput(context, node.id);
+      }
+
+      updateNodeData(node.id, {
+        inputPrompt: text,
+        inputImages: images,
+        status: "loading",
+        error: null,
+      });
+
+      try {
+        logger.info('api.llm', 'Calling LLM API', {
+          nodeId: node.id,
+          provider: nodeData.provider,
+          model: nodeData.model,
+          temperature: nodeData.temperature,
+          maxTokens: nodeData.maxTokens,
+          hasImages: images.length > 0,
+          structuredOutput: !!responseSchema,
+          prompt: text,
+        });
+
+        // The output so far is shown while it streams in; outputText only changes once it is complete
+        const { result, attempts } = await callProvider(
+          context,
+          node,
+          (signal) => {
+            updateNodeData(node.id, { streamingText: null });
+            return services.generateText({
+              prompt: text,
+              ...(images.length > 0 && { images }),
+              provider: nodeData.provider,
+              model: nodeData.model,
+              temperature: nodeData.temperature,
+              maxTokens: nodeData.maxTokens,
+              ...(responseSchema && { responseSchema }),
+              ...(dryRun && { dryRun }),
+            }, signal, (streamingText) => {
+              // A timed out or cancelled attempt may still deliver a last chunk
+              if (!signal.aborted) updateNodeData(node.id, { streamingText });
+            }).then((result) => (responseSchema ? checkStructuredOutput(result, responseSchema) : result));
+          },
+          "LLM generation failed"
+        );
+
+        if (result.success && result.text) {
+          updateNodeData(node.id, {
+            outputText: result.text,
+            streamingText: null,
+            status: "complete",
+            error: null,
+            ...(inputHash && { inputHash }),
+          });
+
+          syncListChildren(context, node, result.text);
+          return true;
+        }
+
+        if (result.cancelled) {
+          updateNodeData(node.id, { streamingText: null });
+          return markCancelled(context, node.id, attempts);
+        }
+
+        logger.error('api.error', 'LLM generation failed', {
+          nodeId: node.id,
+          error: result.error,
+          status: result.status,
+          attempts,
+        });
+        updateNodeData(node.id, {
+          status: "error",
+          error: describeAttempts(result.error || "LLM generation failed", attempts),
+          streamingText: null,
+        });
+        return false;
+      } catch (error) {
+        logger.error('node.error', 'llmGenerate node execution failed', {
+          nodeId: node.id,
+        }, error instanceof Error ? error : undefined);
+        updateNodeData(node.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "LLM generation failed",
+          streamingText: null,
+        });
+        return false;
+      }
+    }
+
+    case "splitGrid": {
+      const sourceImage = inputs.images[0] || null;
+
+      if (!sourceImage) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "No input image connected",
+        });
+        return false;
+      }
+
+      const nodeData = node.data as SplitGridNodeData;
+
+      if (!nodeData.isConfigured) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Node not configured - open settings first",
+        });
+        return false;
+      }
+
+      if (!services.splitGrid) {
+        updateNodeData(node.id, {
+          status: "error",
+          error: "Splitting grids is not supported here",
+        });
+        return false;
+      }
+
+      updateNodeData(node.id, {
+        sourceImage,
+        status: "loading",
+        error: null,
+      });
+
+      try {
+        const cells = await services.splitGrid(sourceImage, nodeData.gridRows, nodeData.gridCols);
+
+        // Populate child imageInput nodes with split images
+        nodeData.childNodeIds.forEach((childSet, index) => {
+          const cell = cells[index];
+          if (!cell) return;
+          updateNodeData(childSet.imageInput, {
+            image: cell.image,
+            filename: `split-${Math.floor(index / nodeData.gridCols) + 1}-${(index % nodeData.gridCols) + 1}.png`,
+            dimensions: cell.dimensions,
+          });
+        });
+
+        updateNodeData(node.id, { status: "complete", error: null });
+        return true;
+      } catch (error) {
+        logger.error('node.error', 'splitGrid node execution failed', {
+          nodeId: node.id,
+        }, error instanceof Error ? error : undefined);
+        updateNodeData(node.id, {
+          status: "error",
+          error: error instanceof Error ? error.message : "Failed to split image",
+        });
+        return false;
+      }
+    }
+
+    case "output": {
+      const image = inputs.images[0] || null;
+      if (image) {
+        updateNodeData(node.id, { image });
+      }
+      return true;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Run the workflow in dependency order, executing independent branches in
+ * parallel up to maxConcurrency. Stops launching nodes after the first failure
+ * unless continueOnError is set, in which case only dependents of failed nodes
+ * are skipped.
+ */
+export async function runWorkflow(context: ExecutionContext, options: RunOptions): Promise<RunResult> {
+  const {
+    groups = {},
+    maxConcurrency,
+    startFromNodeId,
+    isResuming = false,
+    previouslyCompleted = new Set<string>(),
+    ignorePauseEdges = false,
+    continueOnError = false,
+    shouldContinue = () => true,
+  } = options;
+  const edges = context.getEdges();
+  const sorted = sortNodesTopologically(context.getNodes(), edges);
+
+  // If starting from a specific node, find its index and skip earlier nodes
+  let startIndex = 0;
+  if (startFromNodeId) {
+    const nodeIndex = sorted.findIndex((n) => n.id === startFromNodeId);
+    if (nodeIndex !== -1) {
+      startIndex = nodeIndex;
+    }
+  }
+
+  // Nodes this run is responsible for, in topological order. Anything before
+  // startIndex (or completed before a pause) counts as already satisfied.
+  const pending = sorted
+    .slice(startIndex)
+    .map((n) => n.id)
+    .filter((id) => !previouslyCompleted.has(id));
+  const pendingSet = new Set(pending);
+
+  const dependencies = new Map<string, string[]>();
+  pending.forEach((id) => {
+    const sources = edges
+      .filter((e) => e.target === id && pendingSet.has(e.source))
+      .map((e) => e.source);
+    dependencies.set(id, Array.from(new Set(sources)));
+  });
+
+  const completed = new Set<string>(previouslyCompleted);
+  // Left unrun because they hang off a branch a router didn't take
+  const branchSkipped = new Set<string>();
+  const failedNodeIds: string[] = [];
+  const inFlight = new Map<string, Promise<void>>();
+  const heldAtPause: string[] = [];
+
+  const isReady = (id: string) =>
+    (dependencies.get(id) || []).every((dep) => completed.has(dep) || branchSkipped.has(dep));
+
+  // A router's pick holds once it has run for this run - earlier in a sweep, before a
+  // pause or in the run being retried included. One in a locked group or before the
+  // start node picked in some other run, so none of its branches is skipped.
+  const isBranchOpen: BranchFilter = (router, handleId) =>
+    !completed.has(router.id) ||
+    !!(router.groupId && groups[router.groupId]?.locked) ||
+    isLastPick(router, handleId);
+
+  // Connections out of skipped nodes and untaken router branches carry nothing
+  const isEdgeActive = (edge: WorkflowEdge) => {
+    if (branchSkipped.has(edge.source)) return false;
+    const source = context.getNodes().find((n) => n.id === edge.source);
+    return source?.type !== "router" || isBranchOpen(source, edge.sourceHandle);
+  };
+
+  const isOnUntakenBranch = (id: string) => hasNoActiveInput(edges, id, isEdgeActive);
+
+  // Nodes read their inputs through active connections only, so outputs left
+  // from earlier runs on skipped branches aren't picked up
+  const activeContext: ExecutionContext = {
+    ...context,
+    getEdges: () => context.getEdges().filter(isEdgeActive),
+    isBranchOpen,
+  };
+
+  const launch = (node: WorkflowNode) => {
+    options.onNodeStart?.(node.id);
+    let succeeded = false;
+
+    const task = executeNode(activeContext, node.id, { force: options.force })
+      .then((ok) => {
+        succeeded = ok;
+        if (ok) {
+          completed.add(node.id);
+        } else if (context.getNodes().find((n) => n.id === node.id)?.data.status !== "cancelled") {
+          failedNodeIds.push(node.id);
+        }
+      })
+      .catch((error) => {
+        logger.error('node.error', 'Unexpected node execution failure', {
+          nodeId: node.id,
+        }, error instanceof Error ? error : undefined);
+        failedNodeIds.push(node.id);
+      })
+      .finally(() => {
+        inFlight.delete(node.id);
+        options.onNodeEnd?.(node.id, succeeded);
+      });
+
+    inFlight.set(node.id, task);
+  };
+
+  // Launch every ready node (up to the concurrency limit), then wait for
+  // any in-flight node to settle and look again
+  while (true) {
+    if (shouldContinue() && (continueOnError || failedNodeIds.length === 0)) {
+      let launchedOrSkipped = true;
+      while (launchedOrSkipped && inFlight.size < maxConcurrency) {
+        launchedOrSkipped = false;
+
+        for (let i = 0; i < pending.length && inFlight.size < maxConcurrency; i++) {
+          const nodeId = pending[i];
+          if (!isReady(nodeId)) continue;
+
+          const node = sorted.find((n) => n.id === nodeId)!;
+          pending.splice(i, 1);
+          i--;
+
+          if (isOnUntakenBranch(node.id)) {
+            logger.info('node.execution', 'Skipping node on an untaken branch', {
+              nodeId: node.id,
+              nodeType: node.type,
+            });
+            branchSkipped.add(node.id);
+            options.onNodeSkipped?.(node.id);
+            launchedOrSkipped = true;
+            continue;
+          }
+
+          // Check if node is in a locked group - if so, skip execution
+          const nodeGroup = node.groupId ? groups[node.groupId] : null;
+          if (nodeGroup?.locked) {
+            logger.info('node.execution', `Skipping node in locked group`, {
+              nodeId: node.id,
+              nodeType: node.type,
+              groupId: node.groupId,
+              groupName: nodeGroup.name,
+            });
+            completed.add(node.id);
+            launchedOrSkipped = true;
+            continue;
+          }
+
+          // Check for pause edges on incoming connections (skip if resuming from this exact node)
+          const isResumingThisNode = isResuming && node.id === startFromNodeId;
+          if (!ignorePauseEdges && !isResumingThisNode && edges.some((e) => e.target === node.id && e.data?.hasPause)) {
+            // Hold this branch; independent branches keep running until they drain
+            heldAtPause.push(node.id);
+            continue;
+          }
+
+          launch(node);
+          launchedOrSkipped = true;
+        }
+      }
+    }
+
+    if (inFlight.size === 0) break;
+    await Promise.race(inFlight.values());
+  }
+
+  // Whatever still waits on a failed node never got to run
+  const downstreamOfFailures = getDownstreamNodeIds(edges, failedNodeIds);
+  const skippedNodeIds = pending.filter((id) => downstreamOfFailures.has(id));
+  const result = {
+    completedNodeIds: completed,
+    failedNodeIds,
+    skippedNodeIds,
+    branchSkippedNodeIds: Array.from(branchSkipped),
+    pausedAtNodeId: null,
+  };
+
+  if (failedNodeIds.length > 0) {
+    return { ...result, status: "failed" };
+  }
+  if (!shouldContinue()) {
+    return { ...result, status: "stopped" };
+  }
+  if (heldAtPause.length > 0) {
+    // Pause at the earliest held node in topological order
+    const pausedAtNodeId = sorted.find((n) => heldAtPause.includes(n.id))!.id;
+    return { ...result, status: "paused", pausedAtNodeId };
+  }
+  return { ...result, status: "completed" };
+}
+
+// Context that sees the sweep sources holding one combination's items
+export function withSweepValues(context: ExecutionContext, combination: SweepCombination): ExecutionContext {
+  return {
+    ...context,
+    getNodes: () => applySweepOverrides(context.getNodes(), combination),
+    sweepValues: combination.values,
+  };
+}
+
+/**
+ * The graph as the next run reads its nodes' inputs, to tell whether cached outputs
+ * still match them. Subgraphs are inlined, list sources hold their first item, as
+ * in the first run of a sweep, and routers take the branches they took last.
+ */
+export function getRunGraph(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } {
+  const inlined = inlineSubgraphs(nodes, edges);
+  const [firstCombination] = getSweepCombinations(getSweepSources(inlined.nodes));
+  const runNodes = firstCombination ? applySweepOverrides(inlined.nodes, firstCombination) : inlined.nodes;
+
+  // Nodes on untaken branches pass nothing on. Repeated until nothing changes, as
+  // the graph may not be sortable while it is being edited.
+  const skipped = new Set<string>();
+  const isEdgeActive = (edge: WorkflowEdge) => {
+    if (skipped.has(edge.source)) return false;
+    const source = runNodes.find((n) => n.id === edge.source);
+    return source?.type !== "router" || isLastPick(source, edge.sourceHandle);
+  };
+  for (let changed = true; changed; ) {
+    changed = false;
+    runNodes.forEach((node) => {
+      if (!skipped.has(node.id) && hasNoActiveInput(inlined.edges, node.id, isEdgeActive)) {
+        skipped.add(node.id);
+        changed = true;
+      }
+    });
+  }
+
+  return { nodes: runNodes, edges: inlined.edges.filter(isEdgeActive) };
+}
+
+/**
+ * Context that sees subgraph nodes replaced by their inner graphs. Updates to
+ * inner nodes are written into the data of the subgraph node holding them.
+ */
+export function withSubgraphsInlined(context: ExecutionContext): ExecutionContext {
+  // Inlining copies every inner node, so reuse the result until the graph changes
+  let source: { nodes: WorkflowNode[]; edges: WorkflowEdge[] } | null = null;
+  let inlined: { nodes: WorkflowNode[]; edges: WorkflowEdge[] } | null = null;
+  const getInlined = () => {
+    const nodes = context.getNodes();
+    const edges = context.getEdges();
+    if (!inlined || source?.nodes !== nodes || source.edges !== edges) {
+      source = { nodes, edges };
+      inlined = inlineSubgraphs(nodes, edges);
+    }
+    return inlined;
+  };
+
+  return {
+    ...context,
+    getNodes: () => getInlined().nodes,
+    getEdges: () => getInlined().edges,
+    updateNodeData: (nodeId, data) => {
+      if (!isInlinedNodeId(nodeId)) {
+        context.updateNodeData(nodeId, data);
+        return;
+      }
+      const subgraphId = getTopLevelNodeId(nodeId);
+      const subgraphNode = context.getNodes().find((n) => n.id === subgraphId);
+      if (!subgraphNode) return;
+      const { subgraph } = subgraphNode.data as SubgraphNodeData;
+      context.updateNodeData(subgraphId, {
+        subgraph: updateSubgraphNodeData(subgraph, nodeId.slice(subgraphId.length + 1), data),
+      } as Partial<SubgraphNodeData>);
+    },
+  };
+}
+
+/**
+ * Run the workflow once per combination of sweep items. Nodes that don't depend
+ * on a list source run in the first iteration only. Pause edges are ignored and
+ * the sweep stops at the first iteration that doesn't complete.
+ */
+export async function runSweep(
+  context: ExecutionContext,
+  sources: SweepSource[],
+  options: SweepRunOptions
+): Promise<SweepRunResult> {
+  const combinations = getSweepCombinations(sources);
+  const downstream = getDownstreamNodeIds(context.getEdges(), sources.map((source) => source.nodeId));
+  const sharedCompleted = new Set<string>(options.previouslyCompleted);
+  let result: RunResult = {
+    status: "completed",
+    completedNodeIds: sharedCompleted,
+    failedNodeIds: [],
+    skippedNodeIds: [],
+    branchSkippedNodeIds: [],
+    pausedAtNodeId: null,
+  };
+
+  for (let index = 0; index < combinations.length; index++) {
+    const combination = combinations[index];
+    logger.info('workflow.start', `Sweep iteration ${index + 1} of ${combinations.length}`, {
+      sweepValues: combination.values,
+    });
+    options.onIterationStart?.(index, combinations.length, combination.values);
+
+    result = await runWorkflow(withSweepValues(context, combination), {
+      ...options,
+      ignorePauseEdges: true,
+      previouslyCompleted: new Set(sharedCompleted),
+    });
+    options.onIterationEnd?.(index, result);
+
+    if (result.status !== "completed") {
+      return { ...result, iterationsCompleted: index };
+    }
+
+    // Later iterations only repeat what depends on the list sources
+    result.completedNodeIds.forEach((nodeId) => {
+      if (!downstream.has(nodeId)) sharedCompleted.add(nodeId);
+    });
+  }
+
+  return { ...result, iterationsCompleted: combinations.length };
+}
@@ -0,0 +1,55 @@
+/**
+ * HTTP status and retry hints for provider failures
+ * Shared by the API routes and the headless runner so the engine's retry
+ * policy sees the upstream status and Retry-After either way
+ * Server-side only
+ */
+
+// Upstream request answered with an error status
+export class ProviderRequestError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+}
+
+// Provider not set up on this server, e.g. a missing API key - retrying won't help
+export class ProviderConfigurationError extends Error {
+  status = 501;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigurationError";
+  }
+}
+
+export interface ProviderErrorInfo {
+  status: number;
+  retryAfterMs?: number;
+}
+
+// Gemini puts the server's suggested wait in the error body: "retryDelay": "17s"
+const RETRY_DELAY_PATTERN = /"retryDelay":\s*"(\d+(?:\.\d+)?)s"/;
+
+export function getProviderErrorInfo(error: unknown): ProviderErrorInfo {
+  const message = error instanceof Error ? error.message : String(error);
+  const fields = error && typeof error === "object" ? (error as Record<string, unknown>) : {};
+
+  // Our own errors and the Gemini SDK's ApiError carry the status. An upstream 500 is
+  // passed on as 502, since 500 is kept for failures of our own - those fail the same
+  // way every time, so they aren't retried.
+  let status = 500;
+  if (typeof fields.status === "number" && fields.status >= 400 && fields.status < 600) {
+    status = fields.status === 500 ? 502 : fields.status;
+  }
+
+  if (typeof fields.retryAfterMs === "number") {
+    return { status, retryAfterMs: fields.retryAfterMs };
+  }
+  const retryDelay = message.match(RETRY_DELAY_PATTERN);
+  return retryDelay ? { status, retryAfterMs: parseFloat(retryDelay[1]) * 1000 } : { status };
+}
+
+// Headers telling the client how long to wait, in whole seconds
+export const getRetryAfterHeaders = ({ retryAfterMs }: ProviderErrorInfo): Record<string, string> =>
+  retryAfterMs === undefined ? {} : { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) };
@@ -0,0 +1,97 @@
+import { AspectRatio, ModelType, NanoBananaNodeData, Resolution } from "@/types";
+import { ImageModelDefinition } from "./types";
+
+/**
+ * Catalog of image generation models, grouped by provider.
+ *
+ * This file only holds metadata (capabilities and pricing) so it can be used by
+ * the UI and cost calculator. The matching server-side implementations live in
+ * the provider registry (registry.ts), which dispatches by `providerId`.
+ */
+
+export const ALL_ASPECT_RATIOS: AspectRatio[] = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
+export const IMAGE_PROVIDERS: { id: string; label: string }[] = [
+  { id: "gemini", label: "Google Gemini" },
+  { id: "mock", label: "Local Mock" },
+];
+
+export const IMAGE_MODELS: ImageModelDefinition[] = [
+  {
+    id: "nano-banana",
+    providerId: "gemini",
+    label: "Nano Banana",
+    shortLabel: "Standard",
+    capabilities: {
+      aspectRatios: ALL_ASPECT_RATIOS,
+      resolutions: ["1K"],
+      maxReferenceImages: 3,
+      supportsGoogleSearch: false,
+      supportsChat: true,
+      maxCandidates: 1,
+    },
+    pricing: { "1K": 0.039 },
+  },
+  {
+    id: "nano-banana-pro",
+    providerId: "gemini",
+    label: "Nano Banana Pro",
+    shortLabel: "Pro",
+    capabilities: {
+      aspectRatios: ALL_ASPECT_RATIOS,
+      resolutions: ["1K", "2K", "4K"],
+      maxReferenceImages: 14,
+      supportsGoogleSearch: true,
+      supportsChat: true,
+      maxCandidates: 1,
+    },
+    pricing: { "1K": 0.134, "2K": 0.134, "4K": 0.24 },
+  },
+  {
+    id: "mock-image",
+    providerId: "mock",
+    label: "Mock (offline)",
+    shortLabel: "Mock",
+    capabilities: {
+      aspectRatios: ALL_ASPECT_RATIOS,
+      resolutions: ["1K", "2K", "4K"],
+      maxReferenceImages: 16,
+      supportsGoogleSearch: false,
+      supportsChat: true,
+      maxCandidates: 4,
+    },
+    pricing: { "1K": 0, "2K": 0, "4K": 0 },
+  },
+];
+
+export function getImageModel(modelId: ModelType): ImageModelDefinition | undefined {
+  return IMAGE_MODELS.find((m) => m.id === modelId);
+}
+
+export function getImageModelLabel(modelId: ModelType): string {
+  return getImageModel(modelId)?.label ?? modelId;
+}
+
+// Models grouped by provider, in catalog order - used for <optgroup> model pickers
+export function getImageModelsByProvider(): { provider: { id: string; label: string }; models: ImageModelDefinition[] }[] {
+  return IMAGE_PROVIDERS.map((provider) => ({
+    provider,
+    models: IMAGE_MODELS.filter((m) => m.providerId === provider.id),
+  })).filter((group) => group.models.length > 0);
+}
+
+// Resolution actually used by a model: unsupported resolutions fall back to the model default
+export function getEffectiveResolution(modelId: ModelType, resolution: Resolution): Resolution {
+  const model = getImageModel(modelId);
+  if (!model) return resolution;
+  return model.capabilities.resolutions.includes(resolution)
+    ? resolution
+    : model.capabilities.resolutions[0];
+}
+
+// Images a generate node can ask for in one run
+export const MAX_CANDIDATE_COUNT = 4;
+
+// Images a generate node asks for per run - missing or invalid settings mean one, as does chat mode
+export const getCandidateCount = (data: Pick<NanoBananaNodeData, "candidateCount" | "chatMode">): number =>
+  data.chatMode ? 1 : Math.min(MAX_CANDIDATE_COUNT, Math.max(1, Math.round(data.candidateCount ?? 1) || 1));
@@ -0,0 +1,217 @@
+/**
+ * Google Gemini image provider (Nano Banana / Nano Banana Pro)
+ * Server-side only
+ */
+
+import { Content, GoogleGenAI, Part } from "@google/genai";
+import { ImageGenerationError, ImageGenerationRequest, ImageGenerationResult, ImageProvider } from "./types";
+
+// Map catalog model IDs to Gemini model IDs
+const MODEL_MAP: Record<string, string> = {
+  "nano-banana": "gemini-2.5-flash-image",
+  "nano-banana-pro": "gemini-3-pro-image-preview",
+};
+
+const MASK_INSTRUCTIONS =
+  "The next image is an inpainting mask for the first image. Only change the areas that are white in the mask " +
+  "and keep everything in the black areas exactly as it is. Do not draw the mask itself.";
+
+// Base64 data and MIME type of a data URL - bare base64 is assumed to be PNG
+function toInlineData(image: string): { data: string; mimeType: string } {
+  if (image.includes("base64,")) {
+    const [header, data] = image.split("base64,");
+    // Extract MIME type from header (e.g., "data:image/png;" -> "image/png")
+    const mimeMatch = header.match(/data:([^;]+)/);
+    return { data, mimeType: mimeMatch ? mimeMatch[1] : "image/png" };
+  }
+  return { data: image, mimeType: "image/png" };
+}
+
+// Earlier turns of a chat as alternating user and model messages
+function buildHistoryContents(history: ImageGenerationRequest["history"] = []): Content[] {
+  return history.flatMap((turn) => [
+    {
+      role: "user",
+      parts: [{ text: turn.prompt }, ...turn.images.map((image) => ({ inlineData: toInlineData(image) }))],
+    },
+    {
+      role: "model",
+      parts: [{ inlineData: toInlineData(turn.image), ...(turn.thoughtSignature && { thoughtSignature: turn.thoughtSignature }) }],
+    },
+  ]);
+}
+
+async function generate({
+  requestId,
+  model,
+  images,
+  prompt,
+  aspectRatio,
+  resolution,
+  useGoogleSearch,
+  history,
+  mask,
+  signal,
+}: ImageGenerationRequest): Promise<ImageGenerationResult> {
+  const apiKey = process.env.GEMINI_API_KEY as string;
+  const geminiModel = MODEL_MAP[model.id];
+  console.log(`[API:${requestId}]   - Gemini model: ${model.id} -> ${geminiModel}`);
+
+  console.log(`[API:${requestId}] Extracting image data...`);
+  // Extract base64 data and MIME types from data URLs
+  const imageData = images.map((image, idx) => {
+    const { data, mimeType } = toInlineData(image);
+    console.log(`[API:${requestId}]   Image ${idx + 1}: ${mimeType}, ${(data.length / 1024).toFixed(2)}KB base64`);
+    return { data, mimeType };
+  });
+
+  // Initialize Gemini client
+  console.log(`[API:${requestId}] Initializing Gemini client...`);
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Build request parts array with prompt and all images
+  console.log(`[API:${requestId}] Building request parts...`);
+  const requestParts: Part[] = [
+    { text: prompt },
+    ...imageData.map(({ data, mimeType }) => ({
+      inlineData: {
+        mimeType,
+        data,
+      },
+    })),
+  ];
+
+  // Gemini has no mask parameter - the mask goes last with instructions on how to read it
+  if (mask) {
+    requestParts.push(
+      { text: MASK_INSTRUCTIONS },
+      { inlineData: toInlineData(mask) }
+    );
+    console.log(`[API:${requestId}]   Added inpainting mask`);
+  }
+  console.log(`[API:${requestId}] Request parts count: ${requestParts.length} (1 text + ${imageData.length} images${mask ? " + mask" : ""})`);
+
+  // A chat sends the whole thread so the model edits its last answer
+  const historyContents = buildHistoryContents(history);
+  if (historyContents.length > 0) {
+    console.log(`[API:${requestId}] Chat history: ${history?.length} earlier turns`);
+  }
+
+  // Build config object based on model capabilities
+  console.log(`[API:${requestId}] Building generation config...`);
+  const config: any = {
+    responseModalities: ["IMAGE", "TEXT"],
+    ...(signal && { abortSignal: signal }),
+  };
+
+  if (aspectRatio && model.capabilities.aspectRatios.includes(aspectRatio)) {
+    config.imageConfig = {
+      aspectRatio,
+    };
+    console.log(`[API:${requestId}]   Added aspect ratio: ${aspectRatio}`);
+  }
+
+  // Only send a resolution to models that offer a choice
+  if (resolution && model.capabilities.resolutions.length > 1 && model.capabilities.resolutions.includes(resolution)) {
+    if (!config.imageConfig) {
+      config.imageConfig = {};
+    }
+    config.imageConfig.imageSize = resolution;
+    console.log(`[API:${requestId}]   Added resolution: ${resolution}`);
+  }
+
+  // Add tools array for Google Search
+  const tools = [];
+  if (model.capabilities.supportsGoogleSearch && useGoogleSearch) {
+    tools.push({ googleSearch: {} });
+    console.log(`[API:${requestId}]   Added Google Search tool`);
+  }
+
+  console.log(`[API:${requestId}] Final config:`, JSON.stringify(config, null, 2));
+  if (tools.length > 0) {
+    console.log(`[API:${requestId}] Tools:`, JSON.stringify(tools, null, 2));
+  }
+
+  // Make request to Gemini
+  console.log(`[API:${requestId}] Calling Gemini API...`);
+  const geminiStartTime = Date.now();
+
+  const response = await ai.models.generateContent({
+    model: geminiModel,
+    contents: [
+      ...historyContents,
+      {
+        role: "user",
+        parts: requestParts,
+      },
+    ],
+    config,
+    ...(tools.length > 0 && { tools }),
+  });
+
+  const geminiDuration = Date.now() - geminiStartTime;
+  console.log(`[API:${requestId}] Gemini API call completed in ${geminiDuration}ms`);
+
+  // Extract image from response
+  console.log(`[API:${requestId}] Processing response...`);
+  const candidates = response.candidates;
+  console.log(`[API:${requestId}] Candidates count: ${candidates?.length || 0}`);
+
+  if (!candidates || candidates.length === 0) {
+    console.error(`[API:${requestId}] ❌ No candidates in response`);
+    console.error(`[API:${requestId}] Full response:`, JSON.stringify(response, null, 2));
+    throw new ImageGenerationError("No response from AI model", 502);
+  }
+
+  const parts = candidates[0].content?.parts;
+  console.log(`[API:${requestId}] Parts count in first candidate: ${parts?.length || 0}`);
+
+  if (!parts) {
+    console.error(`[API:${requestId}] ❌ No parts in candidate content`);
+    console.error(`[API:${requestId}] Candidate:`, JSON.stringify(candidates[0], null, 2));
+    throw new ImageGenerationError("No content in response");
+  }
+
+  // Log all parts
+  parts.forEach((part, idx) => {
+    const partKeys = Object.keys(part);
+    console.log(`[API:${requestId}] Part ${idx + 1}: ${partKeys.join(', ')}`);
+  });
+
+  // Find image part in response
+  for (const part of parts) {
+    if (part.inlineData && part.inlineData.data) {
+      const mimeType = part.inlineData.mimeType || "image/png";
+      const data = part.inlineData.data;
+      const imageSizeKB = (data.length / 1024).toFixed(2);
+      console.log(`[API:${requestId}] ✓ Found image in response: ${mimeType}, ${imageSizeKB}KB base64`);
+
+      return {
+        image: `data:${mimeType};base64,${data}`,
+        ...(part.thoughtSignature && { thoughtSignature: part.thoughtSignature }),
+      };
+    }
+  }
+
+  // If no image found, check for text error
+  console.warn(`[API:${requestId}] ⚠ No image found in parts, checking for text...`);
+  for (const part of parts) {
+    if (part.text) {
+      console.error(`[API:${requestId}] ❌ Model returned text instead of image`);
+      console.error(`[API:${requestId}] Text preview: "${part.text.substring(0, 200)}"`);
+      throw new ImageGenerationError(`Model returned text instead of image: ${part.text.substring(0, 200)}`);
+    }
+  }
+
+  console.error(`[API:${requestId}] ❌ No image or text found in response`);
+  console.error(`[API:${requestId}] All parts:`, JSON.stringify(parts, null, 2));
+  throw new ImageGenerationError("No image in response");
+}
+
+export const geminiImageProvider: ImageProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  getConfigurationError: () =>
+    process.env.GEMINI_API_KEY ? null : "API key not configured. Add GEMINI_API_KEY to .env.local",
+  generate,
+};
@@ -0,0 +1,121 @@
+/**
+ * Resolve, validate and dispatch an image generation request
+ * Shared by the /api/generate route and the headless runner
+ * Server-side only
+ */
+
+import { GenerateRequest } from "@/types";
+import { isDryRunRequest } from "@/utils/dryRun-server";
+import { ProviderConfigurationError } from "@/providers/errors";
+import { MAX_CANDIDATE_COUNT, getImageModel } from "./catalog";
+import { getImageProvider } from "./registry";
+import { ImageGenerationError, ImageGenerationRequest, ImageGenerationResult, ImageProvider } from "./types";
+
+export interface GenerateImageResult {
+  image: string;
+  images: string[]; // Every candidate - image is the first
+  dryRun: boolean;
+  thoughtSignature?: string;
+}
+
+/**
+ * Generate several candidates with one request each, for models that return
+ * one image per request. Candidates that fail are left out; the whole request
+ * fails only if all of them do.
+ */
+async function generateInParallel(
+  provider: ImageProvider,
+  request: ImageGenerationRequest,
+  count: number
+): Promise<ImageGenerationResult> {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, () => provider.generate({ ...request, candidateCount: 1 }))
+  );
+  const images = results.flatMap((result) => (result.status === "fulfilled" ? [result.value.image] : []));
+
+  const failures = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+  if (images.length === 0) throw failures[0];
+  if (failures.length > 0) {
+    console.warn(`[API:${request.requestId}] ⚠ ${failures.length} of ${count} candidates failed:`, failures.map(String));
+  }
+
+  return { image: images[0], candidates: images };
+}
+
+export async function generateImage(
+  request: GenerateRequest,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<GenerateImageResult> {
+  const { images, prompt, model = "nano-banana-pro", aspectRatio, resolution, useGoogleSearch, history, candidateCount = 1, mask } = request;
+
+  const dryRun = isDryRunRequest(request);
+  const modelDefinition = getImageModel(model);
+  // Dry runs keep the requested model's capabilities but render with the mock provider
+  const provider = modelDefinition ? getImageProvider(dryRun ? "mock" : modelDefinition.providerId) : undefined;
+
+  console.log(`[API:${requestId}]   - Model: ${model} -> ${modelDefinition?.providerId || 'unknown provider'}`);
+  console.log(`[API:${requestId}]   - Dry run: ${dryRun}`);
+
+  if (!modelDefinition || !provider) {
+    throw new ImageGenerationError(`Unknown image model: ${model}`, 400);
+  }
+
+  const configurationError = provider.getConfigurationError();
+  if (configurationError) {
+    throw new ProviderConfigurationError(configurationError);
+  }
+
+  // Chat follow-ups edit the last answer, so they may come without images
+  const isChat = !!history && history.length > 0;
+  if (!prompt || (!isChat && (!images || images.length === 0))) {
+    throw new ImageGenerationError("At least one image and prompt are required", 400);
+  }
+
+  if (isChat && !modelDefinition.capabilities.supportsChat) {
+    throw new ImageGenerationError(`${modelDefinition.label} doesn't support chat`, 400);
+  }
+
+  if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_CANDIDATE_COUNT) {
+    throw new ImageGenerationError(`Candidate count must be between 1 and ${MAX_CANDIDATE_COUNT} (got ${candidateCount})`, 400);
+  }
+
+  // The mask is sent as one more image
+  if (mask && (!images || images.length === 0)) {
+    throw new ImageGenerationError("A mask needs an image to apply to", 400);
+  }
+
+  const referenceCount = (images?.length ?? 0) + (mask ? 1 : 0);
+  if (referenceCount > modelDefinition.capabilities.maxReferenceImages) {
+    throw new ImageGenerationError(
+      `${modelDefinition.label} accepts at most ${modelDefinition.capabilities.maxReferenceImages} reference images (got ${referenceCount}${mask ? " including the mask" : ""})`,
+      400
+    );
+  }
+
+  console.log(`[API:${requestId}] Dispatching to ${provider.label} provider...`);
+  const providerStartTime = Date.now();
+
+  const providerRequest: ImageGenerationRequest = {
+    requestId,
+    model: modelDefinition,
+    images: images || [],
+    prompt,
+    aspectRatio,
+    resolution,
+    useGoogleSearch,
+    ...(isChat && { history }),
+    ...(mask && { mask }),
+    signal,
+  };
+
+  // The mock renders any number of placeholders at once - parallel requests would all render the same one
+  const maxCandidates = dryRun ? MAX_CANDIDATE_COUNT : modelDefinition.capabilities.maxCandidates;
+  const { image, candidates, thoughtSignature } = candidateCount <= maxCandidates
+    ? await provider.generate({ ...providerRequest, ...(candidateCount > 1 && { candidateCount }) })
+    : await generateInParallel(provider, providerRequest, candidateCount);
+
+  console.log(`[API:${requestId}] Provider completed in ${Date.now() - providerStartTime}ms`);
+
+  return { image, images: candidates ?? [image], dryRun, ...(thoughtSignature && { thoughtSignature }) };
+}
@@ -0,0 +1,115 @@
+/**
+ * Local mock image provider
+ * Returns deterministic images derived from the request, so pipelines can be
+ * developed and tested offline without API keys or cost.
+ * Server-side only
+ */
+
+import { createHash } from "crypto";
+import { AspectRatio, Resolution } from "@/types";
+import { encodePngDataUrl } from "@/utils/png-server";
+import { drawText, getCharAdvance, GLYPH_HEIGHT, shadeRect, wrapText } from "@/utils/bitmapText";
+import { getEffectiveResolution } from "./catalog";
+import { ImageGenerationRequest, ImageGenerationResult, ImageProvider } from "./types";
+
+// Long edge in pixels per resolution - kept small, these are placeholders
+const LONG_EDGE: Record<Resolution, number> = {
+  "1K": 512,
+  "2K": 768,
+  "4K": 1024,
+};
+
+export function getMockDimensions(aspectRatio: AspectRatio = "1:1", resolution: Resolution = "1K") {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const longEdge = LONG_EDGE[resolution] ?? LONG_EDGE["1K"];
+  return w >= h
+    ? { width: longEdge, height: Math.round((longEdge * h) / w) }
+    : { width: Math.round((longEdge * w) / h), height: longEdge };
+}
+
+// Same inputs always produce the same seed
+export function getMockSeed(
+  request: Pick<ImageGenerationRequest, "prompt" | "images" | "aspectRatio" | "resolution" | "history" | "mask">
+): Buffer {
+  const hash = createHash("sha256");
+  hash.update(request.prompt);
+  hash.update(request.aspectRatio || "");
+  hash.update(request.resolution || "");
+  request.images.forEach((image) => hash.update(image));
+  request.history?.forEach((turn) => hash.update(turn.prompt));
+  if (request.mask) hash.update(request.mask);
+  return hash.digest();
+}
+
+// Diagonal gradient between two seeded colors with a seeded checker overlay
+export function renderMockPixels(width: number, height: number, seed: Buffer): Uint8Array {
+  const from = [seed[0], seed[1], seed[2]];
+  const to = [seed[3], seed[4], seed[5]];
+  const cell = 16 + (seed[6] % 48);
+
+  const rgb = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = (x + y) / (width + height);
+      const checker = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 === 0 ? 1 : 0.85;
+      const offset = (y * width + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        rgb[offset + c] = Math.round((from[c] + (to[c] - from[c]) * t) * checker);
+      }
+    }
+  }
+  return rgb;
+}
+
+// Stamp the request settings and prompt onto a darkened band at the top of the image
+export function annotateMockPixels(rgb: Uint8Array, width: number, height: number, lines: string[]): void {
+  const scale = Math.max(1, Math.round(width / 256));
+  const padding = 4 * scale;
+  const lineHeight = (GLYPH_HEIGHT + 3) * scale;
+  const maxChars = Math.max(1, Math.floor((width - padding * 2) / getCharAdvance(scale)));
+  const maxLines = Math.max(1, Math.floor((height - padding * 2) / lineHeight));
+
+  const [header, ...rest] = lines;
+  const wrapped = [header, ...rest.flatMap((line) => wrapText(line, maxChars, maxLines))]
+    .map((line) => line.slice(0, maxChars))
+    .slice(0, maxLines);
+
+  shadeRect(rgb, width, height, 0, 0, width, wrapped.length * lineHeight + padding * 2, [0, 0, 0], 0.6);
+  wrapped.forEach((line, index) => {
+    drawText(rgb, width, height, line, padding, padding + index * lineHeight, scale, [255, 255, 255]);
+  });
+}
+
+async function generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+  const { requestId, model, prompt, history, mask, aspectRatio = "1:1", candidateCount = 1 } = request;
+  const resolution = getEffectiveResolution(model.id, request.resolution ?? model.capabilities.resolutions[0]);
+  const { width, height } = getMockDimensions(aspectRatio, resolution);
+  const seed = getMockSeed(request);
+
+  // Other providers' models are only routed here in dry-run mode
+  const header = model.providerId === "mock" ? model.label : `${model.label} (dry run)`;
+  const settings = [
+    `${aspectRatio} / ${resolution}`,
+    ...(history?.length ? [`turn ${history.length + 1}`] : []),
+    ...(mask ? ["masked"] : []),
+  ].join(" / ");
+
+  // The first candidate keeps the request's seed, the others derive one from it
+  const candidates = Array.from({ length: candidateCount }, (_, index) => {
+    const candidateSeed = index === 0 ? seed : createHash("sha256").update(seed).update(String(index)).digest();
+    const pixels = renderMockPixels(width, height, candidateSeed);
+    const lines = candidateCount > 1 ? [header, `${settings} / ${index + 1} of ${candidateCount}`, prompt] : [header, settings, prompt];
+    annotateMockPixels(pixels, width, height, lines);
+    return encodePngDataUrl(width, height, pixels);
+  });
+
+  console.log(`[API:${requestId}] Mock provider rendered ${candidateCount} ${width}x${height} image(s)`);
+  return { image: candidates[0], ...(candidateCount > 1 && { candidates }) };
+}
+
+export const mockImageProvider: ImageProvider = {
+  id: "mock",
+  label: "Local Mock",
+  getConfigurationError: () => null,
+  generate,
+};
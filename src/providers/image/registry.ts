@@ -0,0 +1,21 @@
+/**
+ * Image provider registry
+ * Server-side only - the catalog (catalog.ts) is the client-safe view of the same models
+ */
+
+import { ImageProvider } from "./types";
+import { geminiImageProvider } from "./gemini";
+import { mockImageProvider } from "./mock";
+
+const providers = new Map<string, ImageProvider>();
+
+export function registerImageProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getImageProvider(providerId: string): ImageProvider | undefined {
+  return providers.get(providerId);
+}
+
+registerImageProvider(geminiImageProvider);
+registerImageProvider(mockImageProvider);
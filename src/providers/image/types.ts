@@ -0,0 +1,60 @@
+import { AspectRatio, ImageChatTurn, ModelType, Resolution } from "@/types";
+
+// What a model can accept - drives the generate node's settings UI and request validation
+export interface ImageModelCapabilities {
+  aspectRatios: AspectRatio[];
+  resolutions: Resolution[]; // First entry is the model's default
+  maxReferenceImages: number;
+  supportsGoogleSearch: boolean;
+  supportsChat: boolean; // Accepts earlier turns of a conversation with the request
+  maxCandidates: number; // Images one request can return - more are generated with parallel requests
+}
+
+// Catalog entry for a single image model. Safe to import on the client.
+export interface ImageModelDefinition {
+  id: ModelType; // Value stored in NanoBananaNodeData.model
+  providerId: string;
+  label: string;
+  shortLabel: string;
+  capabilities: ImageModelCapabilities;
+  pricing: Partial<Record<Resolution, number>>; // USD per image, keyed by supported resolution
+}
+
+export interface ImageGenerationRequest {
+  requestId: string;
+  model: ImageModelDefinition;
+  images: string[]; // Base64 data URLs
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  resolution?: Resolution;
+  useGoogleSearch?: boolean;
+  history?: ImageChatTurn[]; // Earlier turns, oldest first - only sent to models that support chat
+  candidateCount?: number; // Never more than the model's maxCandidates
+  mask?: string; // Base64 data URL - white marks the region of the first image to change
+  signal?: AbortSignal; // Aborted when the caller stops waiting for the image
+}
+
+export interface ImageGenerationResult {
+  image: string; // Base64 data URL
+  candidates?: string[]; // Every image when more than one was asked for - image is the first
+  thoughtSignature?: string;
+}
+
+// Error thrown by providers when the upstream model answered but produced no usable image.
+// That answer would most likely come back the same, so it isn't retried - upstream
+// failures pass 502.
+export class ImageGenerationError extends Error {
+  constructor(message: string, public status: number = 422) {
+    super(message);
+    this.name = "ImageGenerationError";
+  }
+}
+
+// Server-side implementation of a provider registered with the image provider registry
+export interface ImageProvider {
+  id: string;
+  label: string;
+  // Returns an error message when the provider can't be used (e.g. missing API key)
+  getConfigurationError: () => string | null;
+  generate: (request: ImageGenerationRequest) => Promise<ImageGenerationResult>;
+}
@@ -0,0 +1,334 @@
+/**
+ * LLM text generation for the supported providers
+ * Shared by the /api/llm route and the headless runner
+ * Server-side only
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { LLMGenerateRequest, LLMModelType } from "@/types";
+import { logger } from "@/utils/logger";
+import { isDryRunRequest } from "@/utils/dryRun-server";
+import { parseRetryAfter } from "@/utils/retry";
+import { readServerSentEvents } from "@/utils/sse";
+import { JsonSchema, sampleJson } from "@/utils/structuredOutput";
+import { ProviderConfigurationError, ProviderRequestError } from "@/providers/errors";
+import {
+  ChatCompletionsEndpoint,
+  OPENAI_ENDPOINT_BASE_URL,
+  getAuthorizationHeaders,
+  getCompatibleEndpoint,
+} from "./openaiCompatible";
+
+// Request rejected before reaching a provider - carries the HTTP status to report
+export class LLMGenerationError extends Error {
+  constructor(message: string, public status = 500) {
+    super(message);
+    this.name = "LLMGenerationError";
+  }
+}
+
+export interface GenerateTextResult {
+  text: string;
+  dryRun: boolean;
+}
+
+// Receives each piece of the output as the provider streams it
+export type TextDeltaHandler = (delta: string) => void;
+
+// Map model types to actual API model IDs
+const GOOGLE_MODEL_MAP: Record<string, string> = {
+  "gemini-2.5-flash": "gemini-2.5-flash",
+  "gemini-3-flash-preview": "gemini-3-flash-preview",
+  "gemini-3-pro-preview": "gemini-3-pro-preview",
+};
+
+const OPENAI_MODEL_MAP: Record<string, string> = {
+  "gpt-4.1-mini": "gpt-4.1-mini",
+  "gpt-4.1-nano": "gpt-4.1-nano",
+};
+
+async function generateWithGoogle(
+  prompt: string,
+  model: LLMModelType,
+  temperature: number,
+  maxTokens: number,
+  images?: string[],
+  responseSchema?: JsonSchema,
+  requestId?: string,
+  signal?: AbortSignal,
+  onDelta?: TextDeltaHandler
+): Promise<string> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    logger.error('api.error', 'GEMINI_API_KEY not configured', { requestId });
+    throw new ProviderConfigurationError("GEMINI_API_KEY not configured");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const modelId = GOOGLE_MODEL_MAP[model];
+
+  logger.info('api.llm', 'Calling Google AI API', {
+    requestId,
+    model: modelId,
+    temperature,
+    maxTokens,
+    imageCount: images?.length || 0,
+    promptLength: prompt.length,
+  });
+
+  // Build multimodal content if images are provided
+  let contents: string | Array<{ inlineData: { mimeType: string; data: string } } | { text: string }>;
+  if (images && images.length > 0) {
+    contents = [
+      ...images.map((img) => {
+        // Extract base64 data and mime type from data URL
+        const matches = img.match(/^data:(.+?);base64,(.+)$/);
+        if (matches) {
+          return {
+            inlineData: {
+              mimeType: matches[1],
+              data: matches[2],
+            },
+          };
+        }
+        // Fallback: assume PNG if no data URL prefix
+        return {
+          inlineData: {
+            mimeType: "image/png",
+            data: img,
+          },
+        };
+      }),
+      { text: prompt },
+    ];
+  } else {
+    contents = prompt;
+  }
+
+  const startTime = Date.now();
+  const params = {
+    model: modelId,
+    contents,
+    config: {
+      temperature,
+      maxOutputTokens: maxTokens,
+      ...(responseSchema && { responseMimeType: "application/json", responseJsonSchema: responseSchema }),
+      ...(signal && { abortSignal: signal }),
+    },
+  };
+
+  // Use the convenient .text property that concatenates all text parts
+  let text: string | undefined;
+  if (onDelta) {
+    text = "";
+    for await (const chunk of await ai.models.generateContentStream(params)) {
+      const delta = chunk.text;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    }
+  } else {
+    text = (await ai.models.generateContent(params)).text;
+  }
+  const duration = Date.now() - startTime;
+
+  if (!text) {
+    logger.error('api.error', 'No text in Google AI response', { requestId });
+    throw new ProviderRequestError("No text in Google AI response", 502);
+  }
+
+  logger.info('api.llm', 'Google AI API response received', {
+    requestId,
+    duration,
+    responseLength: text.length,
+  });
+
+  return text;
+}
+
+// OpenAI itself, or the configured OpenAI-compatible server with the model IDs it lists
+function getChatCompletionsTarget(
+  provider: "openai" | "openai-compatible",
+  model: LLMModelType,
+  requestId?: string
+): { endpoint: ChatCompletionsEndpoint; modelId: string } {
+  if (provider === "openai-compatible") {
+    const endpoint = getCompatibleEndpoint();
+    if (!endpoint) {
+      logger.error('api.error', 'OPENAI_COMPATIBLE_BASE_URL not configured', { requestId });
+      throw new ProviderConfigurationError("OPENAI_COMPATIBLE_BASE_URL not configured");
+    }
+    if (!model) {
+      throw new LLMGenerationError("No model selected", 400);
+    }
+    return { endpoint, modelId: model };
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    logger.error('api.error', 'OPENAI_API_KEY not configured', { requestId });
+    throw new ProviderConfigurationError("OPENAI_API_KEY not configured");
+  }
+  return { endpoint: { name: "OpenAI", baseUrl: OPENAI_ENDPOINT_BASE_URL, apiKey }, modelId: OPENAI_MODEL_MAP[model] };
+}
+
+async function generateWithChatCompletions(
+  { endpoint, modelId }: { endpoint: ChatCompletionsEndpoint; modelId: string },
+  prompt: string,
+  temperature: number,
+  maxTokens: number,
+  images?: string[],
+  responseSchema?: JsonSchema,
+  requestId?: string,
+  signal?: AbortSignal,
+  onDelta?: TextDeltaHandler
+): Promise<string> {
+  logger.info('api.llm', `Calling ${endpoint.name} API`, {
+    requestId,
+    baseUrl: endpoint.baseUrl,
+    model: modelId,
+    temperature,
+    maxTokens,
+    imageCount: images?.length || 0,
+    promptLength: prompt.length,
+  });
+
+  // Build content array for vision if images are provided
+  let content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+  if (images && images.length > 0) {
+    content = [
+      { type: "text", text: prompt },
+      ...images.map((img) => ({
+        type: "image_url" as const,
+        image_url: { url: img },
+      })),
+    ];
+  } else {
+    content = prompt;
+  }
+
+  const startTime = Date.now();
+  const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...getAuthorizationHeaders(endpoint),
+    },
+    body: JSON.stringify({
+      model: modelId,
+      messages: [{ role: "user", content }],
+      temperature,
+      max_tokens: maxTokens,
+      // Not strict: strict mode rejects schemas that leave properties optional. The engine checks the output.
+      ...(responseSchema && {
+        response_format: { type: "json_schema", json_schema: { name: "output", schema: responseSchema, strict: false } },
+      }),
+      ...(onDelta && { stream: true }),
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    logger.error('api.error', `${endpoint.name} API request failed`, {
+      requestId,
+      status: response.status,
+      error: error.error?.message,
+    });
+    throw new ProviderRequestError(
+      error.error?.message || `${endpoint.name} API error: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
+  }
+
+  let text: string | undefined;
+  if (onDelta && response.body) {
+    text = "";
+    await readServerSentEvents(response.body, (data) => {
+      if (data === "[DONE]") return;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta(delta);
+      }
+    });
+  } else {
+    const data = await response.json();
+    text = data.choices?.[0]?.message?.content;
+  }
+  const duration = Date.now() - startTime;
+
+  if (!text) {
+    logger.error('api.error', `No text in ${endpoint.name} response`, { requestId });
+    throw new ProviderRequestError(`No text in ${endpoint.name} response`, 502);
+  }
+
+  logger.info('api.llm', `${endpoint.name} API response received`, {
+    requestId,
+    duration,
+    responseLength: text.length,
+  });
+
+  return text;
+}
+
+// Dry-run mode: echo the request back so downstream nodes still receive text
+function generateDryRun(
+  prompt: string,
+  provider: string,
+  model: LLMModelType,
+  images?: string[],
+  responseSchema?: JsonSchema,
+  requestId?: string
+): string {
+  logger.info('api.llm', 'Dry run - skipping provider call', { requestId, provider, model });
+
+  const imageNote = images && images.length > 0 ? ` (+${images.length} image${images.length === 1 ? "" : "s"})` : "";
+  const text = `[Dry run: ${provider}/${model}${imageNote}] ${prompt}`;
+  // Structured output gets JSON of the right shape so field outputs have something to pass on
+  return responseSchema ? JSON.stringify(sampleJson(responseSchema, text), null, 2) : text;
+}
+
+// Pass onDelta to stream the output; the full text is still returned at the end
+export async function generateText(
+  request: LLMGenerateRequest,
+  requestId: string,
+  signal?: AbortSignal,
+  onDelta?: TextDeltaHandler
+): Promise<GenerateTextResult> {
+  const {
+    prompt,
+    images,
+    provider,
+    model,
+    temperature = 0.7,
+    maxTokens = 1024,
+    responseSchema,
+  } = request;
+
+  if (!prompt) {
+    throw new LLMGenerationError("Prompt is required", 400);
+  }
+
+  const dryRun = isDryRunRequest(request);
+  let text: string;
+
+  if (dryRun) {
+    text = generateDryRun(prompt, provider, model, images, responseSchema, requestId);
+    onDelta?.(text);
+  } else if (provider === "google") {
+    text = await generateWithGoogle(prompt, model, temperature, maxTokens, images, responseSchema, requestId, signal, onDelta);
+  } else if (provider === "openai" || provider === "openai-compatible") {
+    const target = getChatCompletionsTarget(provider, model, requestId);
+    text = await generateWithChatCompletions(
+      target, prompt, temperature, maxTokens, images, responseSchema, requestId, signal, onDelta
+    );
+  } else {
+    logger.warn('api.llm', 'Unknown provider requested', { requestId, provider });
+    throw new LLMGenerationError(`Unknown provider: ${provider}`, 400);
+  }
+
+  return { text, dryRun };
+}
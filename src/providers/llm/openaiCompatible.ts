@@ -0,0 +1,64 @@
+/**
+ * OpenAI-compatible LLM servers (llama.cpp, Ollama, LM Studio, vLLM, ...)
+ * Configured with OPENAI_COMPATIBLE_BASE_URL and an optional OPENAI_COMPATIBLE_API_KEY
+ * Server-side only
+ */
+
+import { logger } from "@/utils/logger";
+import { ProviderConfigurationError, ProviderRequestError } from "@/providers/errors";
+
+export interface ChatCompletionsEndpoint {
+  name: string; // For logs and error messages
+  baseUrl: string; // Up to and including the API version, e.g. http://localhost:11434/v1
+  apiKey?: string;
+}
+
+export const OPENAI_ENDPOINT_BASE_URL = "https://api.openai.com/v1";
+
+// Null when no server is configured
+export function getCompatibleEndpoint(): ChatCompletionsEndpoint | null {
+  const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL?.trim();
+  if (!baseUrl) return null;
+  return {
+    name: "OpenAI-compatible server",
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || undefined,
+  };
+}
+
+export const getAuthorizationHeaders = (endpoint: ChatCompletionsEndpoint): Record<string, string> =>
+  endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {};
+
+// Model IDs the server lists at /models, sorted
+export async function listCompatibleModels(requestId: string, signal?: AbortSignal): Promise<string[]> {
+  const endpoint = getCompatibleEndpoint();
+  if (!endpoint) {
+    logger.error('api.error', 'OPENAI_COMPATIBLE_BASE_URL not configured', { requestId });
+    throw new ProviderConfigurationError("OPENAI_COMPATIBLE_BASE_URL not configured");
+  }
+
+  const response = await fetch(`${endpoint.baseUrl}/models`, {
+    headers: getAuthorizationHeaders(endpoint),
+    signal,
+  });
+  if (!response.ok) {
+    logger.error('api.error', 'Listing models failed', {
+      requestId,
+      baseUrl: endpoint.baseUrl,
+      status: response.status,
+    });
+    throw new ProviderRequestError(`${endpoint.name} error listing models: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  const models: string[] = Array.isArray(data.data)
+    ? data.data.map((model: { id?: unknown }) => model.id).filter((id: unknown): id is string => typeof id === "string")
+    : [];
+
+  logger.info('api.llm', 'Listed OpenAI-compatible models', {
+    requestId,
+    baseUrl: endpoint.baseUrl,
+    modelCount: models.length,
+  });
+  return models.sort();
+}
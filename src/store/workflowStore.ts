@@ -17,24 +17,72 @@ import {
   PromptNodeData,
   NanoBananaNodeData,
   LLMGenerateNodeData,
+  MaskNodeData,
+  ImageTransformNodeData,
+  CombineGridNodeData,
+  RouterNodeData,
   SplitGridNodeData,
   OutputNodeData,
+  SubgraphNodeData,
   WorkflowNodeData,
   ImageHistoryItem,
   WorkflowSaveConfig,
   WorkflowCostData,
   NodeGroup,
   GroupColor,
+  RunRecord,
+  RunRecordStatus,
+  RunSummary,
+  RetryPolicy,
+  SubgraphDefinition,
+  SubgraphLibraryEntry,
 } from "@/types";
 import { useToast } from "@/components/Toast";
-import { calculateGenerationCost } from "@/utils/costCalculator";
 import { logger } from "@/utils/logger";
+import { collectNodeStrings, isImageRef, replaceNodeStrings } from "@/utils/imageRefs";
+import { CURRENT_WORKFLOW_VERSION, formatIssues, prepareWorkflowFile } from "@/utils/workflowSchema";
+import { ExecutionContext } from "@/engine/types";
+import {
+  DEFAULT_MAX_CONCURRENCY,
+  executeNode,
+  getConnectedInputs,
+  runSweep,
+  runWorkflow,
+  withSubgraphsInlined,
+  withSweepValues,
+} from "@/engine/workflowEngine";
+import { browserServices } from "@/engine/browserServices";
+import {
+  MAX_SWEEP_COMBINATIONS,
+  countSweepCombinations,
+  getSweepCombinations,
+  getSweepSources,
+} from "@/utils/sweep";
+import { getTemplateHandleId, getTemplateVariables } from "@/utils/promptTemplate";
+import { RunRecorder } from "@/utils/runHistory";
+import { getListItems } from "@/utils/listExpansion";
+import { DEFAULT_RETRY_POLICY, resolveRetryPolicy } from "@/utils/retry";
+import { DEFAULT_IMAGE_TRANSFORM } from "@/utils/imageTransform";
+import { DEFAULT_GRID_COMBINE } from "@/utils/gridCombiner";
+import { createRouterBranch } from "@/utils/router";
+import {
+  ExposableHandle,
+  buildSubgraph,
+  clearSubgraphResults,
+  connectSubgraphPorts,
+  expandSubgraphNodes,
+  findInlinedNode,
+  getTopLevelNodeId,
+  inlineSubgraphs,
+} from "@/utils/subgraph";
 
 export type EdgeStyle = "angular" | "curved";
 
 // Workflow file format
+// Version 1 embeds images as data URLs; version 2 may reference images stored
+// next to the workflow file instead (see utils/imageRefs.ts)
 export interface WorkflowFile {
-  version: 1;
+  version: 1 | 2;
   id?: string;  // Optional for backward compatibility with old/shared workflows
   name: string;
   nodes: WorkflowNode[];
@@ -49,6 +97,20 @@ interface ClipboardData {
   edges: WorkflowEdge[];
 }
 
+// Undo/redo snapshot of the editable graph
+// What clearing a workflow resets besides the graph
+type WorkflowMetadata = Pick<
+  WorkflowStore,
+  "workflowId" | "workflowName" | "saveDirectoryPath" | "generationsPath" | "lastSavedAt" | "incurredCost" | "runHistory"
+>;
+
+interface HistorySnapshot {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  groups: Record<string, NodeGroup>;
+  metadata?: WorkflowMetadata; // Only on steps that changed it - see clearWorkflow
+}
+
 interface WorkflowStore {
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
@@ -59,10 +121,18 @@ interface WorkflowStore {
   // Settings
   setEdgeStyle: (style: EdgeStyle) => void;
 
+  // Undo/redo
+  historyPast: HistorySnapshot[];
+  historyFuture: HistorySnapshot[];
+  pushHistory: (key?: string) => void;
+  undo: () => void;
+  redo: () => void;
+
   // Node operations
   addNode: (type: NodeType, position: XYPosition) => string;
   updateNodeData: (nodeId: string, data: Partial<WorkflowNodeData>) => void;
   removeNode: (nodeId: string) => void;
+  expandList: (nodeId: string) => void; // One linked prompt + generate pair per item of an LLM node's list
   onNodesChange: (changes: NodeChange<WorkflowNode>[]) => void;
 
   // Edge operations
@@ -87,6 +157,12 @@ interface WorkflowStore {
   moveGroupNodes: (groupId: string, delta: { x: number; y: number }) => void;
   setNodeGroupId: (nodeId: string, groupId: string | undefined) => void;
 
+  // Subgraph operations
+  collapseGroup: (groupId: string, exposed: { inputs: ExposableHandle[]; outputs: ExposableHandle[] }) => string;
+  expandSubgraph: (nodeId: string) => void;
+  addSubgraphFromLibrary: (entry: SubgraphLibraryEntry, position: XYPosition) => string;
+  saveSubgraphToLibrary: (nodeId: string) => Promise<boolean>;
+
   // UI State
   openModalCount: number;
   isModalOpen: boolean;
@@ -94,21 +170,38 @@ interface WorkflowStore {
   decrementModalCount: () => void;
 
   // Execution
-  isRunning: boolean;
-  currentNodeId: string | null;
+  isRunning: boolean; // Until the run has settled, even after Stop
+  isStopping: boolean; // Stop was pressed and the calls in flight are being cancelled
+  currentNodeIds: string[];
   pausedAtNodeId: string | null;
-  executeWorkflow: (startFromNodeId?: string) => Promise<void>;
-  regenerateNode: (nodeId: string) => Promise<void>;
+  sweepProgress: { current: number; total: number } | null; // 1-based iteration while a sweep runs
+  maxConcurrency: number;
+  setMaxConcurrency: (value: number) => void;
+  dryRun: boolean;
+  setDryRun: (enabled: boolean) => void;
+  retryPolicy: RetryPolicy;
+  setRetryPolicy: (policy: Partial<RetryPolicy>) => void;
+  continueOnError: boolean;
+  setContinueOnError: (enabled: boolean) => void;
+  // keepNodeIds: nodes whose current outputs count as done and are not run again
+  executeWorkflow: (startFromNodeId?: string, options?: { force?: boolean; keepNodeIds?: string[] }) => Promise<void>;
+  regenerateNode: (nodeId: string, options?: { chatMessage?: string }) => Promise<void>;
   stopWorkflow: () => void;
+  runSummary: RunSummary | null; // Set when a run ends with failed nodes, and after every continue-on-error run
+  branchSkippedNodeIds: string[]; // Left out of the current or last run by a router
+  dismissRunSummary: () => void;
+  retryFailedNodes: () => Promise<void>;
 
   // Save/Load
-  saveWorkflow: (name?: string) => void;
-  loadWorkflow: (workflow: WorkflowFile) => void;
+  saveWorkflow: (name?: string) => Promise<void>;
+  loadWorkflow: (workflow: WorkflowFile) => void; // Throws WorkflowValidationError for invalid files
   clearWorkflow: () => void;
+  // Loads referenced images from the project folder - those of some nodes, or all of them
+  hydrateWorkflowImages: (nodeIds?: string[]) => Promise<void>;
 
   // Helpers
   getNodeById: (id: string) => WorkflowNode | undefined;
-  getConnectedInputs: (nodeId: string) => { images: string[]; text: string | null };
+  getConnectedInputs: (nodeId: string) => { images: string[]; text: string | null; mask: string | null };
   validateWorkflow: () => { valid: boolean; errors: string[] };
 
   // Global Image History
@@ -116,6 +209,12 @@ interface WorkflowStore {
   addToGlobalHistory: (item: Omit<ImageHistoryItem, "id">) => void;
   clearGlobalHistory: () => void;
 
+  // Run history - newest first
+  runHistory: RunRecord[];
+  addRunRecord: (record: RunRecord) => void;
+  loadRunHistory: () => Promise<void>;
+  restoreRunOutput: (runId: string, entryIndex: number) => Promise<boolean>;
+
   // Auto-save state
   workflowId: string | null;
   workflowName: string | null;
@@ -214,6 +313,46 @@ const createDefaultNodeData = (type: NodeType): WorkflowNodeData => {
       return {
         image: null,
       } as OutputNodeData;
+    case "subgraph":
+      return {
+        subgraph: { name: "Subgraph", nodes: [], edges: [], inputs: [], outputs: [] },
+      } as SubgraphNodeData;
+    case "mask":
+      return {
+        sourceImage: null,
+        strokes: [],
+        mask: null,
+      } as MaskNodeData;
+    case "imageTransform":
+      return {
+        sourceImage: null,
+        outputImage: null,
+        ...DEFAULT_IMAGE_TRANSFORM,
+        status: "idle",
+        error: null,
+      } as ImageTransformNodeData;
+    case "combineGrid":
+      return {
+        inputImages: [],
+        outputImage: null,
+        ...DEFAULT_GRID_COMBINE,
+        status: "idle",
+        error: null,
+      } as CombineGridNodeData;
+    case "router":
+      return {
+        mode: "rule",
+        branches: [createRouterBranch("A"), createRouterBranch("B")],
+        caseSensitive: false,
+        question: "",
+        provider: "google",
+        model: "gemini-3-flash-preview",
+        inputText: null,
+        inputImages: [],
+        selectedBranch: null,
+        status: "idle",
+        error: null,
+      } as RouterNodeData;
   }
 };
 
@@ -221,6 +360,153 @@ let nodeIdCounter = 0;
 let groupIdCounter = 0;
 let autoSaveIntervalId: ReturnType<typeof setInterval> | null = null;
 
+// Nodes that completed before the workflow paused, so resuming doesn't re-run them
+let resumeCompletedNodeIds: Set<string> | null = null;
+
+// Aborts the provider calls of the current run or regeneration when Stop is pressed
+let runAbortController: AbortController | null = null;
+
+// Referenced images are loaded as their nodes come into view. Loads in flight are shared,
+// and refs that weren't found aren't tried again while scrolling around.
+const imageLoads = new Map<string, Promise<void>>();
+const missingImageRefs = new Set<string>();
+const IMAGE_HYDRATION_CONCURRENCY = 4;
+
+// Fetch referenced images from a project folder, sharing loads already in flight
+async function loadImageRefs(
+  refs: string[],
+  directoryPath: string,
+  onLoaded: (loaded: Map<string, string>) => void
+): Promise<void> {
+  const inFlight = refs.flatMap((ref) => imageLoads.get(ref) ?? []);
+  const queue = refs.filter((ref) => !imageLoads.has(ref));
+  const started = [...queue];
+
+  const run = (async () => {
+    const loaded = new Map<string, string>();
+    const failed: string[] = [];
+
+    const worker = async () => {
+      for (let ref = queue.shift(); ref; ref = queue.shift()) {
+        try {
+          const response = await fetch("/api/load-image", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ directoryPath, ref }),
+          });
+          const result = await response.json();
+          if (result.success && result.image) {
+            loaded.set(ref, result.image);
+            missingImageRefs.delete(ref);
+          } else {
+            failed.push(ref);
+          }
+        } catch {
+          failed.push(ref);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: IMAGE_HYDRATION_CONCURRENCY }, worker));
+
+    if (loaded.size > 0) onLoaded(loaded);
+    logger.info('file.load', 'Referenced images loaded', {
+      directoryPath,
+      loaded: loaded.size,
+      failed: failed.length,
+    });
+    // Reported once - scrolling past them again doesn't retry
+    const newlyMissing = failed.filter((ref) => !missingImageRefs.has(ref));
+    failed.forEach((ref) => missingImageRefs.add(ref));
+    if (newlyMissing.length > 0) {
+      useToast
+        .getState()
+        .show(
+          `${newlyMissing.length} image${newlyMissing.length === 1 ? "" : "s"} could not be found in ${directoryPath}`,
+          "warning"
+        );
+    }
+  })();
+
+  started.forEach((ref) => imageLoads.set(ref, run));
+  try {
+    await Promise.all([run, ...inFlight]);
+  } finally {
+    started.forEach((ref) => {
+      if (imageLoads.get(ref) === run) imageLoads.delete(ref);
+    });
+  }
+}
+
+// Runs send images to the APIs, so every ref has to be loaded first. False if some can't be.
+async function loadImagesForRun(get: () => WorkflowStore): Promise<boolean> {
+  await get().hydrateWorkflowImages();
+  const unresolved = collectNodeStrings(get().nodes, isImageRef).length;
+  if (unresolved === 0) return true;
+
+  const { saveDirectoryPath } = get();
+  logger.warn('workflow.start', 'Run refused: referenced images are not loaded', {
+    unresolved,
+    directoryPath: saveDirectoryPath,
+  });
+  const images = `${unresolved} image${unresolved === 1 ? "" : "s"}`;
+  useToast
+    .getState()
+    .show(
+      saveDirectoryPath
+        ? `Can't run - ${images} could not be found in ${saveDirectoryPath}`
+        : `Can't run - set this workflow's project folder in project settings to load its ${images}`,
+      "error"
+    );
+  return false;
+}
+
+// Undo/redo history. Everything a single event handler changes is one step,
+// and steps pushed with the same key in quick succession (drags, typing) are merged.
+const MAX_HISTORY = 50;
+const HISTORY_MERGE_WINDOW_MS = 1000;
+let lastHistoryKey: string | null = null;
+let lastHistoryAt = 0;
+let historyStepOpen = false;
+
+// Execution state that undo/redo leaves alone
+const TRANSIENT_DATA_FIELDS = ["status", "error", "streamingText", "attempts"];
+// Written by runs, never an undo step of their own. The input hash is still undone along
+// with the output it describes, or an undone output would count as cached.
+const RUN_DATA_FIELDS = [...TRANSIENT_DATA_FIELDS, "inputHash"];
+
+const getWorkflowMetadata = (state: WorkflowStore): WorkflowMetadata => ({
+  workflowId: state.workflowId,
+  workflowName: state.workflowName,
+  saveDirectoryPath: state.saveDirectoryPath,
+  generationsPath: state.generationsPath,
+  lastSavedAt: state.lastSavedAt,
+  incurredCost: state.incurredCost,
+  runHistory: state.runHistory,
+});
+
+const resetHistoryMerge = () => {
+  lastHistoryKey = null;
+  lastHistoryAt = 0;
+};
+
+// Swap the graph for a snapshot, keeping live execution status and selection
+const restoreSnapshot = (snapshot: HistorySnapshot, currentNodes: WorkflowNode[]) => {
+  const currentById = new Map(currentNodes.map((node) => [node.id, node]));
+  const nodes = snapshot.nodes.map((node) => {
+    const current = currentById.get(node.id);
+    const data = { ...node.data } as Record<string, unknown>;
+    TRANSIENT_DATA_FIELDS.forEach((field) => {
+      if (current && field in current.data) {
+        data[field] = current.data[field];
+      } else if (field === "status" && data.status === "loading") {
+        data.status = "idle";
+      }
+    });
+    return { ...node, data, selected: current?.selected ?? false } as WorkflowNode;
+  });
+  return { nodes, edges: snapshot.edges, groups: snapshot.groups };
+};
+
 // Group color palette (dark mode tints)
 export const GROUP_COLORS: Record<GroupColor, string> = {
   neutral: "#262626",
@@ -235,6 +521,12 @@ const GROUP_COLOR_ORDER: GroupColor[] = [
   "neutral", "blue", "green", "purple", "orange", "red"
 ];
 
+// Subgraph nodes grow with their ports so the port labels don't overlap
+const getSubgraphNodeStyle = (subgraph: SubgraphDefinition) => ({
+  width: 280,
+  height: Math.max(240, 120 + 32 * Math.max(subgraph.inputs.length, subgraph.outputs.length)),
+});
+
 // localStorage helpers for auto-save configs
 const STORAGE_KEY = "node-banana-workflow-configs";
 
@@ -300,6 +592,52 @@ export const saveNanoBananaDefaults = (settings: Partial<NanoBananaDefaults>) =>
   localStorage.setItem(NANO_BANANA_DEFAULTS_KEY, JSON.stringify(updated));
 };
 
+// localStorage helpers for execution concurrency
+const MAX_CONCURRENCY_KEY = "node-banana-max-concurrency";
+export { DEFAULT_MAX_CONCURRENCY };
+export const MAX_CONCURRENCY_LIMIT = 10;
+
+const clampConcurrency = (value: number): number =>
+  Math.min(MAX_CONCURRENCY_LIMIT, Math.max(1, Math.round(value) || 1));
+
+const loadMaxConcurrency = (): number => {
+  if (typeof window === "undefined") return DEFAULT_MAX_CONCURRENCY;
+  const stored = localStorage.getItem(MAX_CONCURRENCY_KEY);
+  if (!stored) return DEFAULT_MAX_CONCURRENCY;
+  const parsed = parseInt(stored, 10);
+  return isNaN(parsed) ? DEFAULT_MAX_CONCURRENCY : clampConcurrency(parsed);
+};
+
+// localStorage helpers for dry-run mode
+const DRY_RUN_KEY = "node-banana-dry-run";
+
+const loadDryRun = (): boolean => {
+  if (typeof window === "undefined") return false;
+  return localStorage.getItem(DRY_RUN_KEY) === "true";
+};
+
+// localStorage helpers for the retry policy
+const RETRY_POLICY_KEY = "node-banana-retry-policy";
+
+const loadRetryPolicy = (): RetryPolicy => {
+  if (typeof window === "undefined") return DEFAULT_RETRY_POLICY;
+  const stored = localStorage.getItem(RETRY_POLICY_KEY);
+  if (!stored) return DEFAULT_RETRY_POLICY;
+  try {
+    return resolveRetryPolicy(DEFAULT_RETRY_POLICY, JSON.parse(stored));
+  } catch {
+    return DEFAULT_RETRY_POLICY;
+  }
+};
+
+// localStorage helpers for continue-on-error mode
+const CONTINUE_ON_ERROR_KEY = "node-banana-continue-on-error";
+
+const loadContinueOnError = (): boolean => {
+  if (typeof window === "undefined") return false;
+  return localStorage.getItem(CONTINUE_ON_ERROR_KEY) === "true";
+};
+
 const generateWorkflowId = () =>
   `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -318,18 +656,92 @@ const saveSaveConfig = (config: WorkflowSaveConfig) => {
 
 export { generateWorkflowId };
 
+// Save the current log session to the server and close it
+const finishLogSession = async () => {
+  const session = logger.getCurrentSession();
+  if (session) {
+    session.endTime = new Date().toISOString();
+    fetch('/api/logs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session }),
+    }).catch((err) => {
+      console.error('Failed to save log session:', err);
+    });
+  }
+
+  await logger.endSession();
+};
+
+// Engine context backed by the live store, calling providers through the API routes.
+// Runs see subgraph nodes as the nodes inside them.
+const createExecutionContext = (
+  get: () => WorkflowStore,
+  recorder: RunRecorder,
+  signal: AbortSignal
+): ExecutionContext => withSubgraphsInlined({
+  getNodes: () => get().nodes,
+  getEdges: () => get().edges,
+  updateNodeData: (nodeId, data) => get().updateNodeData(nodeId, data),
+  services: browserServices,
+  dryRun: get().dryRun,
+  retryPolicy: get().retryPolicy,
+  signal,
+  onCacheHit: (nodeId) => recorder.cacheHit(nodeId),
+  onImageGenerated: (event) => {
+    recorder.imageGenerated(event);
+    const { image, imageId, timestamp, prompt, aspectRatio, model, cost, dryRun, sweepValues } = event;
+
+    // Save the newly generated image to global history
+    get().addToGlobalHistory({ image, timestamp, prompt, aspectRatio, model, ...(sweepValues && { sweepValues }) });
+
+    // Dry-run placeholders are free and not worth keeping
+    if (dryRun) return;
+    get().addIncurredCost(cost);
+
+    // Auto-save to generations folder if configured
+    const genPath = get().generationsPath;
+    if (genPath) {
+      fetch("/api/save-generation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          directoryPath: genPath,
+          image,
+          prompt,
+          imageId,
+          ...(sweepValues && { sweepValues }),
+        }),
+      }).catch((err) => {
+        console.error("Failed to save generation:", err);
+      });
+    }
+  },
+});
+
 export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   nodes: [],
   edges: [],
   edgeStyle: "curved" as EdgeStyle,
   clipboard: null,
   groups: {},
+  historyPast: [],
+  historyFuture: [],
   openModalCount: 0,
   isModalOpen: false,
   isRunning: false,
-  currentNodeId: null,
+  isStopping: false,
+  currentNodeIds: [],
   pausedAtNodeId: null,
+  sweepProgress: null,
+  runSummary: null,
+  branchSkippedNodeIds: [],
+  maxConcurrency: loadMaxConcurrency(),
+  dryRun: loadDryRun(),
+  retryPolicy: loadRetryPolicy(),
+  continueOnError: loadContinueOnError(),
   globalImageHistory: [],
+  runHistory: [],
 
   // Auto-save initial state
   workflowId: null,
@@ -348,6 +760,64 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     set({ edgeStyle: style });
   },
 
+  pushHistory: (key?: string) => {
+    // Already recorded a step for the current synchronous task
+    if (historyStepOpen) return;
+
+    const now = Date.now();
+    const merge = !!key && key === lastHistoryKey && now - lastHistoryAt < HISTORY_MERGE_WINDOW_MS;
+    lastHistoryKey = key ?? null;
+    lastHistoryAt = now;
+    if (merge) return;
+
+    const { nodes, edges, groups } = get();
+    set((state) => ({
+      historyPast: [...state.historyPast, { nodes, edges, groups }].slice(-MAX_HISTORY),
+      historyFuture: [],
+    }));
+
+    historyStepOpen = true;
+    queueMicrotask(() => {
+      historyStepOpen = false;
+    });
+  },
+
+  undo: () => {
+    const { historyPast, nodes, edges, groups, isRunning } = get();
+    if (isRunning || historyPast.length === 0) return;
+
+    const previous = historyPast[historyPast.length - 1];
+    resetHistoryMerge();
+    set((state) => ({
+      ...restoreSnapshot(previous, nodes),
+      ...previous.metadata,
+      historyPast: state.historyPast.slice(0, -1),
+      historyFuture: [
+        ...state.historyFuture,
+        { nodes, edges, groups, ...(previous.metadata && { metadata: getWorkflowMetadata(state) }) },
+      ],
+      hasUnsavedChanges: true,
+    }));
+  },
+
+  redo: () => {
+    const { historyFuture, nodes, edges, groups, isRunning } = get();
+    if (isRunning || historyFuture.length === 0) return;
+
+    const next = historyFuture[historyFuture.length - 1];
+    resetHistoryMerge();
+    set((state) => ({
+      ...restoreSnapshot(next, nodes),
+      ...next.metadata,
+      historyPast: [
+        ...state.historyPast,
+        { nodes, edges, groups, ...(next.metadata && { metadata: getWorkflowMetadata(state) }) },
+      ],
+      historyFuture: state.historyFuture.slice(0, -1),
+      hasUnsavedChanges: true,
+    }));
+  },
+
   incrementModalCount: () => {
     set((state) => {
       const newCount = state.openModalCount + 1;
@@ -374,6 +844,11 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       llmGenerate: { width: 320, height: 360 },
       splitGrid: { width: 300, height: 320 },
       output: { width: 320, height: 320 },
+      subgraph: { width: 280, height: 240 },
+      mask: { width: 300, height: 300 },
+      imageTransform: { width: 320, height: 480 },
+      combineGrid: { width: 320, height: 420 },
+      router: { width: 340, height: 360 },
     };
 
     const { width, height } = defaultDimensions[type];
@@ -386,6 +861,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       style: { width, height },
     };
 
+    get().pushHistory();
     set((state) => ({
       nodes: [...state.nodes, newNode],
       hasUnsavedChanges: true,
@@ -395,6 +871,12 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   updateNodeData: (nodeId: string, data: Partial<WorkflowNodeData>) => {
+    // Execution results are undone as a whole run, not field by field
+    const isEdit = Object.keys(data).some((key) => !RUN_DATA_FIELDS.includes(key));
+    if (isEdit && !get().isRunning) {
+      get().pushHistory(`data:${nodeId}:${Object.keys(data).sort().join(",")}`);
+    }
+
     set((state) => ({
       nodes: state.nodes.map((node) =>
         node.id === nodeId
@@ -406,6 +888,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   removeNode: (nodeId: string) => {
+    get().pushHistory();
     set((state) => ({
       nodes: state.nodes.filter((node) => node.id !== nodeId),
       edges: state.edges.filter(
@@ -415,11 +898,80 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     }));
   },
 
+  expandList: (nodeId: string) => {
+    const { nodes, getNodeById, addNode, removeNode, updateNodeData, onConnect, addEdgeWithType } = get();
+    const node = getNodeById(nodeId);
+    if (node?.type !== "llmGenerate") return;
+
+    const nodeData = node.data as LLMGenerateNodeData;
+    const items = getListItems(nodeData);
+    if (items.length === 0) {
+      useToast.getState().show("The output has no list items to expand", "warning");
+      return;
+    }
+
+    // Pairs whose nodes were deleted are dropped; extra pairs go when the list got shorter
+    const existingIds = new Set(nodes.map((n) => n.id));
+    const linked = (nodeData.childNodeIds || []).filter(
+      (child) => existingIds.has(child.prompt) && existingIds.has(child.nanoBanana)
+    );
+    const childNodeIds = linked.slice(0, items.length);
+    linked.slice(items.length).forEach((child) => {
+      removeNode(child.prompt);
+      removeNode(child.nanoBanana);
+    });
+
+    // New generate nodes copy the settings of the first linked one
+    const template = childNodeIds[0] && (getNodeById(childNodeIds[0].nanoBanana)?.data as NanoBananaNodeData | undefined);
+    const rowHeight = 340;
+    const startX = node.position.x + 400;
+
+    for (let i = childNodeIds.length; i < items.length; i++) {
+      const y = node.position.y + i * rowHeight;
+      const promptId = addNode("prompt", { x: startX, y });
+      const nanoBananaId = addNode("nanoBanana", { x: startX + 380, y });
+      if (template) {
+        updateNodeData(nanoBananaId, {
+          aspectRatio: template.aspectRatio,
+          resolution: template.resolution,
+          model: template.model,
+          useGoogleSearch: template.useGoogleSearch,
+        });
+      }
+
+      // Reference edge from the LLM node (grey dotted line) orders the prompt after it
+      addEdgeWithType({
+        source: nodeId,
+        sourceHandle: "reference",
+        target: promptId,
+        targetHandle: "reference",
+      }, "reference");
+      onConnect({
+        source: promptId,
+        sourceHandle: "text",
+        target: nanoBananaId,
+        targetHandle: "text",
+      });
+
+      childNodeIds.push({ prompt: promptId, nanoBanana: nanoBananaId });
+    }
+
+    // Expanding again writes every item, edited prompts included
+    childNodeIds.forEach((child, index) => updateNodeData(child.prompt, { prompt: items[index] }));
+    updateNodeData(nodeId, { childNodeIds: childNodeIds.map((child, index) => ({ ...child, item: items[index] })) });
+  },
+
   onNodesChange: (changes: NodeChange<WorkflowNode>[]) => {
     // Only mark as unsaved for meaningful changes (not selection changes)
     const hasMeaningfulChange = changes.some(
       (c) => c.type !== "select" && c.type !== "dimensions"
     );
+    if (hasMeaningfulChange) {
+      // A whole drag produces one step
+      const movedIds = changes.filter((c) => c.type === "position").map((c) => c.id);
+      const isMoveOnly = movedIds.length === changes.filter((c) => c.type !== "select" && c.type !== "dimensions").length;
+      get().pushHistory(isMoveOnly ? `move:${movedIds.sort().join(",")}` : undefined);
+    }
     set((state) => ({
       nodes: applyNodeChanges(changes, state.nodes),
       ...(hasMeaningfulChange ? { hasUnsavedChanges: true } : {}),
@@ -429,6 +981,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   onEdgesChange: (changes: EdgeChange<WorkflowEdge>[]) => {
     // Only mark as unsaved for meaningful changes (not selection changes)
     const hasMeaningfulChange = changes.some((c) => c.type !== "select");
+    if (hasMeaningfulChange) get().pushHistory();
     set((state) => ({
       edges: applyEdgeChanges(changes, state.edges),
       ...(hasMeaningfulChange ? { hasUnsavedChanges: true } : {}),
@@ -436,6 +989,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   onConnect: (connection: Connection) => {
+    get().pushHistory();
     set((state) => ({
       edges: addEdge(
         {
@@ -449,6 +1003,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   addEdgeWithType: (connection: Connection, edgeType: string) => {
+    get().pushHistory();
     set((state) => ({
       edges: addEdge(
         {
@@ -463,6 +1018,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   removeEdge: (edgeId: string) => {
+    get().pushHistory();
     set((state) => ({
       edges: state.edges.filter((edge) => edge.id !== edgeId),
       hasUnsavedChanges: true,
@@ -470,6 +1026,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   toggleEdgePause: (edgeId: string) => {
+    get().pushHistory();
     set((state) => ({
       edges: state.edges.map((edge) =>
         edge.id === edgeId
@@ -534,6 +1091,8 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       target: idMapping.get(edge.target)!,
     }));
 
+    get().pushHistory();
+
     // Deselect existing nodes and add new ones
     const updatedNodes = nodes.map((node) => ({
       ...node,
@@ -570,6 +1129,11 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       llmGenerate: { width: 320, height: 360 },
       splitGrid: { width: 300, height: 320 },
       output: { width: 320, height: 320 },
+      subgraph: { width: 280, height: 240 },
+      mask: { width: 300, height: 300 },
+      imageTransform: { width: 320, height: 480 },
+      combineGrid: { width: 320, height: 420 },
+      router: { width: 340, height: 360 },
     };
 
     // Calculate bounding box of selected nodes
@@ -620,6 +1184,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     };
 
     // Update nodes with groupId and add group
+    get().pushHistory();
     set((state) => ({
       nodes: state.nodes.map((node) =>
         nodeIds.includes(node.id) ? { ...node, groupId: id } : node
@@ -632,6 +1197,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   deleteGroup: (groupId: string) => {
+    get().pushHistory();
     set((state) => {
       const { [groupId]: _, ...remainingGroups } = state.groups;
       return {
@@ -645,6 +1211,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   addNodesToGroup: (nodeIds: string[], groupId: string) => {
+    get().pushHistory();
     set((state) => ({
       nodes: state.nodes.map((node) =>
         nodeIds.includes(node.id) ? { ...node, groupId } : node
@@ -654,6 +1221,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   removeNodesFromGroup: (nodeIds: string[]) => {
+    get().pushHistory();
     set((state) => ({
       nodes: state.nodes.map((node) =>
         nodeIds.includes(node.id) ? { ...node, groupId: undefined } : node
@@ -663,6 +1231,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   updateGroup: (groupId: string, updates: Partial<NodeGroup>) => {
+    get().pushHistory(`group:${groupId}`);
     set((state) => ({
       groups: {
         ...state.groups,
@@ -673,6 +1242,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   toggleGroupLock: (groupId: string) => {
+    get().pushHistory();
     set((state) => ({
       groups: {
         ...state.groups,
@@ -686,6 +1256,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
   },
 
   moveGroupNodes: (groupId: string, delta: { x: number; y: number }) => {
+    get().pushHistory(`group:${groupId}`);
     set((state) => ({
       nodes: state.nodes.map((node) =>
         node.groupId === groupId
@@ -702,6 +1273,7 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     }));
   },
 
+  // Only called at the end of a node drag, so it belongs to the drag's history step
   setNodeGroupId: (nodeId: string, groupId: string | undefined) => {
     set((state) => ({
       nodes: state.nodes.map((node) =>
@@ -711,51 +1283,137 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     }));
   },
 
+  // Subgraph operations
+  collapseGroup: (groupId: string, exposed: { inputs: ExposableHandle[]; outputs: ExposableHandle[] }) => {
+    const { nodes, edges, groups } = get();
+    const group = groups[groupId];
+    const groupNodes = nodes.filter((node) => node.groupId === groupId);
+    if (!group || groupNodes.length === 0) return "";
+
+    const id = `subgraph-${++nodeIdCounter}`;
+    const subgraph = buildSubgraph(group.name, groupNodes, edges, exposed);
+    const subgraphNode: WorkflowNode = {
+      id,
+      type: "subgraph",
+      position: group.position,
+      data: { subgraph } as SubgraphNodeData,
+      style: getSubgraphNodeStyle(subgraph),
+    };
+
+    get().pushHistory();
+    set((state) => {
+      const { [groupId]: _, ...remainingGroups } = state.groups;
+      return {
+        nodes: [...state.nodes.filter((node) => node.groupId !== groupId), subgraphNode],
+        edges: connectSubgraphPorts(id, subgraph, state.edges),
+        groups: remainingGroups,
+        hasUnsavedChanges: true,
+      };
+    });
+
+    logger.info('node.execution', 'Group collapsed into subgraph', {
+      groupId,
+      nodeId: id,
+      innerNodeCount: groupNodes.length,
+      inputCount: subgraph.inputs.length,
+      outputCount: subgraph.outputs.length,
+    });
+    return id;
+  },
+
+  expandSubgraph: (nodeId: string) => {
+    const { nodes, edges, getNodeById } = get();
+    const node = getNodeById(nodeId);
+    if (node?.type !== "subgraph") return;
+
+    const { subgraph } = node.data as SubgraphNodeData;
+    if (subgraph.nodes.length === 0) {
+      get().removeNode(nodeId);
+      return;
+    }
+    const expanded = expandSubgraphNodes(node, edges, (innerNode) => `${innerNode.type}-${++nodeIdCounter}`);
+
+    // The inner nodes come back as a group named after the subgraph, ready to be collapsed again
+    get().pushHistory();
+    set({
+      nodes: [...nodes.filter((n) => n.id !== nodeId), ...expanded.nodes],
+      edges: expanded.edges,
+      hasUnsavedChanges: true,
+    });
+    const groupId = get().createGroup(expanded.nodes.map((n) => n.id));
+    if (groupId) get().updateGroup(groupId, { name: subgraph.name });
+  },
+
+  addSubgraphFromLibrary: (entry: SubgraphLibraryEntry, position: XYPosition) => {
+    const id = `subgraph-${++nodeIdCounter}`;
+    const subgraphNode: WorkflowNode = {
+      id,
+      type: "subgraph",
+      position,
+      data: { subgraph: entry.subgraph, libraryId: entry.id } as SubgraphNodeData,
+      style: getSubgraphNodeStyle(entry.subgraph),
+    };
+
+    get().pushHistory();
+    set((state) => ({
+      nodes: [...state.nodes, subgraphNode],
+      hasUnsavedChanges: true,
+    }));
+    return id;
+  },
+
+  // Saving again updates the library entry the node was saved as or created from
+  saveSubgraphToLibrary: async (nodeId: string) => {
+    const node = get().getNodeById(nodeId);
+    if (node?.type !== "subgraph") return false;
+
+    const nodeData = node.data as SubgraphNodeData;
+    const subgraph = clearSubgraphResults(nodeData.subgraph);
+    const entry: SubgraphLibraryEntry = {
+      id: nodeData.libraryId ?? `subgraph-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      name: nodeData.customTitle || subgraph.name,
+      savedAt: Date.now(),
+      subgraph: { ...subgraph, name: nodeData.customTitle || subgraph.name },
+    };
+
+    try {
+      const response = await fetch("/api/subgraph-library", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entry }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || "Save failed");
+      }
+    } catch (error) {
+      logger.error('file.error', 'Failed to save subgraph to library', {
+        nodeId,
+      }, error instanceof Error ? error : undefined);
+      useToast.getState().show(
+        `Failed to save to library: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "error"
+      );
+      return false;
+    }
+
+    get().updateNodeData(nodeId, { libraryId: entry.id } as Partial<SubgraphNodeData>);
+    useToast.getState().show(`Saved "${entry.name}" to the library`, "success");
+    return true;
+  },
+
   getNodeById: (id: string) => {
     return get().nodes.find((node) => node.id === id);
   },
 
   getConnectedInputs: (nodeId: string) => {
     const { edges, nodes } = get();
-    const images: string[] = [];
-    let text: string | null = null;
-
-    edges
-      .filter((edge) => edge.target === nodeId)
-      .forEach((edge) => {
-        const sourceNode = nodes.find((n) => n.id === edge.source);
-        if (!sourceNode) return;
-
-        const handleId = edge.targetHandle;
-
-        if (handleId === "image" || !handleId) {
-          // Get image from source node - collect all connected images
-          if (sourceNode.type === "imageInput") {
-            const sourceImage = (sourceNode.data as ImageInputNodeData).image;
-            if (sourceImage) images.push(sourceImage);
-          } else if (sourceNode.type === "annotation") {
-            const sourceImage = (sourceNode.data as AnnotationNodeData).outputImage;
-            if (sourceImage) images.push(sourceImage);
-          } else if (sourceNode.type === "nanoBanana") {
-            const sourceImage = (sourceNode.data as NanoBananaNodeData).outputImage;
-            if (sourceImage) images.push(sourceImage);
-          }
-        }
-
-        if (handleId === "text") {
-          if (sourceNode.type === "prompt") {
-            text = (sourceNode.data as PromptNodeData).prompt;
-          } else if (sourceNode.type === "llmGenerate") {
-            text = (sourceNode.data as LLMGenerateNodeData).outputText;
-          }
-        }
-      });
-
-    return { images, text };
+    return getConnectedInputs(nodes, edges, nodeId);
   },
 
   validateWorkflow: () => {
-    const { nodes, edges } = get();
+    // Subgraphs are checked as the nodes inside them
+    const { nodes, edges } = inlineSubgraphs(get().nodes, get().edges);
     const errors: string[] = [];
 
     // Check if there are any nodes
@@ -783,6 +1441,20 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
         }
       });
 
+    // Check every prompt template variable has text connected
+    nodes
+      .filter((n) => n.type === "prompt")
+      .forEach((node) => {
+        getTemplateVariables((node.data as PromptNodeData).prompt).forEach((variable) => {
+          const variableConnected = edges.some(
+            (e) => e.target === node.id && e.targetHandle === getTemplateHandleId(variable)
+          );
+          if (!variableConnected) {
+            errors.push(`Prompt node "${node.id}" missing input for {{${variable}}}`);
+          }
+        });
+      });
+
     // Check annotation nodes have image input (either connected or manually loaded)
     nodes
       .filter((n) => n.type === "annotation")
@@ -794,6 +1466,50 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
         }
       });
 
+    // Check mask nodes have an image to paint on
+    nodes
+      .filter((n) => n.type === "mask")
+      .forEach((node) => {
+        const imageConnected = edges.some((e) => e.target === node.id);
+        const hasImage = (node.data as MaskNodeData).sourceImage !== null;
+        if (!imageConnected && !hasImage) {
+          errors.push(`Mask node "${node.id}" missing image input`);
+        }
+      });
+
+    // Check image transform nodes have image input
+    nodes
+      .filter((n) => n.type === "imageTransform")
+      .forEach((node) => {
+        const imageConnected = edges.some((e) => e.target === node.id);
+        if (!imageConnected) {
+          errors.push(`Image Transform node "${node.id}" missing image input`);
+        }
+      });
+
+    // Check combine grid nodes have images to combine
+    nodes
+      .filter((n) => n.type === "combineGrid")
+      .forEach((node) => {
+        const imageConnected = edges.some((e) => e.target === node.id && e.targetHandle === "image");
+        if (!imageConnected) {
+          errors.push(`Combine Grid node "${node.id}" missing image input`);
+        }
+      });
+
+    // Check router nodes have something to decide on - rules need text
+    nodes
+      .filter((n) => n.type === "router")
+      .forEach((node) => {
+        const { mode } = node.data as RouterNodeData;
+        const inputConnected = edges.some(
+          (e) => e.target === node.id && (e.targetHandle === "text" || (mode === "llm" && e.targetHandle === "image"))
+        );
+        if (!inputConnected) {
+          errors.push(`Router node "${node.id}" missing ${mode === "rule" ? "text" : "text or image"} input`);
+        }
+      });
+
     // Check output nodes have image input
     nodes
       .filter((n) => n.type === "output")
@@ -807,557 +1523,221 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     return { valid: errors.length === 0, errors };
   },
 
-  executeWorkflow: async (startFromNodeId?: string) => {
-    const { nodes, edges, groups, updateNodeData, getConnectedInputs, isRunning } = get();
+  executeWorkflow: async (startFromNodeId?: string, options?: { force?: boolean; keepNodeIds?: string[] }) => {
+    // Referenced images must be loaded before they can be sent to the APIs
+    if (!(await loadImagesForRun(get))) return;
+
+    const { nodes, edges, groups, isRunning, maxConcurrency, dryRun, continueOnError, workflowId, workflowName } = get();
 
     if (isRunning) {
       logger.warn('workflow.start', 'Workflow already running, ignoring execution request');
       return;
     }
 
+    // List sources repeat the nodes downstream of them once per item (or combination)
+    const sweepSources = getSweepSources(inlineSubgraphs(nodes, edges).nodes);
+    const sweepCount = countSweepCombinations(sweepSources);
+    const emptySource = sweepSources.find((source) => source.items.length === 0);
+    if (emptySource) {
+      useToast.getState().show(`List "${emptySource.name}" has no items to sweep`, "error");
+      return;
+    }
+    if (sweepCount > MAX_SWEEP_COMBINATIONS) {
+      useToast.getState().show(
+        `Sweep would run ${sweepCount} times - the limit is ${MAX_SWEEP_COMBINATIONS}. Shorten the lists or use fewer list sources.`,
+        "error"
+      );
+      return;
+    }
+
     // Start logging session
     await logger.startSession();
 
-    const isResuming = startFromNodeId === get().pausedAtNodeId;
-    set({ isRunning: true, pausedAtNodeId: null });
+    // Running without a start node while paused continues from the paused node
+    startFromNodeId = startFromNodeId ?? get().pausedAtNodeId ?? undefined;
+    const isResuming = !!startFromNodeId && startFromNodeId === get().pausedAtNodeId;
+    // The whole run is one undo step
+    get().pushHistory();
+    set({ isRunning: true, pausedAtNodeId: null, currentNodeIds: [], runSummary: null, branchSkippedNodeIds: [] });
+
+    // Nodes completed before the previous pause (or kept from a failed run) are not re-run
+    const previouslyCompleted = new Set(isResuming && resumeCompletedNodeIds ? resumeCompletedNodeIds : options?.keepNodeIds);
+    resumeCompletedNodeIds = null;
+
+    const recorder = new RunRecorder({ workflowId, workflowName, mode: "workflow", dryRun, nodes, edges });
+    const abortController = new AbortController();
+    runAbortController = abortController;
+    let runStatus: RunRecordStatus = "failed";
 
     logger.info('workflow.start', 'Workflow execution started', {
       nodeCount: nodes.length,
       edgeCount: edges.length,
       startFromNodeId,
       isResuming,
+      maxConcurrency,
+      dryRun,
+      retryPolicy: get().retryPolicy,
+      continueOnError,
+      force: !!options?.force,
+      keptNodeCount: options?.keepNodeIds?.length ?? 0,
+      ...(sweepSources.length > 0 && { sweepSources: sweepSources.map((source) => source.name), sweepCount }),
     });
 
-    // Topological sort
-    const sorted: WorkflowNode[] = [];
-    const visited = new Set<string>();
-    const visiting = new Set<string>();
-
-    const visit = (nodeId: string) => {
-      if (visited.has(nodeId)) return;
-      if (visiting.has(nodeId)) {
-        logger.error('workflow.validation', 'Cycle detected in workflow', { nodeId });
-        throw new Error("Cycle detected in workflow");
-      }
-
-      visiting.add(nodeId);
-
-      // Visit all nodes that this node depends on
-      edges
-        .filter((e) => e.target === nodeId)
-        .forEach((e) => visit(e.source));
-
-      visiting.delete(nodeId);
-      visited.add(nodeId);
-
-      const node = nodes.find((n) => n.id === nodeId);
-      if (node) sorted.push(node);
-    };
-
     try {
-      nodes.forEach((node) => visit(node.id));
-
-      // If starting from a specific node, find its index and skip earlier nodes
-      let startIndex = 0;
-      if (startFromNodeId) {
-        const nodeIndex = sorted.findIndex((n) => n.id === startFromNodeId);
-        if (nodeIndex !== -1) {
-          startIndex = nodeIndex;
-        }
-      }
-
-      // Execute nodes in order, starting from startIndex
-      for (let i = startIndex; i < sorted.length; i++) {
-        const node = sorted[i];
-        if (!get().isRunning) break;
-
-        // Check for pause edges on incoming connections (skip if resuming from this exact node)
-        const isResumingThisNode = isResuming && node.id === startFromNodeId;
-        if (!isResumingThisNode) {
-          const incomingEdges = edges.filter((e) => e.target === node.id);
-          const pauseEdge = incomingEdges.find((e) => e.data?.hasPause);
-          if (pauseEdge) {
-            logger.info('workflow.end', 'Workflow paused at node', {
-              nodeId: node.id,
-              nodeType: node.type,
-            });
-            set({ pausedAtNodeId: node.id, isRunning: false, currentNodeId: null });
-            useToast.getState().show("Workflow paused - click Run to continue", "warning");
-
-            // Save logs to server (on pause)
-            const session = logger.getCurrentSession();
-            if (session) {
-              session.endTime = new Date().toISOString();
-              fetch('/api/logs', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ session }),
-              }).catch((err) => {
-                console.error('Failed to save log session:', err);
-              });
-            }
-
-            await logger.endSession();
-            return;
-          }
-        }
-
-        // Check if node is in a locked group - if so, skip execution
-        const nodeGroup = node.groupId ? groups[node.groupId] : null;
-        if (nodeGroup?.locked) {
-          logger.info('node.execution', `Skipping node in locked group`, {
-            nodeId: node.id,
-            nodeType: node.type,
-            groupId: node.groupId,
-            groupName: nodeGroup.name,
+      const runOptions = {
+        groups,
+        maxConcurrency,
+        startFromNodeId,
+        isResuming,
+        previouslyCompleted,
+        force: options?.force,
+        continueOnError,
+        shouldContinue: () => !abortController.signal.aborted,
+        // A subgraph node shows as running once for each of its inner nodes that is
+        onNodeStart: (nodeId: string) => {
+          recorder.nodeStarted(nodeId);
+          set((state) => ({ currentNodeIds: [...state.currentNodeIds, getTopLevelNodeId(nodeId)] }));
+        },
+        onNodeEnd: (nodeId: string, succeeded: boolean) => {
+          const node = findInlinedNode(get().nodes, nodeId);
+          if (node) recorder.nodeFinished(node, succeeded);
+          set((state) => {
+            const index = state.currentNodeIds.indexOf(getTopLevelNodeId(nodeId));
+            return { currentNodeIds: state.currentNodeIds.filter((_, i) => i !== index) };
           });
-          continue; // Skip to next node
-        }
-
-        set({ currentNodeId: node.id });
+        },
+        onNodeSkipped: (nodeId: string) => {
+          set((state) => ({ branchSkippedNodeIds: [...state.branchSkippedNodeIds, nodeId] }));
+        },
+      };
+      const result = sweepSources.length > 0
+        ? await runSweep(createExecutionContext(get, recorder, abortController.signal), sweepSources, {
+            ...runOptions,
+            onIterationStart: (index, total, values) => {
+              recorder.setSweepValues(values);
+              // Each item may take different branches
+              set({ sweepProgress: { current: index + 1, total }, branchSkippedNodeIds: [] });
+            },
+          })
+        : await runWorkflow(createExecutionContext(get, recorder, abortController.signal), runOptions);
+      const completedCount = result.completedNodeIds.size;
+      runStatus = result.status;
+      const getRunSummary = (): RunSummary => ({
+        completedNodeIds: Array.from(result.completedNodeIds),
+        failedNodes: result.failedNodeIds.map((nodeId) => ({
+          nodeId,
+          error: (findInlinedNode(get().nodes, nodeId)?.data.error as string | null | undefined) ?? null,
+        })),
+        skippedNodeIds: result.skippedNodeIds,
+        branchSkippedNodeIds: result.branchSkippedNodeIds,
+        sweep: sweepSources.length > 0,
+      });
 
-        logger.info('node.execution', `Executing ${node.type} node`, {
-          nodeId: node.id,
-          nodeType: node.type,
+      if (result.status === "failed") {
+        logger.error('workflow.error', continueOnError
+          ? 'Workflow execution finished with failed nodes'
+          : 'Workflow execution stopped after node failure', {
+          completedCount,
+          failedNodeIds: result.failedNodeIds,
+          skippedNodeIds: result.skippedNodeIds,
         });
-
-        switch (node.type) {
-          case "imageInput":
-            // Nothing to execute, data is already set
-            break;
-
-          case "annotation": {
-            // Get connected image and set as source (use first image)
-            const { images } = getConnectedInputs(node.id);
-            const image = images[0] || null;
-            if (image) {
-              updateNodeData(node.id, { sourceImage: image });
-              // If no annotations, pass through the image
-              const nodeData = node.data as AnnotationNodeData;
-              if (!nodeData.outputImage) {
-                updateNodeData(node.id, { outputImage: image });
-              }
-            }
-            break;
-          }
-
-          case "prompt":
-            // Nothing to execute, data is already set
-            break;
-
-          case "nanoBanana": {
-            const { images, text } = getConnectedInputs(node.id);
-
-            if (images.length === 0 || !text) {
-              logger.error('node.error', 'nanoBanana node missing inputs', {
-                nodeId: node.id,
-                hasImages: images.length > 0,
-                hasText: !!text,
-              });
-              updateNodeData(node.id, {
-                status: "error",
-                error: "Missing image or text input",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              await logger.endSession();
-              return;
-            }
-
-            updateNodeData(node.id, {
-              inputImages: images,
-              inputPrompt: text,
-              status: "loading",
-              error: null,
-            });
-
-            try {
-              const nodeData = node.data as NanoBananaNodeData;
-
-              const requestPayload = {
-                images,
-                prompt: text,
-                aspectRatio: nodeData.aspectRatio,
-                resolution: nodeData.resolution,
-                model: nodeData.model,
-                useGoogleSearch: nodeData.useGoogleSearch,
-              };
-
-              logger.info('api.gemini', 'Calling Gemini API for image generation', {
-                nodeId: node.id,
-                model: nodeData.model,
-                aspectRatio: nodeData.aspectRatio,
-                resolution: nodeData.resolution,
-                imageCount: images.length,
-                prompt: text,
-              });
-
-              const response = await fetch("/api/generate", {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                },
-                body: JSON.stringify(requestPayload),
-              });
-
-              if (!response.ok) {
-                const errorText = await response.text();
-                let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-                try {
-                  const errorJson = JSON.parse(errorText);
-                  errorMessage = errorJson.error || errorMessage;
-                } catch {
-                  if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-                }
-
-                logger.error('api.error', 'Gemini API request failed', {
-                  nodeId: node.id,
-                  status: response.status,
-                  statusText: response.statusText,
-                  errorMessage,
-                });
-
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: errorMessage,
-                });
-                set({ isRunning: false, currentNodeId: null });
-                await logger.endSession();
-                return;
-              }
-
-              const result = await response.json();
-
-              if (result.success && result.image) {
-                const timestamp = Date.now();
-                const imageId = `${timestamp}`;
-
-                // Save the newly generated image to global history
-                get().addToGlobalHistory({
-                  image: result.image,
-                  timestamp,
-                  prompt: text,
-                  aspectRatio: nodeData.aspectRatio,
-                  model: nodeData.model,
-                });
-
-                // Add to node's carousel history
-                const newHistoryItem = {
-                  id: imageId,
-                  timestamp,
-                  prompt: text,
-                  aspectRatio: nodeData.aspectRatio,
-                  model: nodeData.model,
-                };
-                const updatedHistory = [newHistoryItem, ...(nodeData.imageHistory || [])];
-
-                updateNodeData(node.id, {
-                  outputImage: result.image,
-                  status: "complete",
-                  error: null,
-                  imageHistory: updatedHistory,
-                  selectedHistoryIndex: 0,
-                });
-
-                // Track cost
-                const generationCost = calculateGenerationCost(nodeData.model, nodeData.resolution);
-                get().addIncurredCost(generationCost);
-
-                // Auto-save to generations folder if configured
-                const genPath = get().generationsPath;
-                if (genPath) {
-                  fetch("/api/save-generation", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                      directoryPath: genPath,
-                      image: result.image,
-                      prompt: text,
-                      imageId,
-                    }),
-                  }).catch((err) => {
-                    console.error("Failed to save generation:", err);
-                  });
-                }
-              } else {
-                logger.error('api.error', 'Gemini API generation failed', {
-                  nodeId: node.id,
-                  error: result.error,
-                });
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: result.error || "Generation failed",
-                });
-                set({ isRunning: false, currentNodeId: null });
-                await logger.endSession();
-                return;
-              }
-            } catch (error) {
-              let errorMessage = "Generation failed";
-              if (error instanceof DOMException && error.name === 'AbortError') {
-                errorMessage = "Request timed out. Try reducing image sizes or using a simpler prompt.";
-              } else if (error instanceof TypeError && error.message.includes('NetworkError')) {
-                errorMessage = "Network error. Check your connection and try again.";
-              } else if (error instanceof TypeError) {
-                errorMessage = `Network error: ${error.message}`;
-              } else if (error instanceof Error) {
-                errorMessage = error.message;
-              }
-
-              logger.error('node.error', 'nanoBanana node execution failed', {
-                nodeId: node.id,
-                errorMessage,
-              }, error instanceof Error ? error : undefined);
-
-              updateNodeData(node.id, {
-                status: "error",
-                error: errorMessage,
-              });
-              set({ isRunning: false, currentNodeId: null });
-              await logger.endSession();
-              return;
-            }
-            break;
-          }
-
-          case "llmGenerate": {
-            const { images, text } = getConnectedInputs(node.id);
-
-            if (!text) {
-              logger.error('node.error', 'llmGenerate node missing text input', {
-                nodeId: node.id,
-              });
-              updateNodeData(node.id, {
-                status: "error",
-                error: "Missing text input",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              await logger.endSession();
-              return;
-            }
-
-            updateNodeData(node.id, {
-              inputPrompt: text,
-              inputImages: images,
-              status: "loading",
-              error: null,
-            });
-
-            try {
-              const nodeData = node.data as LLMGenerateNodeData;
-
-              logger.info('api.llm', 'Calling LLM API', {
-                nodeId: node.id,
-                provider: nodeData.provider,
-                model: nodeData.model,
-                temperature: nodeData.temperature,
-                maxTokens: nodeData.maxTokens,
-                hasImages: images.length > 0,
-                prompt: text,
-              });
-
-              const response = await fetch("/api/llm", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  prompt: text,
-                  ...(images.length > 0 && { images }),
-                  provider: nodeData.provider,
-                  model: nodeData.model,
-                  temperature: nodeData.temperature,
-                  maxTokens: nodeData.maxTokens,
-                }),
-              });
-
-              if (!response.ok) {
-                const errorText = await response.text();
-                let errorMessage = `HTTP ${response.status}`;
-                try {
-                  const errorJson = JSON.parse(errorText);
-                  errorMessage = errorJson.error || errorMessage;
-                } catch {
-                  if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-                }
-                logger.error('api.error', 'LLM API request failed', {
-                  nodeId: node.id,
-                  status: response.status,
-                  errorMessage,
-                });
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: errorMessage,
-                });
-                set({ isRunning: false, currentNodeId: null });
-                await logger.endSession();
-                return;
-              }
-
-              const result = await response.json();
-
-              if (result.success && result.text) {
-                updateNodeData(node.id, {
-                  outputText: result.text,
-                  status: "complete",
-                  error: null,
-                });
-              } else {
-                logger.error('api.error', 'LLM generation failed', {
-                  nodeId: node.id,
-                  error: result.error,
-                });
-                updateNodeData(node.id, {
-                  status: "error",
-                  error: result.error || "LLM generation failed",
-                });
-                set({ isRunning: false, currentNodeId: null });
-                await logger.endSession();
-                return;
-              }
-            } catch (error) {
-              logger.error('node.error', 'llmGenerate node execution failed', {
-                nodeId: node.id,
-              }, error instanceof Error ? error : undefined);
-              updateNodeData(node.id, {
-                status: "error",
-                error: error instanceof Error ? error.message : "LLM generation failed",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              await logger.endSession();
-              return;
-            }
-            break;
-          }
-
-          case "splitGrid": {
-            const { images } = getConnectedInputs(node.id);
-            const sourceImage = images[0] || null;
-
-            if (!sourceImage) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: "No input image connected",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
-
-            const nodeData = node.data as SplitGridNodeData;
-
-            if (!nodeData.isConfigured) {
-              updateNodeData(node.id, {
-                status: "error",
-                error: "Node not configured - open settings first",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              return;
-            }
-
-            updateNodeData(node.id, {
-              sourceImage,
-              status: "loading",
-              error: null,
-            });
-
-            try {
-              // Import and use the grid splitter
-              const { splitWithDimensions } = await import("@/utils/gridSplitter");
-              const { images: splitImages } = await splitWithDimensions(
-                sourceImage,
-                nodeData.gridRows,
-                nodeData.gridCols
-              );
-
-              // Populate child imageInput nodes with split images
-              for (let index = 0; index < nodeData.childNodeIds.length; index++) {
-                const childSet = nodeData.childNodeIds[index];
-                if (splitImages[index]) {
-                  // Create a promise to get image dimensions
-                  await new Promise<void>((resolve) => {
-                    const img = new Image();
-                    img.onload = () => {
-                      updateNodeData(childSet.imageInput, {
-                        image: splitImages[index],
-                        filename: `split-${Math.floor(index / nodeData.gridCols) + 1}-${(index % nodeData.gridCols) + 1}.png`,
-                        dimensions: { width: img.width, height: img.height },
-                      });
-                      resolve();
-                    };
-                    img.onerror = () => resolve();
-                    img.src = splitImages[index];
-                  });
-                }
-              }
-
-              updateNodeData(node.id, { status: "complete", error: null });
-            } catch (error) {
-              logger.error('node.error', 'splitGrid node execution failed', {
-                nodeId: node.id,
-              }, error instanceof Error ? error : undefined);
-              updateNodeData(node.id, {
-                status: "error",
-                error: error instanceof Error ? error.message : "Failed to split image",
-              });
-              set({ isRunning: false, currentNodeId: null });
-              await logger.endSession();
-              return;
-            }
-            break;
-          }
-
-          case "output": {
-            const { images } = getConnectedInputs(node.id);
-            const image = images[0] || null;
-            if (image) {
-              updateNodeData(node.id, { image });
-            }
-            break;
-          }
+        set({ isRunning: false, currentNodeIds: [], runSummary: getRunSummary() });
+        const { sweepProgress } = get();
+        if (sweepProgress) {
+          useToast.getState().show(`Sweep stopped at run ${sweepProgress.current} of ${sweepProgress.total}`, "error");
         }
-      }
-
-      logger.info('workflow.end', 'Workflow execution completed successfully');
-      set({ isRunning: false, currentNodeId: null });
-
-      // Save logs to server
-      const session = logger.getCurrentSession();
-      if (session) {
-        session.endTime = new Date().toISOString();
-        fetch('/api/logs', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ session }),
-        }).catch((err) => {
-          console.error('Failed to save log session:', err);
+      } else if (result.status === "stopped") {
+        logger.info('workflow.end', 'Workflow execution stopped by user', {
+          completedCount,
         });
+        set({ isRunning: false, currentNodeIds: [] });
+      } else if (result.status === "paused") {
+        const pausedNode = result.pausedAtNodeId ? findInlinedNode(nodes, result.pausedAtNodeId) : undefined;
+        logger.info('workflow.end', 'Workflow paused at node', {
+          nodeId: result.pausedAtNodeId,
+          nodeType: pausedNode?.type,
+        });
+        resumeCompletedNodeIds = result.completedNodeIds;
+        set({ pausedAtNodeId: result.pausedAtNodeId, isRunning: false, currentNodeIds: [] });
+        useToast.getState().show("Workflow paused - click Run to continue", "warning");
+      } else {
+        logger.info('workflow.end', 'Workflow execution completed successfully');
+        // With continue on error the summary is shown either way
+        set({ isRunning: false, currentNodeIds: [], ...(continueOnError && { runSummary: getRunSummary() }) });
+        if (sweepSources.length > 0) {
+          useToast.getState().show(`Sweep completed - ${sweepCount} run${sweepCount === 1 ? "" : "s"}`, "success");
+        } else if (recorder.cachedNodeCount > 0) {
+          const count = recorder.cachedNodeCount;
+          useToast.getState().show(
+            `${count} node${count === 1 ? "" : "s"} reused cached output - use Force re-run to regenerate`,
+            "info"
+          );
+        }
       }
-
-      await logger.endSession();
     } catch (error) {
       logger.error('workflow.error', 'Workflow execution failed', {}, error instanceof Error ? error : undefined);
-      set({ isRunning: false, currentNodeId: null });
-
-      // Save logs to server (even on error)
-      const session = logger.getCurrentSession();
-      if (session) {
-        session.endTime = new Date().toISOString();
-        fetch('/api/logs', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ session }),
-        }).catch((err) => {
-          console.error('Failed to save log session:', err);
-        });
-      }
+      set({ isRunning: false, currentNodeIds: [] });
+    }
+    set({ isStopping: false, sweepProgress: null });
+    get().addRunRecord(recorder.finish(runStatus));
+
+    // Save logs to server (even on error)
+    await finishLogSession();
+  },
+
+  setMaxConcurrency: (value: number) => {
+    const maxConcurrency = clampConcurrency(value);
+    if (typeof window !== "undefined") {
+      localStorage.setItem(MAX_CONCURRENCY_KEY, String(maxConcurrency));
+    }
+    set({ maxConcurrency });
+  },
 
-      await logger.endSession();
+  setDryRun: (enabled: boolean) => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(DRY_RUN_KEY, String(enabled));
     }
+    set({ dryRun: enabled });
   },
 
+  setRetryPolicy: (policy: Partial<RetryPolicy>) => {
+    const retryPolicy = resolveRetryPolicy(get().retryPolicy, policy);
+    if (typeof window !== "undefined") {
+      localStorage.setItem(RETRY_POLICY_KEY, JSON.stringify(retryPolicy));
+    }
+    set({ retryPolicy });
+  },
+
+  setContinueOnError: (enabled: boolean) => {
+    if (typeof window !== "undefined") {
+      localStorage.setItem(CONTINUE_ON_ERROR_KEY, String(enabled));
+    }
+    set({ continueOnError: enabled });
+  },
+
+  // The run keeps isRunning until it has settled, so late results aren't taken for edits
   stopWorkflow: () => {
-    set({ isRunning: false, currentNodeId: null });
+    if (!get().isRunning) return;
+    runAbortController?.abort();
+    set({ isStopping: true });
   },
 
-  regenerateNode: async (nodeId: string) => {
-    const { nodes, updateNodeData, getConnectedInputs, isRunning } = get();
+  dismissRunSummary: () => {
+    set({ runSummary: null });
+  },
+
+  retryFailedNodes: async () => {
+    const { runSummary } = get();
+    // The earlier runs of a sweep aren't in the summary - keeping its nodes would skip them
+    if (!runSummary || runSummary.sweep) return;
+    // Completed nodes keep their outputs; failed and skipped nodes run again
+    await get().executeWorkflow(undefined, { keepNodeIds: runSummary.completedNodeIds });
+  },
+
+  regenerateNode: async (nodeId: string, options?: { chatMessage?: string }) => {
+    if (!(await loadImagesForRun(get))) return;
+
+    const { nodes, updateNodeData, isRunning } = get();
 
     if (isRunning) {
       logger.warn('node.execution', 'Cannot regenerate node, workflow already running', { nodeId });
@@ -1374,338 +1754,37 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     logger.info('node.execution', 'Regenerating node', {
       nodeId,
       nodeType: node.type,
+      isChatMessage: options?.chatMessage !== undefined,
     });
 
-    set({ isRunning: true, currentNodeId: nodeId });
-
-    try {
-      if (node.type === "nanoBanana") {
-        const nodeData = node.data as NanoBananaNodeData;
-
-        // Always get fresh connected inputs first, fall back to stored inputs only if not connected
-        const inputs = getConnectedInputs(nodeId);
-        let images = inputs.images.length > 0 ? inputs.images : nodeData.inputImages;
-        let text = inputs.text ?? nodeData.inputPrompt;
-
-        if (!images || images.length === 0 || !text) {
-          logger.error('node.error', 'nanoBanana regeneration failed: missing inputs', {
-            nodeId,
-            hasImages: !!(images && images.length > 0),
-            hasText: !!text,
-          });
-          updateNodeData(nodeId, {
-            status: "error",
-            error: "Missing image or text input",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-
-        updateNodeData(nodeId, {
-          status: "loading",
-          error: null,
-        });
+    get().pushHistory();
+    set({ isRunning: true, currentNodeIds: [nodeId] });
 
-        logger.info('api.gemini', 'Calling Gemini API for node regeneration', {
-          nodeId,
-          model: nodeData.model,
-          aspectRatio: nodeData.aspectRatio,
-          resolution: nodeData.resolution,
-          imageCount: images.length,
-          prompt: text,
-        });
-
-        const response = await fetch("/api/generate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            images,
-            prompt: text,
-            aspectRatio: nodeData.aspectRatio,
-            resolution: nodeData.resolution,
-            model: nodeData.model,
-            useGoogleSearch: nodeData.useGoogleSearch,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorJson = JSON.parse(errorText);
-            errorMessage = errorJson.error || errorMessage;
-          } catch {
-            if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-          }
-          logger.error('api.error', 'Gemini API regeneration failed', {
-            nodeId,
-            status: response.status,
-            errorMessage,
-          });
-          updateNodeData(nodeId, { status: "error", error: errorMessage });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-
-        const result = await response.json();
-        if (result.success && result.image) {
-          const timestamp = Date.now();
-          const imageId = `${timestamp}`;
-
-          // Save the newly generated image to global history
-          get().addToGlobalHistory({
-            image: result.image,
-            timestamp,
-            prompt: text,
-            aspectRatio: nodeData.aspectRatio,
-            model: nodeData.model,
-          });
-
-          // Add to node's carousel history
-          const newHistoryItem = {
-            id: imageId,
-            timestamp,
-            prompt: text,
-            aspectRatio: nodeData.aspectRatio,
-            model: nodeData.model,
-          };
-          const updatedHistory = [newHistoryItem, ...(nodeData.imageHistory || [])];
-
-          updateNodeData(nodeId, {
-            outputImage: result.image,
-            status: "complete",
-            error: null,
-            imageHistory: updatedHistory,
-            selectedHistoryIndex: 0,
-          });
-
-          // Track cost
-          const generationCost = calculateGenerationCost(nodeData.model, nodeData.resolution);
-          get().addIncurredCost(generationCost);
-
-          // Auto-save to generations folder if configured
-          const genPath = get().generationsPath;
-          if (genPath) {
-            fetch("/api/save-generation", {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                directoryPath: genPath,
-                image: result.image,
-                prompt: text,
-                imageId,
-              }),
-            }).catch((err) => {
-              console.error("Failed to save generation:", err);
-            });
-          }
-        } else {
-          updateNodeData(nodeId, {
-            status: "error",
-            error: result.error || "Generation failed",
-          });
-        }
-      } else if (node.type === "llmGenerate") {
-        const nodeData = node.data as LLMGenerateNodeData;
-
-        // Always get fresh connected inputs first, fall back to stored inputs only if not connected
-        const inputs = getConnectedInputs(nodeId);
-        const images = inputs.images.length > 0 ? inputs.images : nodeData.inputImages;
-        const text = inputs.text ?? nodeData.inputPrompt;
-
-        if (!text) {
-          logger.error('node.error', 'llmGenerate regeneration failed: missing text input', {
-            nodeId,
-          });
-          updateNodeData(nodeId, {
-            status: "error",
-            error: "Missing text input",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-
-        updateNodeData(nodeId, {
-          inputImages: images,
-          status: "loading",
-          error: null,
-        });
-
-        logger.info('api.llm', 'Calling LLM API for node regeneration', {
-          nodeId,
-          provider: nodeData.provider,
-          model: nodeData.model,
-          temperature: nodeData.temperature,
-          maxTokens: nodeData.maxTokens,
-          hasImages: images.length > 0,
-          prompt: text,
-        });
+    const { workflowId, workflowName, edges, dryRun } = get();
+    const recorder = new RunRecorder({ workflowId, workflowName, mode: "node", dryRun, nodes, edges });
+    const abortController = new AbortController();
+    runAbortController = abortController;
+    let succeeded = false;
 
-        const response = await fetch("/api/llm", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            prompt: text,
-            ...(images.length > 0 && { images }),
-            provider: nodeData.provider,
-            model: nodeData.model,
-            temperature: nodeData.temperature,
-            maxTokens: nodeData.maxTokens,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorJson = JSON.parse(errorText);
-            errorMessage = errorJson.error || errorMessage;
-          } catch {
-            if (errorText) errorMessage += ` - ${errorText.substring(0, 200)}`;
-          }
-          logger.error('api.error', 'LLM API regeneration failed', {
-            nodeId,
-            status: response.status,
-            errorMessage,
-          });
-          updateNodeData(nodeId, { status: "error", error: errorMessage });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-
-        const result = await response.json();
-        if (result.success && result.text) {
-          updateNodeData(nodeId, {
-            outputText: result.text,
-            status: "complete",
-            error: null,
-          });
-        } else {
-          logger.error('api.error', 'LLM regeneration failed', {
-            nodeId,
-            error: result.error,
-          });
-          updateNodeData(nodeId, {
-            status: "error",
-            error: result.error || "LLM generation failed",
-          });
-        }
-      } else if (node.type === "splitGrid") {
-        const nodeData = node.data as SplitGridNodeData;
-
-        // Get fresh connected inputs
-        const inputs = getConnectedInputs(nodeId);
-        const sourceImage = inputs.images[0] || null;
-
-        if (!sourceImage) {
-          logger.error('node.error', 'splitGrid regeneration failed: no input image', {
-            nodeId,
-          });
-          updateNodeData(nodeId, {
-            status: "error",
-            error: "No input image connected",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-
-        if (!nodeData.isConfigured) {
-          logger.error('node.error', 'splitGrid regeneration failed: not configured', {
-            nodeId,
-          });
-          updateNodeData(nodeId, {
-            status: "error",
-            error: "Node not configured - open settings first",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-
-        updateNodeData(nodeId, {
-          sourceImage,
-          status: "loading",
-          error: null,
-        });
-
-        logger.info('node.execution', 'Splitting grid manually', {
-          nodeId,
-          gridRows: nodeData.gridRows,
-          gridCols: nodeData.gridCols,
-          childCount: nodeData.childNodeIds.length,
-        });
-
-        try {
-          // Import and use the grid splitter
-          const { splitWithDimensions } = await import("@/utils/gridSplitter");
-          const { images: splitImages } = await splitWithDimensions(
-            sourceImage,
-            nodeData.gridRows,
-            nodeData.gridCols
-          );
-
-          // Populate child imageInput nodes with split images
-          for (let index = 0; index < nodeData.childNodeIds.length; index++) {
-            const childSet = nodeData.childNodeIds[index];
-            if (splitImages[index]) {
-              // Create a promise to get image dimensions
-              await new Promise<void>((resolve) => {
-                const img = new Image();
-                img.onload = () => {
-                  updateNodeData(childSet.imageInput, {
-                    image: splitImages[index],
-                    filename: `split-${Math.floor(index / nodeData.gridCols) + 1}-${(index % nodeData.gridCols) + 1}.png`,
-                    dimensions: { width: img.width, height: img.height },
-                  });
-                  resolve();
-                };
-                img.onerror = () => resolve();
-                img.src = splitImages[index];
-              });
-            }
-          }
-
-          logger.info('node.execution', 'Grid split completed successfully', {
-            nodeId,
-            splitCount: splitImages.length,
-          });
-          updateNodeData(nodeId, { status: "complete", error: null });
-        } catch (error) {
-          logger.error('node.error', 'splitGrid manual execution failed', {
-            nodeId,
-          }, error instanceof Error ? error : undefined);
-          updateNodeData(nodeId, {
-            status: "error",
-            error: error instanceof Error ? error.message : "Failed to split image",
-          });
-          set({ isRunning: false, currentNodeId: null });
-          await logger.endSession();
-          return;
-        }
-      }
-
-      logger.info('node.execution', 'Node regeneration completed successfully', { nodeId });
-      set({ isRunning: false, currentNodeId: null });
-
-      // Save logs to server
-      const session = logger.getCurrentSession();
-      if (session) {
-        session.endTime = new Date().toISOString();
-        fetch('/api/logs', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ session }),
-        }).catch((err) => {
-          console.error('Failed to save log session:', err);
-        });
+    try {
+      // List sources contribute their first item, as in the first run of a sweep
+      const [firstCombination] = getSweepCombinations(getSweepSources(inlineSubgraphs(nodes, edges).nodes));
+      const context = firstCombination
+        ? withSweepValues(createExecutionContext(get, recorder, abortController.signal), firstCombination)
+        : createExecutionContext(get, recorder, abortController.signal);
+      recorder.setSweepValues(firstCombination?.values);
+
+      // Fresh connected inputs win; the inputs stored on the node are used only if nothing is connected
+      recorder.nodeStarted(nodeId);
+      // Regenerating a node always asks for a new output, even with unchanged inputs
+      succeeded = await executeNode(context, nodeId, {
+        useStoredInputs: true,
+        force: true,
+        chatMessage: options?.chatMessage,
+      });
+      if (succeeded) {
+        logger.info('node.execution', 'Node regeneration completed successfully', { nodeId });
       }
-
-      await logger.endSession();
     } catch (error) {
       logger.error('node.error', 'Node regeneration failed', {
         nodeId,
@@ -1714,30 +1793,24 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
         status: "error",
         error: error instanceof Error ? error.message : "Regeneration failed",
       });
-      set({ isRunning: false, currentNodeId: null });
-
-      // Save logs to server (even on error)
-      const session = logger.getCurrentSession();
-      if (session) {
-        session.endTime = new Date().toISOString();
-        fetch('/api/logs', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ session }),
-        }).catch((err) => {
-          console.error('Failed to save log session:', err);
-        });
-      }
-
-      await logger.endSession();
     }
+
+    set({ isRunning: false, isStopping: false, currentNodeIds: [] });
+    const finishedNode = get().nodes.find((n) => n.id === nodeId);
+    if (finishedNode) recorder.nodeFinished(finishedNode, succeeded);
+    get().addRunRecord(recorder.finish(succeeded ? "completed" : abortController.signal.aborted ? "stopped" : "failed"));
+
+    // Save logs to server (even on error)
+    await finishLogSession();
   },
 
-  saveWorkflow: (name?: string) => {
+  saveWorkflow: async (name?: string) => {
+    // The file is self-contained, so images not loaded yet are embedded too
+    await get().hydrateWorkflowImages();
     const { nodes, edges, edgeStyle, groups } = get();
 
     const workflow: WorkflowFile = {
-      version: 1,
+      version: CURRENT_WORKFLOW_VERSION,
       name: name || `workflow-${new Date().toISOString().slice(0, 10)}`,
       nodes,
       edges,
@@ -1758,7 +1831,20 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     URL.revokeObjectURL(url);
   },
 
-  loadWorkflow: (workflow: WorkflowFile) => {
+  loadWorkflow: (file: WorkflowFile) => {
+    // Files come from disk or drag-and-drop, so never trust their shape
+    const { workflow, migratedFrom, warnings } = prepareWorkflowFile(file);
+    if (migratedFrom !== null) {
+      logger.info('file.load', 'Workflow migrated', {
+        fromVersion: migratedFrom,
+        toVersion: CURRENT_WORKFLOW_VERSION,
+      });
+    }
+    if (warnings.length > 0) {
+      logger.warn('file.load', 'Workflow loaded with repairs', { warnings });
+      useToast.getState().show(formatIssues("Workflow loaded with problems", warnings), "warning");
+    }
+
     // Update nodeIdCounter to avoid ID collisions
     const maxNodeId = workflow.nodes.reduce((max, node) => {
       const match = node.id.match(/-(\d+)$/);
@@ -1779,6 +1865,9 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     }, 0);
     groupIdCounter = maxGroupId;
 
+    resumeCompletedNodeIds = null;
+    resetHistoryMerge();
+
     // Look up saved config from localStorage (only if workflow has an ID)
     const configs = loadSaveConfigs();
     const savedConfig = workflow.id ? configs[workflow.id] : null;
@@ -1791,8 +1880,11 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       edges: workflow.edges,
       edgeStyle: workflow.edgeStyle || "angular",
       groups: workflow.groups || {},
+      historyPast: [],
+      historyFuture: [],
       isRunning: false,
-      currentNodeId: null,
+      currentNodeIds: [],
+      pausedAtNodeId: null,
       // Restore workflow ID and paths from localStorage if available
       workflowId: workflow.id || null,
       workflowName: workflow.name,
@@ -1802,16 +1894,42 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       hasUnsavedChanges: false,
       // Restore cost data
       incurredCost: costData?.incurredCost || 0,
+      runHistory: [],
+      runSummary: null,
+      branchSkippedNodeIds: [],
     });
+
+    // Version 2 files reference images by hash - the canvas loads them as their nodes come into view
+    missingImageRefs.clear();
+    const refCount = collectNodeStrings(workflow.nodes, isImageRef).length;
+    if (refCount > 0 && !savedConfig?.directoryPath) {
+      logger.warn('file.load', 'Cannot load referenced images without a project folder', { refCount });
+      useToast
+        .getState()
+        .show(
+          `${refCount} image${refCount === 1 ? "" : "s"} could not be loaded. Set this workflow's project folder in project settings.`,
+          "warning"
+        );
+    }
   },
 
   clearWorkflow: () => {
+    resumeCompletedNodeIds = null;
+    // Clearing can be undone - the step keeps the project settings, so the workflow comes back as it was
+    get().pushHistory();
+    set((state) => ({
+      historyPast: [
+        ...state.historyPast.slice(0, -1),
+        { ...state.historyPast[state.historyPast.length - 1], metadata: getWorkflowMetadata(state) },
+      ],
+    }));
     set({
       nodes: [],
       edges: [],
       groups: {},
       isRunning: false,
-      currentNodeId: null,
+      currentNodeIds: [],
+      pausedAtNodeId: null,
       // Reset auto-save state when clearing workflow
       workflowId: null,
       workflowName: null,
@@ -1821,6 +1939,24 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
       hasUnsavedChanges: false,
       // Reset cost tracking
       incurredCost: 0,
+      runHistory: [],
+      runSummary: null,
+      branchSkippedNodeIds: [],
+    });
+  },
+
+  hydrateWorkflowImages: async (nodeIds?: string[]) => {
+    const { nodes, saveDirectoryPath } = get();
+    if (!saveDirectoryPath) return;
+
+    // Loading everything (before a run) tries the missing ones again
+    const scope = nodeIds ? nodes.filter((node) => nodeIds.includes(node.id)) : nodes;
+    const refs = collectNodeStrings(scope, isImageRef).filter((ref) => !nodeIds || !missingImageRefs.has(ref));
+    if (refs.length === 0) return;
+
+    await loadImageRefs(refs, saveDirectoryPath, (loaded) => {
+      // Refs are content hashes, so they can be swapped into whatever workflow is open now
+      set((state) => ({ nodes: replaceNodeStrings(state.nodes, loaded) }));
     });
   },
 
@@ -1839,8 +1975,121 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     set({ globalImageHistory: [] });
   },
 
+  addRunRecord: (record: RunRecord) => {
+    set((state) => ({ runHistory: [record, ...state.runHistory] }));
+
+    // Unsaved projects keep their history in memory only
+    const directoryPath = get().saveDirectoryPath;
+    if (directoryPath) {
+      fetch("/api/run-history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directoryPath, record }),
+      }).catch((err) => {
+        console.error("Failed to save run record:", err);
+      });
+    }
+  },
+
+  loadRunHistory: async () => {
+    const directoryPath = get().saveDirectoryPath;
+    if (!directoryPath) return;
+
+    try {
+      const response = await fetch(`/api/run-history?path=${encodeURIComponent(directoryPath)}`);
+      const result = await response.json();
+      if (!result.success) {
+        useToast.getState().show(`Failed to load run history: ${result.error}`, "error");
+        return;
+      }
+
+      // Keep runs not written to disk yet, e.g. from before the project folder was set
+      set((state) => {
+        const onDisk = result.runs as RunRecord[];
+        const ids = new Set(onDisk.map((run) => run.id));
+        return {
+          runHistory: [...state.runHistory.filter((run) => !ids.has(run.id)), ...onDisk]
+            .sort((a, b) => b.startedAt - a.startedAt),
+        };
+      });
+    } catch (error) {
+      logger.error('file.error', 'Failed to load run history', {
+        directoryPath,
+      }, error instanceof Error ? error : undefined);
+    }
+  },
+
+  restoreRunOutput: async (runId: string, entryIndex: number) => {
+    const { runHistory, nodes, generationsPath, updateNodeData } = get();
+    const entry = runHistory.find((run) => run.id === runId)?.nodes[entryIndex];
+    const node = entry && nodes.find((n) => n.id === entry.nodeId);
+    if (!entry || !node) {
+      useToast.getState().show("That node is no longer in the workflow", "warning");
+      return false;
+    }
+
+    if (node.type === "llmGenerate" && entry.outputText !== undefined) {
+      get().pushHistory();
+      updateNodeData(node.id, { outputText: entry.outputText, status: "complete", error: null });
+      return true;
+    }
+
+    if (node.type === "nanoBanana" && entry.outputImageId) {
+      if (!generationsPath) {
+        useToast.getState().show("Set a generations folder in project settings to restore images", "warning");
+        return false;
+      }
+
+      try {
+        const response = await fetch("/api/load-generation", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ directoryPath: generationsPath, imageId: entry.outputImageId }),
+        });
+        const result = await response.json();
+        if (!result.success) {
+          useToast.getState().show(`Could not restore image: ${result.error}`, "error");
+          return false;
+        }
+
+        // Point the carousel at the restored image when it is still in the node's history
+        const historyIndex = ((node.data as NanoBananaNodeData).imageHistory || [])
+          .findIndex((item) => item.id === entry.outputImageId);
+        get().pushHistory();
+        updateNodeData(node.id, {
+          outputImage: result.image,
+          status: "complete",
+          error: null,
+          ...(historyIndex >= 0 && { selectedHistoryIndex: historyIndex }),
+        });
+        return true;
+      } catch (error) {
+        logger.error('file.error', 'Failed to restore run output', {
+          runId,
+          nodeId: node.id,
+        }, error instanceof Error ? error : undefined);
+        useToast.getState().show("Could not restore image", "error");
+        return false;
+      }
+    }
+
+    useToast.getState().show("This run has no output to restore for that node", "warning");
+    return false;
+  },
+
   // Auto-save actions
   setWorkflowMetadata: (id: string, name: string, path: string, generationsPath: string | null) => {
+    // Images not loaded yet are in the old folder - fetch them before saving points the refs at the new one
+    const previousPath = get().saveDirectoryPath;
+    const refs = collectNodeStrings(get().nodes, isImageRef);
+    if (previousPath && previousPath !== path && refs.length > 0) {
+      loadImageRefs(refs, previousPath, (loaded) => {
+        set((state) => ({ nodes: replaceNodeStrings(state.nodes, loaded) }));
+      });
+    }
+    // Refs missing from one folder may be in the next
+    missingImageRefs.clear();
+
     set({
       workflowId: id,
       workflowName: name,
@@ -1872,7 +2121,6 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
 
   saveToFile: async () => {
     const {
-      nodes,
       edges,
       edgeStyle,
       groups,
@@ -1886,10 +2134,13 @@ export const useWorkflowStore = create<WorkflowStore>((set, get) => ({
     }
 
     set({ isSaving: true });
+    // Refs being swapped for images from another folder must not be saved as they are
+    await Promise.all(imageLoads.values());
+    const { nodes } = get();
 
     try {
       const workflow: WorkflowFile = {
-        version: 1,
+        version: CURRENT_WORKFLOW_VERSION,
         id: workflowId,
         name: workflowName,
         nodes,
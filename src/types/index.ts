@@ -8,30 +8,40 @@ export type NodeType =
   | "nanoBanana"
   | "llmGenerate"
   | "splitGrid"
-  | "output";
+  | "output"
+  | "subgraph"
+  | "mask"
+  | "imageTransform"
+  | "combineGrid"
+  | "router";
 
 // Aspect Ratios (supported by both Nano Banana and Nano Banana Pro)
 export type AspectRatio = "1:1" | "2:3" | "3:2" | "3:4" | "4:3" | "4:5" | "5:4" | "9:16" | "16:9" | "21:9";
 
-// Resolution Options (only supported by Nano Banana Pro)
+// Resolution Options (support varies by model, see image model capabilities)
 export type Resolution = "1K" | "2K" | "4K";
 
 // Image Generation Model Options
-export type ModelType = "nano-banana" | "nano-banana-pro";
+// Any model ID registered in the image provider catalog (src/providers/image/catalog.ts)
+export type BuiltInModelType = "nano-banana" | "nano-banana-pro" | "mock-image";
+export type ModelType = BuiltInModelType | (string & {});
 
 // LLM Provider Options
-export type LLMProvider = "google" | "openai";
+// "openai-compatible": a self-hosted server speaking the OpenAI API, see providers/llm/openaiCompatible.ts
+export type LLMProvider = "google" | "openai" | "openai-compatible";
 
-// LLM Model Options
-export type LLMModelType =
+// LLM Model Options - an OpenAI-compatible server's models are whatever it lists
+export type BuiltInLLMModelType =
   | "gemini-2.5-flash"
   | "gemini-3-flash-preview"
   | "gemini-3-pro-preview"
   | "gpt-4.1-mini"
   | "gpt-4.1-nano";
+export type LLMModelType = BuiltInLLMModelType | (string & {});
 
 // Node Status
-export type NodeStatus = "idle" | "loading" | "complete" | "error";
+// "cancelled": stopped by the user mid-call - the previous output, if any, is kept
+export type NodeStatus = "idle" | "loading" | "complete" | "error" | "cancelled";
 
 // Base node data - using Record to satisfy React Flow's type constraints
 export interface BaseNodeData extends Record<string, unknown> {
@@ -40,11 +50,25 @@ export interface BaseNodeData extends Record<string, unknown> {
   comment?: string;
 }
 
+// Sweep values a result was generated with, keyed by list source node title (or id)
+export type SweepValues = Record<string, string>;
+
+export interface SweepImage {
+  image: string;
+  filename: string;
+}
+
+// Image input used as a sweep list source - one run per image
+export interface ImageInputSweep {
+  images: SweepImage[];
+}
+
 // Image Input Node Data
 export interface ImageInputNodeData extends BaseNodeData {
-  image: string | null;
+  image: string | null; // Mirrors the first sweep image while sweeping
   filename: string | null;
   dimensions: { width: number; height: number } | null;
+  sweep?: ImageInputSweep;
 }
 
 // Annotation Shape Types
@@ -105,9 +129,62 @@ export interface AnnotationNodeData extends BaseNodeData {
   outputImage: string | null;
 }
 
+// A brush stroke on a mask - points are in source image pixels
+export interface MaskStroke {
+  points: number[];
+  size: number; // Brush diameter in pixels
+  erase: boolean; // Paints "keep" back over earlier strokes
+}
+
+// Mask Node Data - a painted region of the source image for inpainting
+export interface MaskNodeData extends BaseNodeData {
+  sourceImage: string | null;
+  strokes: MaskStroke[];
+  mask: string | null; // PNG at the source size - white is the region to change, black is kept
+}
+
+// Region of an image as fractions of its size, so it still fits when a new image of another size arrives
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ImageRotation = 0 | 90 | 180 | 270; // Clockwise
+
+// Operations an Image Transform node applies, in this order - see utils/imageTransform.ts
+export interface ImageTransformSettings {
+  crop: CropRect | null;
+  rotation: ImageRotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  padAspectRatio: AspectRatio | null; // Pads evenly on both sides to reach the ratio
+  padColor: string; // CSS color
+  resizeWidth: number | null; // With only one side set the other keeps the aspect ratio
+  resizeHeight: number | null;
+}
+
+// Image Transform Node Data (Utility Node)
+export interface ImageTransformNodeData extends BaseNodeData, ImageTransformSettings {
+  sourceImage: string | null;
+  outputImage: string | null;
+  status: NodeStatus;
+  error: string | null;
+}
+
+// Prompt used as a sweep list source - one run per non-empty line, or per row of a CSV column
+export type PromptSweepSource = "lines" | "csv";
+
+export interface PromptSweep {
+  source: PromptSweepSource;
+  column: string; // CSV header to read; empty uses the first column
+}
+
 // Prompt Node Data
 export interface PromptNodeData extends BaseNodeData {
   prompt: string;
+  sweep?: PromptSweep;
 }
 
 // Image History Item (for tracking generated images)
@@ -118,6 +195,7 @@ export interface ImageHistoryItem {
   prompt: string;         // The prompt used
   aspectRatio: AspectRatio;
   model: ModelType;
+  sweepValues?: SweepValues;
 }
 
 // Carousel Image Item (for per-node history)
@@ -127,6 +205,32 @@ export interface CarouselImageItem {
   prompt: string;
   aspectRatio: AspectRatio;
   model: ModelType;
+  sweepValues?: SweepValues;
+  batchId?: string; // Shared by the candidates of one request
+}
+
+// One exchange of a generate node's chat - the thread is sent back with every new message
+export interface ImageChatTurn {
+  prompt: string;
+  images: string[]; // Images sent with the message - only the first turn has the node's inputs
+  image: string; // The model's answer
+  thoughtSignature?: string; // Gemini wants its signature back with the answer on later turns
+  timestamp: number;
+}
+
+// How provider calls are retried - set for the workflow in the Run menu, overridable per node
+export interface RetryPolicy {
+  maxAttempts: number; // 1 = no retries
+  baseDelayMs: number; // Backoff before the second attempt, doubled for each one after
+  maxDelayMs: number; // Longest wait between attempts, including a provider's Retry-After
+  timeoutMs: number; // Per attempt, 0 = no timeout
+}
+
+// Provider calls made by the node's latest execution - see utils/retry.ts
+export interface NodeAttempts {
+  attempt: number;
+  maxAttempts: number;
+  lastError: string | null; // Why the previous attempt failed
 }
 
 // Nano Banana Node Data (Image Generation)
@@ -135,13 +239,21 @@ export interface NanoBananaNodeData extends BaseNodeData {
   inputPrompt: string | null;
   outputImage: string | null;
   aspectRatio: AspectRatio;
-  resolution: Resolution; // Only used by Nano Banana Pro
+  resolution: Resolution; // Only used by models that support multiple resolutions
   model: ModelType;
-  useGoogleSearch: boolean; // Only available for Nano Banana Pro
+  useGoogleSearch: boolean; // Only used by models that support Google Search
   status: NodeStatus;
   error: string | null;
   imageHistory: CarouselImageItem[]; // Carousel history (IDs only)
   selectedHistoryIndex: number; // Currently selected image in carousel
+  inputHash?: string; // Inputs and settings behind outputImage - see utils/nodeCache.ts
+  retryPolicy?: Partial<RetryPolicy>; // Overrides the workflow's policy
+  attempts?: NodeAttempts | null;
+  chatMode?: boolean; // Follow-up messages edit the output in a conversation with the model
+  chatTurns?: ImageChatTurn[]; // Oldest first - a run starts a new thread
+  candidateCount?: number; // Images per run, 1 when missing - chat mode always makes one
+  candidateImages?: string[] | null; // The last run's candidates when it made more than one
+  inputMask?: string | null; // Limits the edit to the white region of the first input image
 }
 
 // LLM Generate Node Data (Text Generation)
@@ -153,8 +265,15 @@ export interface LLMGenerateNodeData extends BaseNodeData {
   model: LLMModelType;
   temperature: number;
   maxTokens: number;
+  outputSchema?: string | null; // JSON schema text - set for structured output, see utils/structuredOutput.ts
+  // One pair per list item, see utils/listExpansion.ts. item is what was last written to the prompt.
+  childNodeIds?: Array<{ prompt: string; nanoBanana: string; item?: string }>;
   status: NodeStatus;
   error: string | null;
+  inputHash?: string; // Inputs and settings behind outputText - see utils/nodeCache.ts
+  retryPolicy?: Partial<RetryPolicy>; // Overrides the workflow's policy
+  attempts?: NodeAttempts | null;
+  streamingText?: string | null; // Output so far while the response streams in
 }
 
 // Output Node Data
@@ -185,6 +304,85 @@ export interface SplitGridNodeData extends BaseNodeData {
   error: string | null;
 }
 
+// How a Combine Grid node lays out its images - see utils/gridCombiner.ts
+export interface GridCombineSettings {
+  gridRows: number | null; // Null fits the grid to the number of images
+  gridCols: number | null;
+  cellWidth: number; // Cells take the aspect ratio of the first image
+  gutter: number; // Pixels between cells and around the edge
+  backgroundColor: string; // CSS color
+}
+
+// Combine Grid Node Data (Utility Node) - the inverse of Split Grid
+export interface CombineGridNodeData extends BaseNodeData, GridCombineSettings {
+  inputImages: string[];
+  outputImage: string | null;
+  status: NodeStatus;
+  error: string | null;
+}
+
+// How a router node picks a branch - see utils/router.ts
+export type RouterMode = "rule" | "llm";
+
+export type RouterRuleOperator = "contains" | "equals" | "regex";
+
+// One named output of a router node
+export interface RouterBranch {
+  id: string; // Names the output handle, so renaming keeps connections
+  name: string;
+  operator: RouterRuleOperator; // Rule mode only
+  value: string; // Rule mode: what the text is matched against. LLM mode: an optional description for the model
+}
+
+// Router Node Data - sends its text and images down the one branch it picks; nodes on the others are skipped
+export interface RouterNodeData extends BaseNodeData {
+  mode: RouterMode;
+  branches: RouterBranch[]; // Checked in order - the first match wins, "Otherwise" takes the rest
+  caseSensitive: boolean; // Rule mode only
+  question: string; // LLM mode: what to decide about the input
+  provider: LLMProvider;
+  model: LLMModelType;
+  inputText: string | null; // Passed on by the branch taken
+  inputImages: string[]; // Passed on by the branch taken, and shown to the model in LLM mode
+  selectedBranch: string | null; // Output handle the last run took
+  status: NodeStatus;
+  error: string | null;
+  retryPolicy?: Partial<RetryPolicy>; // Overrides the workflow's policy
+  attempts?: NodeAttempts | null;
+}
+
+// A handle exposed on a subgraph node, standing in for a handle of a node inside it
+export interface SubgraphPort {
+  id: string; // Handle ID on the subgraph node - see utils/subgraph.ts
+  label: string;
+  type: HandleType;
+  nodeId: string; // Inner node
+  handleId: string; // Handle on the inner node
+}
+
+// The graph inside a subgraph node. Inner node positions are relative to the group it came from.
+export interface SubgraphDefinition {
+  name: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  inputs: SubgraphPort[];
+  outputs: SubgraphPort[];
+}
+
+// Subgraph Node Data - a collapsed group that runs as if its nodes were on the canvas
+export interface SubgraphNodeData extends BaseNodeData {
+  subgraph: SubgraphDefinition;
+  libraryId?: string; // Library entry it was created from or saved as
+}
+
+// A subgraph saved for reuse across workflows
+export interface SubgraphLibraryEntry {
+  id: string;
+  name: string;
+  savedAt: number;
+  subgraph: SubgraphDefinition;
+}
+
 // Union of all node data types
 export type WorkflowNodeData =
   | ImageInputNodeData
@@ -193,7 +391,12 @@ export type WorkflowNodeData =
   | NanoBananaNodeData
   | LLMGenerateNodeData
   | SplitGridNodeData
-  | OutputNodeData;
+  | OutputNodeData
+  | SubgraphNodeData
+  | MaskNodeData
+  | ImageTransformNodeData
+  | CombineGridNodeData
+  | RouterNodeData;
 
 // Workflow Node with typed data (extended with optional groupId)
 export type WorkflowNode = Node<WorkflowNodeData, NodeType> & {
@@ -209,22 +412,29 @@ export interface WorkflowEdgeData extends Record<string, unknown> {
 export type WorkflowEdge = Edge<WorkflowEdgeData>;
 
 // Handle Types for connections
-export type HandleType = "image" | "text";
+export type HandleType = "image" | "text" | "mask";
 
 // API Request/Response types for Image Generation
 export interface GenerateRequest {
   images: string[]; // Now supports multiple images
   prompt: string;
   aspectRatio?: AspectRatio;
-  resolution?: Resolution; // Only for Nano Banana Pro
+  resolution?: Resolution; // Ignored by models with a single resolution
   model?: ModelType;
-  useGoogleSearch?: boolean; // Only for Nano Banana Pro
+  useGoogleSearch?: boolean; // Ignored by models without Google Search support
+  history?: ImageChatTurn[]; // Earlier turns of a chat, oldest first - images are optional with it
+  candidateCount?: number; // Images to generate, 1 when missing
+  mask?: string; // Region of the first image to change - white changes, black is kept
+  dryRun?: boolean; // Return a placeholder image instead of calling the provider
 }
 
 export interface GenerateResponse {
   success: boolean;
   image?: string;
   error?: string;
+  dryRun?: boolean; // Set when the image is a placeholder - no cost was incurred
+  thoughtSignature?: string; // Send back with the image when continuing a chat
+  images?: string[]; // Every candidate when more than one was generated - image is the first
 }
 
 // API Request/Response types for LLM Text Generation
@@ -235,14 +445,31 @@ export interface LLMGenerateRequest {
   model: LLMModelType;
   temperature?: number;
   maxTokens?: number;
+  responseSchema?: Record<string, unknown>; // Ask for JSON matching this schema
+  dryRun?: boolean; // Echo the prompt back instead of calling the provider
+  stream?: boolean; // Answer with server-sent LLMStreamEvents instead of one JSON body
 }
 
 export interface LLMGenerateResponse {
   success: boolean;
   text?: string;
   error?: string;
+  dryRun?: boolean; // Set when the text is a placeholder - no cost was incurred
 }
 
+// Models of the OpenAI-compatible server, from /api/llm/models
+export interface LLMModelsResponse {
+  success: boolean;
+  models?: string[];
+  error?: string;
+}
+
+// Events of a streamed /api/llm response; the stream ends with "done" or "error"
+export type LLMStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "done"; text: string; dryRun?: boolean }
+  | { type: "error"; error: string; status: number; retryAfterMs?: number };
+
 // Tool Types for annotation
 export type ToolType = "select" | "rectangle" | "circle" | "arrow" | "freehand" | "text";
 
@@ -271,6 +498,50 @@ export interface WorkflowCostData {
   lastUpdated: number;
 }
 
+// Run history - one record per execution, saved in the project's run-history/ folder
+export type RunParameterValue = string | number | boolean | null;
+
+export interface NodeRunRecord {
+  nodeId: string;
+  type: NodeType;
+  title: string | null;
+  startedAt: number;
+  finishedAt: number;
+  succeeded: boolean;
+  error: string | null;
+  inputs: Record<string, RunParameterValue>; // Resolved inputs and settings the node ran with
+  outputImageId?: string; // ID in the generations folder
+  cached?: boolean; // Output reused because the inputs were unchanged
+  cancelled?: boolean; // Stopped while its provider call was in flight
+  outputText?: string | null;
+  sweepValues?: SweepValues;
+}
+
+export type RunRecordStatus = "completed" | "failed" | "stopped" | "paused";
+
+export interface RunRecord {
+  id: string;
+  workflowId: string | null;
+  workflowName: string | null;
+  snapshotHash: string; // Same hash = same graph and node settings
+  mode: "workflow" | "node"; // Full run or single-node regeneration
+  status: RunRecordStatus;
+  startedAt: number;
+  finishedAt: number;
+  dryRun: boolean;
+  cost: number;
+  nodes: NodeRunRecord[];
+}
+
+// What happened to each node in the last run that had failures or continued on error
+export interface RunSummary {
+  completedNodeIds: string[];
+  failedNodes: Array<{ nodeId: string; error: string | null }>;
+  skippedNodeIds: string[]; // Not run because a node they depend on failed
+  branchSkippedNodeIds: string[]; // Not run because a router didn't take their branch
+  sweep: boolean; // Covers the last run of a sweep only, so it can't be retried
+}
+
 // Group background color options (dark mode tints)
 export type GroupColor =
   | "neutral"
@@ -0,0 +1,162 @@
+/**
+ * Tiny 5x7 bitmap font for stamping labels onto raw RGB pixel buffers
+ * Used by synthesized placeholder images. Lowercase is drawn as uppercase and
+ * unsupported characters as "?".
+ */
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+// One entry per row, top to bottom; bit 4 is the leftmost pixel
+const GLYPHS: Record<string, number[]> = {
+  A: [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x1e],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  "0": [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  "1": [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  "2": [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  "3": [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  "4": [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  "5": [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  "6": [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  "7": [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  "8": [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  "9": [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  " ": [0, 0, 0, 0, 0, 0, 0],
+  ".": [0, 0, 0, 0, 0, 0x0c, 0x0c],
+  ",": [0, 0, 0, 0, 0x0c, 0x04, 0x08],
+  ":": [0, 0x0c, 0x0c, 0, 0x0c, 0x0c, 0],
+  ";": [0, 0x0c, 0x0c, 0, 0x0c, 0x04, 0x08],
+  "!": [0x04, 0x04, 0x04, 0x04, 0x04, 0, 0x04],
+  "?": [0x0e, 0x11, 0x01, 0x02, 0x04, 0, 0x04],
+  "-": [0, 0, 0, 0x1f, 0, 0, 0],
+  _: [0, 0, 0, 0, 0, 0, 0x1f],
+  "'": [0x04, 0x04, 0x08, 0, 0, 0, 0],
+  '"': [0x0a, 0x0a, 0, 0, 0, 0, 0],
+  "(": [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ")": [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  "[": [0x0e, 0x08, 0x08, 0x08, 0x08, 0x08, 0x0e],
+  "]": [0x0e, 0x02, 0x02, 0x02, 0x02, 0x02, 0x0e],
+  "{": [0x02, 0x04, 0x04, 0x08, 0x04, 0x04, 0x02],
+  "}": [0x08, 0x04, 0x04, 0x02, 0x04, 0x04, 0x08],
+  "<": [0x02, 0x04, 0x08, 0x10, 0x08, 0x04, 0x02],
+  ">": [0x08, 0x04, 0x02, 0x01, 0x02, 0x04, 0x08],
+  "/": [0, 0x01, 0x02, 0x04, 0x08, 0x10, 0],
+  "+": [0, 0x04, 0x04, 0x1f, 0x04, 0x04, 0],
+  "=": [0, 0, 0x1f, 0, 0x1f, 0, 0],
+  "*": [0, 0x04, 0x15, 0x0e, 0x15, 0x04, 0],
+  "%": [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  "&": [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+  "#": [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+  "@": [0x0e, 0x11, 0x01, 0x0d, 0x15, 0x15, 0x0e],
+};
+
+// Horizontal space taken by one character at the given scale (glyph + 1px gap)
+export function getCharAdvance(scale: number): number {
+  return (GLYPH_WIDTH + 1) * scale;
+}
+
+/**
+ * Greedy word wrap to at most maxLines lines of maxChars characters.
+ * The last line gets an ellipsis when text is cut off.
+ */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const words = text.replace(/\s+/g, " ").trim().split(" ").filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of words) {
+    // Hard-split words that don't fit on a line by themselves
+    for (let i = 0; i < word.length; i += maxChars) {
+      const piece = word.slice(i, i + maxChars);
+      const candidate = current ? `${current} ${piece}` : piece;
+      if (candidate.length <= maxChars && i === 0) {
+        current = candidate;
+      } else {
+        if (current) lines.push(current);
+        current = piece;
+      }
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, Math.max(0, maxChars - 3))}...`;
+    return kept;
+  }
+  return lines;
+}
+
+// Blend a rectangle towards a color; alpha 1 paints it solid
+export function shadeRect(
+  rgb: Uint8Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  color: [number, number, number],
+  alpha: number
+): void {
+  const x0 = Math.max(0, x);
+  const y0 = Math.max(0, y);
+  const x1 = Math.min(width, x + w);
+  const y1 = Math.min(height, y + h);
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const offset = (py * width + px) * 3;
+      for (let c = 0; c < 3; c++) {
+        rgb[offset + c] = Math.round(rgb[offset + c] * (1 - alpha) + color[c] * alpha);
+      }
+    }
+  }
+}
+
+// Draw a single line of text with its top-left corner at (x, y), clipped to the buffer
+export function drawText(
+  rgb: Uint8Array,
+  width: number,
+  height: number,
+  text: string,
+  x: number,
+  y: number,
+  scale: number,
+  color: [number, number, number]
+): void {
+  const advance = getCharAdvance(scale);
+  Array.from(text.toUpperCase()).forEach((char, index) => {
+    const glyph = GLYPHS[char] ?? GLYPHS["?"];
+    const originX = x + index * advance;
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        if (!(glyph[row] & (1 << (GLYPH_WIDTH - 1 - col)))) continue;
+        shadeRect(rgb, width, height, originX + col * scale, y + row * scale, scale, scale, color, 1);
+      }
+    }
+  });
+}
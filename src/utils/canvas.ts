@@ -0,0 +1,25 @@
+/**
+ * Canvas helpers shared by the image utilities that draw in the browser -
+ * masks, Image Transform and Combine Grid.
+ *
+ * Browser only.
+ */
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+
+// Blank canvas of the given size, scaling images at high quality
+export function createCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to get canvas context");
+  ctx.imageSmoothingQuality = "high";
+  return { canvas, ctx };
+}
@@ -1,25 +1,13 @@
-import { ModelType, Resolution, NanoBananaNodeData, SplitGridNodeData, WorkflowNode } from "@/types";
-
-// Pricing in USD per image (Gemini API)
-export const PRICING = {
-  "nano-banana": {
-    "1K": 0.039,
-    "2K": 0.039, // nano-banana only supports 1K
-    "4K": 0.039,
-  },
-  "nano-banana-pro": {
-    "1K": 0.134,
-    "2K": 0.134,
-    "4K": 0.24,
-  },
-} as const;
+import { ModelType, Resolution, NanoBananaNodeData, SplitGridNodeData, WorkflowEdge, WorkflowNode } from "@/types";
+import { getCandidateCount, getEffectiveResolution, getImageModel } from "@/providers/image/catalog";
+import { inlineSubgraphs } from "@/utils/subgraph";
+import { countSweepCombinations, getDownstreamNodeIds, getSweepSources } from "@/utils/sweep";
 
+// Price in USD per image, from the image model catalog. Unknown models cost nothing.
 export function calculateGenerationCost(model: ModelType, resolution: Resolution): number {
-  // nano-banana only supports 1K resolution
-  if (model === "nano-banana") {
-    return PRICING["nano-banana"]["1K"];
-  }
-  return PRICING["nano-banana-pro"][resolution];
+  const definition = getImageModel(model);
+  if (!definition) return 0;
+  return definition.pricing[getEffectiveResolution(model, resolution)] ?? 0;
 }
 
 export interface CostBreakdownItem {
@@ -36,26 +24,38 @@ export interface PredictedCostResult {
   nodeCount: number;
 }
 
-export function calculatePredictedCost(nodes: WorkflowNode[]): PredictedCostResult {
+export function calculatePredictedCost(
+  canvasNodes: WorkflowNode[],
+  canvasEdges: WorkflowEdge[]
+): PredictedCostResult {
+  // Subgraphs cost what the nodes inside them cost
+  const { nodes, edges } = inlineSubgraphs(canvasNodes, canvasEdges);
   const breakdown: Map<string, { model: ModelType; resolution: Resolution; count: number; unitCost: number }> = new Map();
 
   let nodeCount = 0;
 
+  // Nodes downstream of list sources run once per sweep combination
+  const sweepSources = getSweepSources(nodes);
+  const sweepCount = countSweepCombinations(sweepSources);
+  const sweptNodeIds = getDownstreamNodeIds(edges, sweepSources.map((source) => source.nodeId));
+
   nodes.forEach((node) => {
     if (node.type === "nanoBanana") {
       const data = node.data as NanoBananaNodeData;
       const model = data.model;
-      const resolution = model === "nano-banana" ? "1K" : data.resolution;
+      const resolution = getEffectiveResolution(model, data.resolution);
       const unitCost = calculateGenerationCost(model, resolution);
       const key = `${model}-${resolution}`;
+      // Every candidate is billed as an image
+      const count = (sweptNodeIds.has(node.id) ? sweepCount : 1) * getCandidateCount(data);
 
       const existing = breakdown.get(key);
       if (existing) {
-        existing.count++;
+        existing.count += count;
       } else {
-        breakdown.set(key, { model, resolution, count: 1, unitCost });
+        breakdown.set(key, { model, resolution, count, unitCost });
       }
-      nodeCount++;
+      nodeCount += count;
     }
 
     // SplitGrid nodes create child nanoBanana nodes - count those from settings
@@ -65,7 +65,7 @@ export function calculatePredictedCost(nodes: WorkflowNode[]): PredictedCostResu
       const data = node.data as SplitGridNodeData;
       if (data.isConfigured && data.targetCount > 0) {
         const model = data.generateSettings.model;
-        const resolution = model === "nano-banana" ? "1K" : data.generateSettings.resolution;
+        const resolution = getEffectiveResolution(model, data.generateSettings.resolution);
         const unitCost = calculateGenerationCost(model, resolution);
         const key = `splitGrid-${model}-${resolution}`;
 
@@ -0,0 +1,15 @@
+/**
+ * Dry-run mode: API routes return placeholder output instead of calling providers.
+ * Enabled per request by the client toggle, or for every request with
+ * NODE_BANANA_DRY_RUN=true in .env.local.
+ * Server-side only
+ */
+
+export function isDryRunForced(): boolean {
+  const value = process.env.NODE_BANANA_DRY_RUN?.toLowerCase();
+  return value === "true" || value === "1";
+}
+
+export function isDryRunRequest(body: { dryRun?: boolean }): boolean {
+  return body.dryRun === true || isDryRunForced();
+}
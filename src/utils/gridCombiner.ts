@@ -0,0 +1,138 @@
+/**
+ * Grid Combiner Utility
+ *
+ * Lays images out as a contact sheet - the inverse of the Grid Splitter. Cells
+ * are filled row by row in the order the images come in, each image fitted
+ * inside its cell and centered, with an optional caption below it.
+ */
+
+import { GridCombineSettings } from "@/types";
+import { createCanvas, loadImage } from "./canvas";
+
+export const DEFAULT_GRID_COMBINE: GridCombineSettings = {
+  gridRows: null,
+  gridCols: null,
+  cellWidth: 512,
+  gutter: 16,
+  backgroundColor: "#ffffff",
+};
+
+// Largest size the sheet may have on either side
+export const MAX_GRID_SIZE = 8192;
+
+/**
+ * Rows and columns for a number of images. With neither set the grid is as
+ * square as it can be, wider than tall; with one set the other follows.
+ */
+export function getGridSize(count: number, settings: Pick<GridCombineSettings, "gridRows" | "gridCols">) {
+  const { gridRows, gridCols } = settings;
+  if (gridRows && gridCols) {
+    if (gridRows * gridCols < count) {
+      throw new Error(`A ${gridRows}x${gridCols} grid has room for ${gridRows * gridCols} images, not ${count}`);
+    }
+    return { rows: gridRows, cols: gridCols };
+  }
+  if (gridRows) return { rows: gridRows, cols: Math.max(1, Math.ceil(count / gridRows)) };
+  if (gridCols) return { rows: Math.max(1, Math.ceil(count / gridCols)), cols: gridCols };
+
+  const cols = Math.max(1, Math.ceil(Math.sqrt(count)));
+  return { rows: Math.max(1, Math.ceil(count / cols)), cols };
+}
+
+/**
+ * Cell and sheet sizes. Cells take the aspect ratio of the first image;
+ * captions get a strip below each cell, sized to the cell width.
+ */
+export function getGridLayout(
+  count: number,
+  firstImage: { width: number; height: number },
+  settings: GridCombineSettings,
+  hasCaptions: boolean
+) {
+  const { rows, cols } = getGridSize(count, settings);
+  const cellWidth = Math.max(1, Math.round(settings.cellWidth));
+  const cellHeight = Math.max(1, Math.round((cellWidth * firstImage.height) / firstImage.width));
+  const fontSize = Math.max(12, Math.round(cellWidth / 24));
+  const captionHeight = hasCaptions ? Math.round(fontSize * 1.8) : 0;
+  const gutter = Math.max(0, Math.round(settings.gutter));
+
+  return {
+    rows,
+    cols,
+    cellWidth,
+    cellHeight,
+    fontSize,
+    captionHeight,
+    gutter,
+    width: cols * cellWidth + (cols + 1) * gutter,
+    height: rows * (cellHeight + captionHeight) + (rows + 1) * gutter,
+  };
+}
+
+// Shortens text with an ellipsis until it fits the width
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+/**
+ * Combines the images into one sheet and returns a PNG data URL. Captions
+ * line up with the images by index - missing ones leave the strip empty.
+ * Browser only.
+ */
+export async function combineGrid(
+  images: string[],
+  captions: string[],
+  settings: GridCombineSettings
+): Promise<string> {
+  const loaded = await Promise.all(images.map(loadImage));
+  const layout = getGridLayout(
+    loaded.length,
+    { width: loaded[0].naturalWidth, height: loaded[0].naturalHeight },
+    settings,
+    captions.some((caption) => caption !== "")
+  );
+  if (layout.width > MAX_GRID_SIZE || layout.height > MAX_GRID_SIZE) {
+    throw new Error(`Sheet would be ${layout.width}x${layout.height} - the limit is ${MAX_GRID_SIZE} on each side`);
+  }
+
+  const { canvas, ctx } = createCanvas(layout.width, layout.height);
+
+  ctx.fillStyle = settings.backgroundColor;
+  ctx.fillRect(0, 0, layout.width, layout.height);
+
+  // Captions are dark on light backgrounds and light on dark ones
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  ctx.fillStyle = luminance > 0.5 ? "#171717" : "#f5f5f5";
+  ctx.font = `${layout.fontSize}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  loaded.forEach((img, index) => {
+    const row = Math.floor(index / layout.cols);
+    const col = index % layout.cols;
+    const x = layout.gutter + col * (layout.cellWidth + layout.gutter);
+    const y = layout.gutter + row * (layout.cellHeight + layout.captionHeight + layout.gutter);
+
+    const scale = Math.min(layout.cellWidth / img.naturalWidth, layout.cellHeight / img.naturalHeight);
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    ctx.drawImage(img, x + (layout.cellWidth - width) / 2, y + (layout.cellHeight - height) / 2, width, height);
+
+    const caption = captions[index];
+    if (caption) {
+      ctx.fillText(
+        fitText(ctx, caption, layout.cellWidth),
+        x + layout.cellWidth / 2,
+        y + layout.cellHeight + layout.captionHeight / 2
+      );
+    }
+  });
+
+  return canvas.toDataURL("image/png");
+}
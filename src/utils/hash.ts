@@ -0,0 +1,28 @@
+// 53-bit string hash (cyrb53) - fast and stable, not for security
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+// Image data URLs are large and get hashed repeatedly (on every render, for
+// cache state) - remember the hashes of recently seen values
+const MAX_MEMOIZED_HASHES = 256;
+const memoizedHashes = new Map<string, string>();
+
+export function hashContent(value: string): string {
+  let hash = memoizedHashes.get(value);
+  if (hash === undefined) {
+    hash = hashString(value);
+    if (memoizedHashes.size >= MAX_MEMOIZED_HASHES) memoizedHashes.clear();
+    memoizedHashes.set(value, hash);
+  }
+  return hash;
+}
@@ -0,0 +1,68 @@
+/**
+ * Image references used by saved workflow files (version 2+).
+ *
+ * Instead of embedding base64 data URLs, saved workflows point at files in an
+ * `images/` folder next to the workflow JSON, named by the SHA-256 of their
+ * bytes. Identical images are stored once, however many nodes use them.
+ * In memory, nodes always hold data URLs - refs only exist in files and while
+ * a freshly loaded workflow is being hydrated.
+ */
+
+import { WorkflowNode } from "@/types";
+
+export const IMAGE_STORE_DIR = "images";
+
+const IMAGE_REF_PATTERN = /^images\/[0-9a-f]{64}\.(png|jpg|webp|gif)$/;
+
+export function isImageRef(value: unknown): value is string {
+  return typeof value === "string" && IMAGE_REF_PATTERN.test(value);
+}
+
+export function isImageDataUrl(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("data:image/");
+}
+
+/**
+ * Stored images are read back typed by their file extension, so "image/jpg" -
+ * not a registered type, but some sources use it - comes back as "image/jpeg".
+ * Data URLs are normalized before they are stored or hashed so a save and
+ * reload doesn't change them.
+ */
+export const normalizeImageDataUrl = (dataUrl: string) =>
+  dataUrl.startsWith("data:image/jpg;") ? `data:image/jpeg;${dataUrl.slice("data:image/jpg;".length)}` : dataUrl;
+
+// Deep-map every string inside plain objects and arrays, leaving everything else as-is
+export function mapStrings<T>(value: T, fn: (value: string) => string): T {
+  if (typeof value === "string") {
+    return fn(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, fn)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    ) as T;
+  }
+  return value;
+}
+
+// Unique strings in node data matching the predicate
+export function collectNodeStrings(nodes: WorkflowNode[], predicate: (value: string) => boolean): string[] {
+  const found = new Set<string>();
+  nodes.forEach((node) => {
+    mapStrings(node.data, (value) => {
+      if (predicate(value)) found.add(value);
+      return value;
+    });
+  });
+  return Array.from(found);
+}
+
+// Swap strings in node data using a lookup table; unmatched strings are kept
+export function replaceNodeStrings(nodes: WorkflowNode[], replacements: Map<string, string>): WorkflowNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    data: mapStrings(node.data, (value) => replacements.get(value) ?? value),
+  }));
+}
@@ -0,0 +1,123 @@
+/**
+ * Content-addressed image store for saved workflows
+ * Server-side only - see imageRefs.ts for the reference format
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { WorkflowNode } from "@/types";
+import {
+  IMAGE_STORE_DIR,
+  collectNodeStrings,
+  isImageDataUrl,
+  isImageRef,
+  normalizeImageDataUrl,
+  replaceNodeStrings,
+} from "@/utils/imageRefs";
+
+// Data URLs are normalized first, so "image/jpg" is read as "image/jpeg"
+const EXTENSION_BY_MIME: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+export interface ExternalizeResult {
+  nodes: WorkflowNode[];
+  imagesWritten: number;
+  imagesReused: number;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Split a data URL into its bytes and file extension. Returns null for unsupported formats.
+export function decodeImageDataUrl(dataUrl: string): { buffer: Buffer; extension: string } | null {
+  const match = normalizeImageDataUrl(dataUrl).match(/^data:(image\/[\w+.-]+);base64,(.*)$/);
+  const extension = match ? EXTENSION_BY_MIME[match[1]] : undefined;
+  if (!match || !extension) return null;
+  return { buffer: Buffer.from(match[2], "base64"), extension };
+}
+
+// Read an image file from disk as a data URL, typed by its extension
+export async function readImageFile(filePath: string): Promise<string> {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  const mimeType = MIME_BY_EXTENSION[extension];
+  if (!mimeType) {
+    throw new Error(`Unsupported image type: ${filePath}`);
+  }
+  const buffer = await fs.readFile(filePath);
+  return `data:${mimeType};base64,${buffer.toString("base64")}`;
+}
+
+/**
+ * Write every data URL in node data to the project's image folder and replace
+ * it with a ref. Files that already exist are not rewritten.
+ */
+export async function externalizeNodeImages(
+  nodes: WorkflowNode[],
+  directoryPath: string
+): Promise<ExternalizeResult> {
+  const dataUrls = collectNodeStrings(nodes, isImageDataUrl);
+  if (dataUrls.length === 0) {
+    return { nodes, imagesWritten: 0, imagesReused: 0 };
+  }
+
+  const imageDir = path.join(directoryPath, IMAGE_STORE_DIR);
+  await fs.mkdir(imageDir, { recursive: true });
+
+  const replacements = new Map<string, string>();
+  let imagesWritten = 0;
+  let imagesReused = 0;
+
+  for (const dataUrl of dataUrls) {
+    const decoded = decodeImageDataUrl(dataUrl);
+    // Leave anything we can't store losslessly embedded
+    if (!decoded) continue;
+
+    const { buffer, extension } = decoded;
+    const hash = createHash("sha256").update(buffer).digest("hex");
+    const ref = `${IMAGE_STORE_DIR}/${hash}.${extension}`;
+    const filePath = path.join(directoryPath, ref);
+
+    if (await fileExists(filePath)) {
+      imagesReused++;
+    } else {
+      await fs.writeFile(filePath, buffer);
+      imagesWritten++;
+    }
+    replacements.set(dataUrl, ref);
+  }
+
+  return { nodes: replaceNodeStrings(nodes, replacements), imagesWritten, imagesReused };
+}
+
+// Read a stored image back as a data URL. Returns null if the file is missing.
+export async function readImageRef(directoryPath: string, ref: string): Promise<string | null> {
+  if (!isImageRef(ref)) {
+    throw new Error(`Invalid image reference: ${ref}`);
+  }
+
+  const filePath = path.join(directoryPath, ref);
+  if (!(await fileExists(filePath))) {
+    return null;
+  }
+
+  return readImageFile(filePath);
+}
@@ -0,0 +1,125 @@
+/**
+ * Image Transform Utility
+ *
+ * Crops, rotates, flips, pads and resizes images for the Image Transform node,
+ * in that order. Sizes are worked out without a canvas so the node can show
+ * what it will output; the transform itself runs on a canvas in the browser.
+ */
+
+import { AspectRatio, CropRect, ImageTransformSettings } from "@/types";
+import { createCanvas, loadImage } from "./canvas";
+
+export const DEFAULT_IMAGE_TRANSFORM: ImageTransformSettings = {
+  crop: null,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  padAspectRatio: null,
+  padColor: "#000000",
+  resizeWidth: null,
+  resizeHeight: null,
+};
+
+// Largest size an output may have on either side
+export const MAX_TRANSFORM_SIZE = 8192;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const getRatio = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  return w / h;
+};
+
+// Crop in whole pixels, kept inside the image and at least one pixel on each side
+export function getCropPixels(crop: CropRect | null, width: number, height: number) {
+  if (!crop) return { x: 0, y: 0, width, height };
+  const x = clamp(Math.round(crop.x * width), 0, width - 1);
+  const y = clamp(Math.round(crop.y * height), 0, height - 1);
+  return {
+    x,
+    y,
+    width: clamp(Math.round(crop.width * width), 1, width - x),
+    height: clamp(Math.round(crop.height * height), 1, height - y),
+  };
+}
+
+/**
+ * Size after each step. Padding adds to the short side until the ratio is
+ * reached; resizing stretches to the given size, or scales to the one side set.
+ */
+export function getTransformSizes(width: number, height: number, settings: ImageTransformSettings) {
+  const crop = getCropPixels(settings.crop, width, height);
+
+  const quarterTurn = settings.rotation === 90 || settings.rotation === 270;
+  const rotated = quarterTurn ? { width: crop.height, height: crop.width } : { width: crop.width, height: crop.height };
+
+  let padded = rotated;
+  if (settings.padAspectRatio) {
+    const ratio = getRatio(settings.padAspectRatio);
+    padded = rotated.width / rotated.height < ratio
+      ? { width: Math.round(rotated.height * ratio), height: rotated.height }
+      : { width: rotated.width, height: Math.round(rotated.width / ratio) };
+  }
+
+  const { resizeWidth, resizeHeight } = settings;
+  let output = padded;
+  if (resizeWidth && resizeHeight) {
+    output = { width: resizeWidth, height: resizeHeight };
+  } else if (resizeWidth) {
+    output = { width: resizeWidth, height: Math.max(1, Math.round((padded.height * resizeWidth) / padded.width)) };
+  } else if (resizeHeight) {
+    output = { width: Math.max(1, Math.round((padded.width * resizeHeight) / padded.height)), height: resizeHeight };
+  }
+
+  return { crop, rotated, padded, output };
+}
+
+// Nothing to do - the image passes through untouched
+export const isIdentityTransform = (settings: ImageTransformSettings) =>
+  !settings.crop &&
+  settings.rotation === 0 &&
+  !settings.flipHorizontal &&
+  !settings.flipVertical &&
+  !settings.padAspectRatio &&
+  !settings.resizeWidth &&
+  !settings.resizeHeight;
+
+/**
+ * Applies the settings to an image and returns a PNG data URL.
+ * Browser only.
+ */
+export async function transformImage(image: string, settings: ImageTransformSettings): Promise<string> {
+  if (isIdentityTransform(settings)) return image;
+
+  const img = await loadImage(image);
+  const { crop, rotated, padded, output } = getTransformSizes(img.naturalWidth, img.naturalHeight, settings);
+  if (output.width > MAX_TRANSFORM_SIZE || output.height > MAX_TRANSFORM_SIZE) {
+    throw new Error(`Output would be ${output.width}x${output.height} - the limit is ${MAX_TRANSFORM_SIZE} on each side`);
+  }
+
+  // Crop, rotate and flip in one draw around the center
+  const step = createCanvas(rotated.width, rotated.height);
+  step.ctx.translate(rotated.width / 2, rotated.height / 2);
+  // Flips act on the rotated image, so they are applied last - outermost in the transform
+  step.ctx.scale(settings.flipHorizontal ? -1 : 1, settings.flipVertical ? -1 : 1);
+  step.ctx.rotate((settings.rotation * Math.PI) / 180);
+  step.ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, -crop.width / 2, -crop.height / 2, crop.width, crop.height);
+
+  // Pad around the center, then scale the padded image to the output size
+  const result = createCanvas(output.width, output.height);
+  const scaleX = output.width / padded.width;
+  const scaleY = output.height / padded.height;
+  if (settings.padAspectRatio) {
+    result.ctx.fillStyle = settings.padColor;
+    result.ctx.fillRect(0, 0, output.width, output.height);
+  }
+  result.ctx.drawImage(
+    step.canvas,
+    ((padded.width - rotated.width) / 2) * scaleX,
+    ((padded.height - rotated.height) / 2) * scaleY,
+    rotated.width * scaleX,
+    rotated.height * scaleY
+  );
+
+  return result.canvas.toDataURL("image/png");
+}
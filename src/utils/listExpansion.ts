@@ -0,0 +1,41 @@
+/**
+ * List expansion
+ *
+ * An LLM Generate node whose output is a list can be expanded into one
+ * prompt + generate pair per item, like a Split Grid node's cells. The pairs
+ * stay linked to the node through childNodeIds: every run writes the current
+ * items into their prompts, so the generations follow the list. Prompts edited
+ * by hand since are left alone.
+ */
+
+import { LLMGenerateNodeData } from "@/types";
+import { parseJsonOutput } from "./structuredOutput";
+
+// "- ", "* ", "• ", "1. " and "1) " in front of list lines
+const LIST_MARKER_PATTERN = /^(?:[-*•]|\d+[.)])\s+/;
+
+/**
+ * Items of the node's output: the items of a JSON array for structured output,
+ * otherwise the non-empty lines without list markers. Items that aren't
+ * strings are passed on as JSON.
+ */
+export function getListItems(data: Pick<LLMGenerateNodeData, "outputText" | "outputSchema">): string[] {
+  const { outputText } = data;
+  if (!outputText) return [];
+
+  if (data.outputSchema) {
+    let output: unknown;
+    try {
+      output = parseJsonOutput(outputText);
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(output)) return [];
+    return output.map((item) => (typeof item === "string" ? item : JSON.stringify(item, null, 2)));
+  }
+
+  return outputText
+    .split("\n")
+    .map((line) => line.trim().replace(LIST_MARKER_PATTERN, "").trim())
+    .filter((line) => line !== "");
+}
@@ -0,0 +1,79 @@
+/**
+ * Output caching
+ *
+ * Generate and LLM nodes remember a hash of the inputs and settings behind
+ * their current output. A run skips a node whose inputs still hash the same,
+ * so nodes only re-run when something upstream actually changed.
+ */
+
+import { LLMGenerateNodeData, NanoBananaNodeData, WorkflowNode } from "@/types";
+import { hashContent, hashString } from "@/utils/hash";
+import { normalizeImageDataUrl } from "@/utils/imageRefs";
+import { getCandidateCount } from "@/providers/image/catalog";
+
+export type NodeCacheState = "cached" | "stale";
+
+interface NodeInputs {
+  images: string[];
+  text: string | null;
+  mask?: string | null;
+}
+
+// Null for node types that are not cached
+export function computeNodeInputHash(node: WorkflowNode, inputs: NodeInputs, dryRun: boolean): string | null {
+  // Normalized like stored images, so saving and reloading keeps the hash
+  const images = inputs.images.map((image) => hashContent(normalizeImageDataUrl(image)));
+
+  switch (node.type) {
+    case "nanoBanana": {
+      const data = node.data as NanoBananaNodeData;
+      const candidateCount = getCandidateCount(data);
+      return hashString(JSON.stringify([
+        node.type,
+        images,
+        inputs.text,
+        data.model,
+        data.aspectRatio,
+        data.resolution,
+        data.useGoogleSearch,
+        // Dry-run placeholders must never stand in for real output
+        dryRun,
+        // Left out for a single image so outputs from before candidates existed stay cached
+        ...(candidateCount > 1 ? [candidateCount] : []),
+        ...(inputs.mask ? [hashContent(normalizeImageDataUrl(inputs.mask))] : []),
+      ]));
+    }
+    case "llmGenerate": {
+      const data = node.data as LLMGenerateNodeData;
+      return hashString(JSON.stringify([
+        node.type,
+        images,
+        inputs.text,
+        data.provider,
+        data.model,
+        data.temperature,
+        data.maxTokens,
+        data.outputSchema ?? null,
+        dryRun,
+      ]));
+    }
+    default:
+      return null;
+  }
+}
+
+const hasOutput = (node: WorkflowNode) =>
+  node.type === "nanoBanana"
+    ? !!(node.data as NanoBananaNodeData).outputImage
+    : node.type === "llmGenerate" && !!(node.data as LLMGenerateNodeData).outputText;
+
+// Output that a run would reuse as-is
+export function isCachedOutput(node: WorkflowNode, inputHash: string | null): boolean {
+  return inputHash !== null && node.data.inputHash === inputHash && hasOutput(node);
+}
+
+// "cached" if a run would reuse the node's output, "stale" if its inputs changed since
+export function getNodeCacheState(node: WorkflowNode, inputs: NodeInputs, dryRun: boolean): NodeCacheState | null {
+  if (!node.data.inputHash || !hasOutput(node)) return null;
+  return computeNodeInputHash(node, inputs, dryRun) === node.data.inputHash ? "cached" : "stale";
+}
@@ -0,0 +1,51 @@
+/**
+ * Prompt templates
+ *
+ * A prompt can contain {{variable}} placeholders. Each variable gets its own
+ * text input handle on the Prompt node, and the connected text is substituted
+ * when the prompt is passed on.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g;
+
+const TEMPLATE_HANDLE_PREFIX = "var-";
+
+export const getTemplateHandleId = (variable: string) => `${TEMPLATE_HANDLE_PREFIX}${variable}`;
+
+export const isTemplateHandleId = (handleId: string | null | undefined): handleId is string =>
+  !!handleId && handleId.startsWith(TEMPLATE_HANDLE_PREFIX);
+
+export const getTemplateVariable = (handleId: string) => handleId.slice(TEMPLATE_HANDLE_PREFIX.length);
+
+// Variable names in order of first appearance
+export function getTemplateVariables(template: string): string[] {
+  const variables = new Set<string>();
+  for (const match of Array.from(template.matchAll(VARIABLE_PATTERN))) {
+    variables.add(match[1]);
+  }
+  return Array.from(variables);
+}
+
+export type TemplateValues = Record<string, string | null>;
+
+// Substitute known values; placeholders without a value are left in place
+export function fillTemplate(template: string, values: TemplateValues): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, variable: string) => values[variable] ?? placeholder);
+}
+
+// Split a template into literal text and variables, for highlighting in previews
+export function splitTemplate(template: string): Array<{ text: string; variable?: string }> {
+  const parts: Array<{ text: string; variable?: string }> = [];
+  let lastIndex = 0;
+  for (const match of Array.from(template.matchAll(VARIABLE_PATTERN))) {
+    if (match.index! > lastIndex) {
+      parts.push({ text: template.slice(lastIndex, match.index) });
+    }
+    parts.push({ text: match[0], variable: match[1] });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < template.length) {
+    parts.push({ text: template.slice(lastIndex) });
+  }
+  return parts;
+}
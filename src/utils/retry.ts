@@ -0,0 +1,161 @@
+/**
+ * Retries for provider calls
+ *
+ * Rate limits and overloaded upstreams are usually gone a few seconds later,
+ * so failed generate and LLM calls are retried with exponential backoff and
+ * jitter. A provider's Retry-After wins over the computed delay, and each
+ * attempt is aborted once it runs past the policy's timeout.
+ */
+
+import { RetryPolicy } from "@/types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  timeoutMs: 5 * 60 * 1000,
+};
+
+export const MAX_RETRY_ATTEMPTS = 10;
+
+// Timeouts offered in the Run menu and node settings
+export const RETRY_TIMEOUT_CHOICES_MS = [30000, 60000, 2 * 60000, 5 * 60000, 10 * 60000, 0];
+
+export const formatRetryTimeout = (ms: number) =>
+  ms === 0 ? "None" : ms < 60000 ? `${ms / 1000}s` : `${ms / 60000}m`;
+
+// Request timeout, rate limit and the gateway/overload family - anything else won't fix itself.
+// 500 is left out: the routes answer with it for their own errors, and report upstream failures as 502.
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// A failed call's outcome as the execution services report it
+export interface RetryableResult {
+  success: boolean;
+  error?: string;
+  status?: number; // HTTP status - missing when the request never got an answer
+  retryAfterMs?: number;
+  cancelled?: boolean; // Stopped through the caller's signal
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Aborts the attempt in flight and gives up on the rest
+  onAttempt?: (attempt: number, maxAttempts: number, previous: RetryableResult | null) => void;
+  onRetry?: (failure: RetryableResult, attempt: number, delayMs: number) => void;
+}
+
+// Node overrides on top of the workflow policy; missing or invalid values fall through
+export function resolveRetryPolicy(
+  base: RetryPolicy = DEFAULT_RETRY_POLICY,
+  override?: Partial<RetryPolicy>
+): RetryPolicy {
+  const pick = (key: keyof RetryPolicy) => {
+    const value = override?.[key];
+    return typeof value === "number" && value >= 0 ? value : base[key];
+  };
+  return {
+    maxAttempts: Math.min(MAX_RETRY_ATTEMPTS, Math.max(1, Math.round(pick("maxAttempts")))),
+    baseDelayMs: pick("baseDelayMs"),
+    maxDelayMs: pick("maxDelayMs"),
+    timeoutMs: pick("timeoutMs"),
+  };
+}
+
+// Network failures have no status and are worth another try
+export const isRetryable = (failure: RetryableResult) =>
+  !failure.cancelled && (failure.status === undefined || RETRYABLE_STATUSES.has(failure.status));
+
+// Retry-After is either delay-seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter between half and all of the step, so parallel branches spread out
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+const cancelledResult = <T extends RetryableResult>() => ({ success: false, error: "Cancelled", cancelled: true }) as T;
+
+// Wait, returning early if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+
+// Run one attempt, aborting the call and resolving with a failure if it outlives the timeout or the signal aborts
+async function runAttempt<T extends RetryableResult>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const interrupted = new Promise<T>((resolve) => {
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve({ success: false, error: `Request timed out after ${formatRetryTimeout(timeoutMs)}`, status: 408 } as T);
+      }, timeoutMs);
+    }
+    onAbort = () => {
+      controller.abort();
+      resolve(cancelledResult<T>());
+    };
+    signal?.addEventListener("abort", onAbort);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), interrupted]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Call until it succeeds, fails with an error that retrying won't fix, runs out
+ * of attempts or is cancelled. Returns the last result along with the number of
+ * attempts.
+ */
+export async function withRetry<T extends RetryableResult>(
+  call: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<{ result: T; attempts: number }> {
+  const { signal } = options;
+  let previous: T | null = null;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      return { result: cancelledResult<T>(), attempts: attempt - 1 };
+    }
+    options.onAttempt?.(attempt, policy.maxAttempts, previous);
+    const result = await runAttempt(call, policy.timeoutMs, signal);
+    if (result.success || attempt >= policy.maxAttempts || !isRetryable(result)) {
+      return { result, attempts: attempt };
+    }
+
+    // A provider asking for a longer wait than the policy allows won't be ready in time
+    const delayMs = result.retryAfterMs ?? getRetryDelay(attempt, policy);
+    if (delayMs > policy.maxDelayMs) {
+      return { result, attempts: attempt };
+    }
+
+    options.onRetry?.(result, attempt, delayMs);
+    await sleep(delayMs, signal);
+    previous = result;
+  }
+}
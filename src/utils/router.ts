@@ -0,0 +1,126 @@
+/**
+ * Router
+ *
+ * A router node picks one of its branches for its input and passes its text and
+ * images on through that branch's outputs only. Rules match the text; in LLM mode
+ * a model is asked to pick a branch by name. Nodes hanging off a branch that
+ * wasn't taken are skipped by the engine - see runWorkflow.
+ */
+
+import { RouterBranch, RouterNodeData } from "@/types";
+import { JsonSchema } from "./structuredOutput";
+
+const BRANCH_HANDLE_PREFIX = "branch-";
+const IMAGE_BRANCH_HANDLE_PREFIX = "image-";
+
+// Taken when no branch matches, or when the model picks none of them
+export const OTHERWISE_HANDLE_ID = "otherwise";
+
+// What the model answers when no branch fits
+const NO_BRANCH_ANSWER = "(none)";
+
+export const getBranchHandleId = (branch: RouterBranch) => `${BRANCH_HANDLE_PREFIX}${branch.id}`;
+
+// Branch outputs, "Otherwise" included - they carry text
+export const isBranchHandleId = (handleId: string | null | undefined): handleId is string =>
+  !!handleId && (handleId.startsWith(BRANCH_HANDLE_PREFIX) || handleId === OTHERWISE_HANDLE_ID);
+
+// Each branch has an image output next to its text output
+export const getImageBranchHandleId = (branchHandleId: string) => `${IMAGE_BRANCH_HANDLE_PREFIX}${branchHandleId}`;
+
+export const isImageBranchHandleId = (handleId: string | null | undefined): handleId is string =>
+  !!handleId &&
+  handleId.startsWith(IMAGE_BRANCH_HANDLE_PREFIX) &&
+  isBranchHandleId(handleId.slice(IMAGE_BRANCH_HANDLE_PREFIX.length));
+
+// Branch an output belongs to, as its text output's handle ID
+const getHandleBranch = (handleId: string | null | undefined) =>
+  isImageBranchHandleId(handleId) ? handleId.slice(IMAGE_BRANCH_HANDLE_PREFIX.length) : handleId;
+
+export const createRouterBranch = (name: string): RouterBranch => ({
+  id: Math.random().toString(36).substring(2, 8),
+  name,
+  operator: "contains",
+  value: "",
+});
+
+// Name of the branch behind an output handle, or null if the branch is gone
+export function getBranchName(branches: RouterBranch[], handleId: string): string | null {
+  if (handleId === OTHERWISE_HANDLE_ID) return "Otherwise";
+  return branches.find((branch) => getBranchHandleId(branch) === handleId)?.name ?? null;
+}
+
+// Whether an output passes anything on - before the router has run, none does
+export const isBranchTaken = (data: Pick<RouterNodeData, "selectedBranch">, handleId: string | null | undefined) =>
+  data.selectedBranch !== null && getHandleBranch(handleId) === data.selectedBranch;
+
+// Why the branches can't be told apart, or null. The model answers with a name, so names must be unique.
+export function getBranchesError(branches: RouterBranch[]): string | null {
+  const seen = new Set<string>();
+  for (let i = 0; i < branches.length; i++) {
+    const name = branches[i].name.trim();
+    if (!name) return `Branch ${i + 1} has no name`;
+    if (seen.has(name.toLowerCase())) return `Two branches are named "${name}"`;
+    seen.add(name.toLowerCase());
+  }
+  return null;
+}
+
+function matchesRule(text: string, branch: RouterBranch, caseSensitive: boolean): boolean {
+  if (branch.operator === "regex") {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(branch.value, caseSensitive ? "" : "i");
+    } catch (error) {
+      throw new Error(`Invalid pattern for branch "${branch.name}": ${error instanceof Error ? error.message : error}`);
+    }
+    return pattern.test(text);
+  }
+
+  // Surrounding whitespace never counts - LLM output tends to end with a newline
+  const normalize = (value: string) => (caseSensitive ? value.trim() : value.trim().toLowerCase());
+  return branch.operator === "equals"
+    ? normalize(text) === normalize(branch.value)
+    : normalize(text).includes(normalize(branch.value));
+}
+
+/**
+ * Output handle of the first branch whose rule matches the text, or
+ * "Otherwise". Throws on a regex that doesn't compile.
+ */
+export function pickRuleBranch(text: string, data: Pick<RouterNodeData, "branches" | "caseSensitive">): string {
+  const branch = data.branches.find((candidate) => matchesRule(text, candidate, data.caseSensitive));
+  return branch ? getBranchHandleId(branch) : OTHERWISE_HANDLE_ID;
+}
+
+// Question, branches and input text for the model - images are sent alongside
+export function getClassificationPrompt(data: Pick<RouterNodeData, "branches" | "question">, text: string | null): string {
+  const lines = [
+    data.question.trim() || "Which of these options fits the input best?",
+    "",
+    "Options:",
+    ...data.branches.map((branch) => `- ${branch.name.trim()}${branch.value.trim() ? `: ${branch.value.trim()}` : ""}`),
+    "",
+    `Answer with the name of one option, or "${NO_BRANCH_ANSWER}" if none of them fit.`,
+  ];
+  if (text) {
+    lines.push("", "Input:", text);
+  }
+  return lines.join("\n");
+}
+
+// The answer is limited to the branch names, so it never needs interpreting
+export const getClassificationSchema = (branches: RouterBranch[]): JsonSchema => ({
+  type: "object",
+  properties: {
+    branch: { type: "string", enum: [...branches.map((branch) => branch.name.trim()), NO_BRANCH_ANSWER] },
+  },
+  required: ["branch"],
+});
+
+// Output handle for a response already checked against the classification schema
+export function getAnsweredBranch(responseText: string, branches: RouterBranch[]): string {
+  const { branch: answer } = JSON.parse(responseText) as { branch: string };
+  const branch = branches.find((candidate) => candidate.name.trim() === answer);
+  return branch ? getBranchHandleId(branch) : OTHERWISE_HANDLE_ID;
+}
@@ -0,0 +1,54 @@
+/**
+ * Run history storage: one JSON file per run in a run-history/ folder next to
+ * the workflow. Server-side only - see runHistory.ts for the record format.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { RunRecord } from "@/types";
+
+export const RUN_HISTORY_DIR = "run-history";
+
+// The panel lists this many of the most recent runs; older files are kept on disk
+export const MAX_LISTED_RUNS = 200;
+
+// Run IDs start with a timestamp, so file names sort chronologically
+const RUN_FILE_PATTERN = /^run-\d+-[a-z0-9]+\.json$/;
+
+export async function saveRunRecord(projectDir: string, record: RunRecord): Promise<string> {
+  if (!RUN_FILE_PATTERN.test(`${record.id}.json`)) {
+    throw new Error(`Invalid run ID: ${record.id}`);
+  }
+  const historyDir = path.join(projectDir, RUN_HISTORY_DIR);
+  await fs.mkdir(historyDir, { recursive: true });
+
+  const filePath = path.join(historyDir, `${record.id}.json`);
+  await fs.writeFile(filePath, JSON.stringify(record, null, 2), "utf-8");
+  return filePath;
+}
+
+// Most recent first. Unreadable files are skipped rather than failing the whole list.
+export async function listRunRecords(projectDir: string): Promise<RunRecord[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(path.join(projectDir, RUN_HISTORY_DIR));
+  } catch {
+    return [];
+  }
+
+  const recent = files
+    .filter((file) => RUN_FILE_PATTERN.test(file))
+    .sort()
+    .reverse()
+    .slice(0, MAX_LISTED_RUNS);
+
+  const records: RunRecord[] = [];
+  for (const file of recent) {
+    try {
+      records.push(JSON.parse(await fs.readFile(path.join(projectDir, RUN_HISTORY_DIR, file), "utf-8")));
+    } catch (error) {
+      console.error(`Skipping unreadable run record ${file}:`, error);
+    }
+  }
+  return records;
+}
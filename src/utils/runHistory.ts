@@ -0,0 +1,266 @@
+/**
+ * Run history
+ *
+ * A RunRecorder follows one execution through the engine callbacks and
+ * produces a RunRecord: what each node ran with, what it produced and how long
+ * it took. Images are referenced by their generation ID, so records stay small.
+ */
+
+import {
+  AnnotationNodeData,
+  CombineGridNodeData,
+  ImageInputNodeData,
+  ImageTransformNodeData,
+  LLMGenerateNodeData,
+  MaskNodeData,
+  NanoBananaNodeData,
+  NodeRunRecord,
+  PromptNodeData,
+  RouterNodeData,
+  RunParameterValue,
+  RunRecord,
+  RunRecordStatus,
+  SplitGridNodeData,
+  SweepValues,
+  WorkflowEdge,
+  WorkflowNode,
+} from "@/types";
+import type { GeneratedImageEvent } from "@/engine/types";
+import { hashContent, hashString } from "@/utils/hash";
+import { getBranchName } from "@/utils/router";
+
+// Node data written by execution rather than edited by the user - left out of snapshot hashes
+const RUNTIME_DATA_KEYS = new Set([
+  "status",
+  "error",
+  "inputImages",
+  "inputPrompt",
+  "outputImage",
+  "outputText",
+  "imageHistory",
+  "selectedHistoryIndex",
+  "inputHash",
+  "attempts",
+  "streamingText",
+  "inputText",
+  "selectedBranch",
+]);
+
+export function hashWorkflowSnapshot(nodes: WorkflowNode[], edges: WorkflowEdge[]): string {
+  const snapshot = {
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      type: node.type,
+      data: Object.keys(node.data)
+        .filter((key) => !RUNTIME_DATA_KEYS.has(key) && !(node.type === "output" && key === "image"))
+        .sort()
+        .map((key) => [key, node.data[key]]),
+    })),
+    edges: edges.map((edge) => [edge.source, edge.sourceHandle, edge.target, edge.targetHandle]),
+  };
+  return hashString(JSON.stringify(snapshot));
+}
+
+// Input images are recorded as short hashes - enough to tell whether they changed
+const describeImages = (images: string[]) => images.map((image) => hashContent(image).slice(-8)).join(", ");
+
+// What a node ran with, flattened so two runs can be compared key by key
+export function getNodeRunInputs(node: WorkflowNode): Record<string, RunParameterValue> {
+  switch (node.type) {
+    case "imageInput": {
+      const data = node.data as ImageInputNodeData;
+      return { filename: data.filename };
+    }
+    case "annotation": {
+      const data = node.data as AnnotationNodeData;
+      return { annotations: data.annotations.length };
+    }
+    case "prompt": {
+      const data = node.data as PromptNodeData;
+      return { prompt: data.prompt };
+    }
+    case "nanoBanana": {
+      const data = node.data as NanoBananaNodeData;
+      return {
+        prompt: data.inputPrompt,
+        inputImages: describeImages(data.inputImages || []),
+        model: data.model,
+        aspectRatio: data.aspectRatio,
+        resolution: data.resolution,
+        useGoogleSearch: data.useGoogleSearch,
+        ...(data.inputMask && { mask: describeImages([data.inputMask]) }),
+      };
+    }
+    case "llmGenerate": {
+      const data = node.data as LLMGenerateNodeData;
+      return {
+        prompt: data.inputPrompt,
+        inputImages: describeImages(data.inputImages || []),
+        provider: data.provider,
+        model: data.model,
+        temperature: data.temperature,
+        maxTokens: data.maxTokens,
+      };
+    }
+    case "mask": {
+      const data = node.data as MaskNodeData;
+      return { strokes: data.strokes.length };
+    }
+    case "imageTransform": {
+      const data = node.data as ImageTransformNodeData;
+      const crop = data.crop;
+      return {
+        crop: crop ? [crop.x, crop.y, crop.width, crop.height].map((value) => value.toFixed(3)).join(", ") : null,
+        rotation: data.rotation,
+        flip: [data.flipHorizontal && "horizontal", data.flipVertical && "vertical"].filter(Boolean).join(", ") || null,
+        pad: data.padAspectRatio,
+        resize: data.resizeWidth || data.resizeHeight ? `${data.resizeWidth ?? "auto"}x${data.resizeHeight ?? "auto"}` : null,
+      };
+    }
+    case "combineGrid": {
+      const data = node.data as CombineGridNodeData;
+      return {
+        images: data.inputImages.length,
+        grid: `${data.gridRows ?? "auto"}x${data.gridCols ?? "auto"}`,
+        cellWidth: data.cellWidth,
+        gutter: data.gutter,
+        background: data.backgroundColor,
+      };
+    }
+    case "router": {
+      const data = node.data as RouterNodeData;
+      return {
+        mode: data.mode,
+        ...(data.mode === "llm" && { model: data.model, question: data.question }),
+        branch: data.selectedBranch ? getBranchName(data.branches, data.selectedBranch) : null,
+      };
+    }
+    case "splitGrid": {
+      const data = node.data as SplitGridNodeData;
+      return { grid: `${data.gridRows}x${data.gridCols}`, targetCount: data.targetCount };
+    }
+    default:
+      return {};
+  }
+}
+
+export const generateRunId = () => `run-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+export class RunRecorder {
+  private record: RunRecord;
+  private startTimes = new Map<string, number>();
+  private imageIds = new Map<string, string>();
+  private cachedNodeIds = new Set<string>();
+  private sweepValues: SweepValues | undefined;
+
+  constructor(options: {
+    workflowId: string | null;
+    workflowName: string | null;
+    mode: RunRecord["mode"];
+    dryRun: boolean;
+    nodes: WorkflowNode[];
+    edges: WorkflowEdge[];
+  }) {
+    this.record = {
+      id: generateRunId(),
+      workflowId: options.workflowId,
+      workflowName: options.workflowName,
+      snapshotHash: hashWorkflowSnapshot(options.nodes, options.edges),
+      mode: options.mode,
+      status: "completed",
+      startedAt: Date.now(),
+      finishedAt: Date.now(),
+      dryRun: options.dryRun,
+      cost: 0,
+      nodes: [],
+    };
+  }
+
+  // Set at the start of each sweep iteration
+  setSweepValues(values: SweepValues | undefined) {
+    this.sweepValues = values;
+  }
+
+  nodeStarted(nodeId: string) {
+    this.startTimes.set(nodeId, Date.now());
+  }
+
+  imageGenerated(event: GeneratedImageEvent) {
+    this.record.cost += event.cost;
+    // Dry-run placeholders are never saved, so there is nothing to restore later.
+    // Of several candidates, the first is the node's output.
+    if (!event.dryRun && !this.imageIds.has(event.nodeId)) this.imageIds.set(event.nodeId, event.imageId);
+  }
+
+  cacheHit(nodeId: string) {
+    this.cachedNodeIds.add(nodeId);
+  }
+
+  get cachedNodeCount(): number {
+    return this.record.nodes.filter((entry) => entry.cached).length;
+  }
+
+  // Pass the node as it is after running - its data holds the resolved inputs and outputs
+  nodeFinished(node: WorkflowNode, succeeded: boolean) {
+    const cancelled = node.data.status === "cancelled";
+    const entry: NodeRunRecord = {
+      nodeId: node.id,
+      type: node.type as NodeRunRecord["type"],
+      title: node.data.customTitle || null,
+      startedAt: this.startTimes.get(node.id) ?? Date.now(),
+      finishedAt: Date.now(),
+      succeeded,
+      error: succeeded || cancelled ? null : (node.data.error as string | null | undefined) ?? null,
+      inputs: getNodeRunInputs(node),
+      ...(cancelled && { cancelled }),
+      ...(this.sweepValues && { sweepValues: this.sweepValues }),
+    };
+
+    const imageId = this.imageIds.get(node.id);
+    if (succeeded && imageId) entry.outputImageId = imageId;
+    if (node.type === "llmGenerate") entry.outputText = (node.data as LLMGenerateNodeData).outputText;
+    if (this.cachedNodeIds.delete(node.id)) entry.cached = true;
+
+    this.imageIds.delete(node.id);
+    this.record.nodes.push(entry);
+  }
+
+  finish(status: RunRecordStatus): RunRecord {
+    return { ...this.record, status, finishedAt: Date.now(), nodes: [...this.record.nodes] };
+  }
+}
+
+export interface RunInputChange {
+  nodeId: string;
+  title: string | null;
+  key: string;
+  before: RunParameterValue | undefined; // undefined: the node didn't run
+  after: RunParameterValue | undefined;
+}
+
+// Last execution of each node - sweeps run nodes several times
+const latestByNode = (record: RunRecord) =>
+  new Map(record.nodes.map((entry) => [entry.nodeId, entry]));
+
+// Inputs that differ between two runs, compared node by node
+export function diffRunInputs(before: RunRecord, after: RunRecord): RunInputChange[] {
+  const beforeNodes = latestByNode(before);
+  const afterNodes = latestByNode(after);
+  const nodeIds = Array.from(new Set([...Array.from(beforeNodes.keys()), ...Array.from(afterNodes.keys())]));
+  const changes: RunInputChange[] = [];
+
+  nodeIds.forEach((nodeId) => {
+    const a = beforeNodes.get(nodeId);
+    const b = afterNodes.get(nodeId);
+    const keys = new Set([...Object.keys(a?.inputs ?? {}), ...Object.keys(b?.inputs ?? {})]);
+    keys.forEach((key) => {
+      const valueBefore = a?.inputs[key];
+      const valueAfter = b?.inputs[key];
+      if (valueBefore !== valueAfter) {
+        changes.push({ nodeId, title: b?.title ?? a?.title ?? null, key, before: valueBefore, after: valueAfter });
+      }
+    });
+  });
+
+  return changes;
+}
@@ -0,0 +1,43 @@
+/**
+ * Server-sent events
+ *
+ * Just the `data:` lines - enough for /api/llm streaming to the editor and for
+ * reading OpenAI's streamed completions.
+ */
+
+export const formatServerSentEvent = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`;
+
+// Call onData with each event's data, in order, until the stream ends
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (data) onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      flush(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  flush(buffer);
+}
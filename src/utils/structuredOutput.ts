@@ -0,0 +1,180 @@
+/**
+ * Structured LLM output
+ *
+ * An LLM Generate node with a JSON schema asks the provider for JSON matching
+ * it and checks the response before passing it on. Each top-level field of an
+ * object schema, or each item of an array schema, gets its own text output
+ * handle so different downstream nodes can use different parts.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+const FIELD_HANDLE_PREFIX = "field-";
+
+export const getFieldHandleId = (field: string) => `${FIELD_HANDLE_PREFIX}${field}`;
+
+export const isFieldHandleId = (handleId: string | null | undefined): handleId is string =>
+  !!handleId && handleId.startsWith(FIELD_HANDLE_PREFIX);
+
+export const getFieldName = (handleId: string) => handleId.slice(FIELD_HANDLE_PREFIX.length);
+
+export const DEFAULT_OUTPUT_SCHEMA = JSON.stringify(
+  {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      prompts: { type: "array", items: { type: "string" } },
+    },
+    required: ["title", "prompts"],
+  },
+  null,
+  2
+);
+
+// The schema a node's text parses to, or the reason it doesn't
+export function parseOutputSchema(text: string): { schema: JsonSchema } | { error: string } {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    return { error: `Schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return { error: "Schema must be a JSON object" };
+  }
+  return { schema: schema as JsonSchema };
+}
+
+// Models sometimes wrap JSON in a markdown code block despite being asked not to
+export function parseJsonOutput(text: string): unknown {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) =>
+  typeOf(value) === type || (type === "number" && typeOf(value) === "integer");
+
+/**
+ * Problems with a value against the parts of JSON Schema that providers
+ * enforce: type, enum, properties, required, additionalProperties: false,
+ * items, minItems and maxItems. Empty when the value matches.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  const types = typeof schema.type === "string" ? [schema.type] : Array.isArray(schema.type) ? (schema.type as string[]) : null;
+  if (types && !types.some((type) => matchesType(value, type))) {
+    return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    if (Array.isArray(schema.required)) {
+      (schema.required as string[])
+        .filter((key) => !(key in object))
+        .forEach((key) => errors.push(`${path}.${key}: missing`));
+    }
+    Object.entries(object).forEach(([key, child]) => {
+      if (properties[key]) {
+        errors.push(...validateJson(child, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: not allowed`);
+      }
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items as JsonSchema, `${path}[${index}]`)));
+    }
+  }
+
+  return errors;
+}
+
+// A value matching the schema, for dry runs - strings are filled with the given text
+export function sampleJson(schema: JsonSchema, text: string): unknown {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, child]) => [key, sampleJson(child, `${text} (${key})`)])
+      );
+    }
+    case "array": {
+      const count = typeof schema.minItems === "number" && schema.minItems > 0 ? schema.minItems : 2;
+      const items = (schema.items ?? {}) as JsonSchema;
+      return Array.from({ length: count }, (_, index) => sampleJson(items, `${text} (${index + 1})`));
+    }
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Names of the field outputs: the properties of an object schema, or the item
+ * indexes of an array schema. An array has as many as the current output has
+ * items, and at least minItems so downstream nodes can be wired before a run.
+ */
+export function getOutputFields(schema: JsonSchema, outputText: string | null): string[] {
+  if (schema.type === "object" && schema.properties && typeof schema.properties === "object") {
+    return Object.keys(schema.properties);
+  }
+  if (schema.type === "array") {
+    let count = typeof schema.minItems === "number" ? schema.minItems : 0;
+    if (outputText) {
+      try {
+        const output = parseJsonOutput(outputText);
+        if (Array.isArray(output)) count = Math.max(count, output.length);
+      } catch {
+        // Not JSON - no items to offer
+      }
+    }
+    return Array.from({ length: count }, (_, index) => String(index));
+  }
+  return [];
+}
+
+// Text passed on through a field output: strings as-is, anything else as JSON
+export function getFieldText(outputText: string | null, field: string): string | null {
+  if (!outputText) return null;
+  let output: unknown;
+  try {
+    output = parseJsonOutput(outputText);
+  } catch {
+    return null;
+  }
+  const value = Array.isArray(output)
+    ? output[Number(field)]
+    : output && typeof output === "object" ? (output as Record<string, unknown>)[field] : undefined;
+
+  if (value === undefined || value === null) return null;
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,428 @@
+/**
+ * Subgraphs
+ *
+ * A group can be collapsed into one subgraph node that keeps the group's nodes
+ * and edges in its data and exposes chosen handles of them as its own ports.
+ * Runs see the inner graph inlined: each subgraph node is replaced by its
+ * nodes, with IDs prefixed by the subgraph node's ID, and the edges to and
+ * from its ports are rewired to the inner handles they stand for.
+ */
+
+import {
+  HandleType,
+  LLMGenerateNodeData,
+  NodeType,
+  PromptNodeData,
+  RouterNodeData,
+  SubgraphDefinition,
+  SubgraphNodeData,
+  SubgraphPort,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowNodeData,
+} from "@/types";
+import { getTemplateHandleId, getTemplateVariables } from "./promptTemplate";
+import { OTHERWISE_HANDLE_ID, getBranchHandleId, getBranchName, getImageBranchHandleId } from "./router";
+import { getFieldHandleId, getOutputFields, parseOutputSchema } from "./structuredOutput";
+
+// Joins a subgraph node's ID and an inner node's ID in the inlined graph
+const INLINED_ID_SEPARATOR = "/";
+
+const PORT_HANDLE_PATTERN = /^port-(in|out)-(image|text|mask)-\d+$/;
+
+export const getPortHandleId = (direction: "in" | "out", type: HandleType, index: number) =>
+  `port-${direction}-${type}-${index}`;
+
+export const isPortHandleId = (handleId: string | null | undefined): handleId is string =>
+  !!handleId && PORT_HANDLE_PATTERN.test(handleId);
+
+// What a port handle carries, or null for other handles
+export const getPortHandleType = (handleId: string | null | undefined): HandleType | null =>
+  isPortHandleId(handleId) ? (handleId.match(PORT_HANDLE_PATTERN)![2] as HandleType) : null;
+
+// The canvas node an inlined node belongs to
+export const getTopLevelNodeId = (nodeId: string) => nodeId.split(INLINED_ID_SEPARATOR)[0];
+
+export const isInlinedNodeId = (nodeId: string) => nodeId.includes(INLINED_ID_SEPARATOR);
+
+const NODE_TYPE_LABELS: Record<NodeType, string> = {
+  imageInput: "Image",
+  annotation: "Annotate",
+  prompt: "Prompt",
+  nanoBanana: "Generate",
+  llmGenerate: "LLM",
+  splitGrid: "Split Grid",
+  output: "Output",
+  subgraph: "Subgraph",
+  mask: "Mask",
+  imageTransform: "Transform",
+  combineGrid: "Combine Grid",
+  router: "Router",
+};
+
+// A handle of a node inside a group that the subgraph could expose
+export interface ExposableHandle {
+  nodeId: string;
+  handleId: string;
+  type: HandleType;
+  label: string;
+}
+
+// Data handles of a node - reference handles only order execution and are never exposed
+export function getExposableHandles(node: WorkflowNode): { inputs: ExposableHandle[]; outputs: ExposableHandle[] } {
+  const title = node.data.customTitle || NODE_TYPE_LABELS[node.type as NodeType] || node.id;
+  const handle = (handleId: string, type: HandleType, label = `${title} ${type}`): ExposableHandle => ({
+    nodeId: node.id,
+    handleId,
+    type,
+    label,
+  });
+
+  switch (node.type) {
+    case "imageInput":
+      return { inputs: [], outputs: [handle("image", "image")] };
+    case "annotation":
+    case "imageTransform":
+      return { inputs: [handle("image", "image")], outputs: [handle("image", "image")] };
+    case "prompt": {
+      const variables = getTemplateVariables((node.data as PromptNodeData).prompt);
+      return {
+        inputs: variables.map((variable) => handle(getTemplateHandleId(variable), "text", `${title} {{${variable}}}`)),
+        outputs: [handle("text", "text")],
+      };
+    }
+    case "nanoBanana":
+      return {
+        inputs: [handle("image", "image"), handle("text", "text"), handle("mask", "mask")],
+        outputs: [handle("image", "image")],
+      };
+    case "mask":
+      return { inputs: [handle("image", "image")], outputs: [handle("image", "image"), handle("mask", "mask")] };
+    case "combineGrid":
+      return { inputs: [handle("image", "image"), handle("text", "text")], outputs: [handle("image", "image")] };
+    case "router": {
+      const { branches } = node.data as RouterNodeData;
+      return {
+        inputs: [handle("text", "text"), handle("image", "image")],
+        outputs: [...branches.map(getBranchHandleId), OTHERWISE_HANDLE_ID].flatMap((handleId) => [
+          handle(handleId, "text", `${title} ${getBranchName(branches, handleId)}`),
+          handle(getImageBranchHandleId(handleId), "image", `${title} ${getBranchName(branches, handleId)} image`),
+        ]),
+      };
+    }
+    case "llmGenerate": {
+      const data = node.data as LLMGenerateNodeData;
+      const parsed = data.outputSchema ? parseOutputSchema(data.outputSchema) : null;
+      const fields = parsed && "schema" in parsed ? getOutputFields(parsed.schema, data.outputText) : [];
+      return {
+        inputs: [handle("text", "text"), handle("image", "image")],
+        outputs: [
+          handle("text", "text"),
+          ...fields.map((field) => handle(getFieldHandleId(field), "text", `${title} .${field}`)),
+        ],
+      };
+    }
+    case "splitGrid":
+    case "output":
+      return { inputs: [handle("image", "image")], outputs: [] };
+    case "subgraph": {
+      const { subgraph } = node.data as SubgraphNodeData;
+      const toHandle = (port: SubgraphPort) => handle(port.id, port.type, `${title} ${port.label}`);
+      return { inputs: subgraph.inputs.map(toHandle), outputs: subgraph.outputs.map(toHandle) };
+    }
+    default:
+      return { inputs: [], outputs: [] };
+  }
+}
+
+const isSameHandle = (handle: ExposableHandle, nodeId: string, handleId: string | null | undefined) =>
+  handle.nodeId === nodeId && handle.handleId === handleId;
+
+/**
+ * Edges between a group and the rest of the canvas. Their inner ends must
+ * become ports, or collapsing would cut them. Reference edges can't cross:
+ * Split Grid and list expansion fill their linked nodes by ID.
+ */
+export function getCrossingEdges(nodeIds: Set<string>, edges: WorkflowEdge[]) {
+  const crossing = edges.filter((edge) => nodeIds.has(edge.source) !== nodeIds.has(edge.target));
+  return {
+    incoming: crossing.filter((edge) => nodeIds.has(edge.target) && edge.type !== "reference"),
+    outgoing: crossing.filter((edge) => nodeIds.has(edge.source) && edge.type !== "reference"),
+    reference: crossing.filter((edge) => edge.type === "reference"),
+  };
+}
+
+// Handles that carry the given edges, in the order the handles are listed
+export const getHandlesInUse = (
+  handles: ExposableHandle[],
+  edges: WorkflowEdge[],
+  end: "source" | "target"
+): ExposableHandle[] =>
+  handles.filter((handle) =>
+    edges.some((edge) => isSameHandle(handle, edge[end], end === "source" ? edge.sourceHandle : edge.targetHandle))
+  );
+
+/**
+ * The definition of a subgraph made from a group's nodes, exposing the given
+ * handles in order. Inner positions are kept relative to the top-left node.
+ */
+export function buildSubgraph(
+  name: string,
+  groupNodes: WorkflowNode[],
+  edges: WorkflowEdge[],
+  exposed: { inputs: ExposableHandle[]; outputs: ExposableHandle[] }
+): SubgraphDefinition {
+  const nodeIds = new Set(groupNodes.map((node) => node.id));
+  const originX = Math.min(...groupNodes.map((node) => node.position.x));
+  const originY = Math.min(...groupNodes.map((node) => node.position.y));
+
+  const toPort = (direction: "in" | "out") => (handle: ExposableHandle, index: number): SubgraphPort => ({
+    id: getPortHandleId(direction, handle.type, index + 1),
+    label: handle.label,
+    type: handle.type,
+    nodeId: handle.nodeId,
+    handleId: handle.handleId,
+  });
+
+  return {
+    name,
+    nodes: groupNodes.map(({ groupId: _groupId, selected: _selected, ...node }) => ({
+      ...node,
+      position: { x: node.position.x - originX, y: node.position.y - originY },
+    })),
+    edges: edges.filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+    inputs: exposed.inputs.map(toPort("in")),
+    outputs: exposed.outputs.map(toPort("out")),
+  };
+}
+
+/**
+ * The canvas edges once the group's nodes are replaced by the subgraph node:
+ * inner edges go into the subgraph and crossing edges attach to its ports.
+ */
+export function connectSubgraphPorts(
+  subgraphNodeId: string,
+  subgraph: SubgraphDefinition,
+  edges: WorkflowEdge[]
+): WorkflowEdge[] {
+  const nodeIds = new Set(subgraph.nodes.map((node) => node.id));
+
+  return edges.flatMap((edge) => {
+    const sourceInside = nodeIds.has(edge.source);
+    const targetInside = nodeIds.has(edge.target);
+    if (sourceInside && targetInside) return [];
+    if (!sourceInside && !targetInside) return [edge];
+
+    const port = targetInside
+      ? subgraph.inputs.find((input) => input.nodeId === edge.target && input.handleId === edge.targetHandle)
+      : subgraph.outputs.find((output) => output.nodeId === edge.source && output.handleId === edge.sourceHandle);
+    if (!port) return [];
+
+    const rewired = targetInside
+      ? { ...edge, target: subgraphNodeId, targetHandle: port.id }
+      : { ...edge, source: subgraphNodeId, sourceHandle: port.id };
+    return [{
+      ...rewired,
+      id: `edge-${rewired.source}-${rewired.target}-${rewired.sourceHandle || "default"}-${rewired.targetHandle || "default"}`,
+    }];
+  });
+}
+
+// Split Grid and LLM nodes point at the nodes they fill - those IDs change with the nodes'
+function mapChildNodeIds(data: WorkflowNodeData, mapId: (id: string) => string): WorkflowNodeData {
+  const { childNodeIds } = data as { childNodeIds?: Array<Record<string, string>> };
+  if (!Array.isArray(childNodeIds)) return data;
+  return {
+    ...data,
+    childNodeIds: childNodeIds.map((child) =>
+      Object.fromEntries(Object.entries(child).map(([key, id]) => [key, typeof id === "string" ? mapId(id) : id]))
+    ),
+  } as WorkflowNodeData;
+}
+
+/**
+ * Put a subgraph's nodes back on the canvas with fresh IDs, at the subgraph
+ * node's position. Edges on its ports are reconnected to the inner handles.
+ */
+export function expandSubgraphNodes(
+  subgraphNode: WorkflowNode,
+  edges: WorkflowEdge[],
+  createId: (node: WorkflowNode) => string
+): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } {
+  const { subgraph } = subgraphNode.data as SubgraphNodeData;
+  const idMapping = new Map(subgraph.nodes.map((node) => [node.id, createId(node)]));
+  const mapId = (id: string) => idMapping.get(id) ?? id;
+  const edgeId = (edge: WorkflowEdge) =>
+    `edge-${edge.source}-${edge.target}-${edge.sourceHandle || "default"}-${edge.targetHandle || "default"}`;
+
+  const nodes = subgraph.nodes.map((node) => ({
+    ...node,
+    id: mapId(node.id),
+    position: { x: subgraphNode.position.x + node.position.x, y: subgraphNode.position.y + node.position.y },
+    data: mapChildNodeIds(node.data, mapId),
+  }));
+
+  const innerEdges = subgraph.edges.map((edge) => {
+    const remapped = { ...edge, source: mapId(edge.source), target: mapId(edge.target) };
+    return { ...remapped, id: edgeId(remapped) };
+  });
+
+  const outerEdges = edges.flatMap((edge) => {
+    if (edge.source !== subgraphNode.id && edge.target !== subgraphNode.id) return [edge];
+    let rewired = edge;
+    if (edge.target === subgraphNode.id) {
+      const port = subgraph.inputs.find((input) => input.id === edge.targetHandle);
+      if (!port) return [];
+      rewired = { ...rewired, target: mapId(port.nodeId), targetHandle: port.handleId };
+    }
+    if (edge.source === subgraphNode.id) {
+      const port = subgraph.outputs.find((output) => output.id === edge.sourceHandle);
+      if (!port) return [];
+      rewired = { ...rewired, source: mapId(port.nodeId), sourceHandle: port.handleId };
+    }
+    return [{ ...rewired, id: edgeId(rewired) }];
+  });
+
+  return { nodes, edges: [...outerEdges, ...innerEdges] };
+}
+
+// The inlined node and handle a subgraph port stands for, following nested subgraphs
+function resolvePort(
+  subgraphNode: WorkflowNode,
+  ports: "inputs" | "outputs",
+  handleId: string | null | undefined
+): { nodeId: string; handleId: string } | null {
+  const { subgraph } = subgraphNode.data as SubgraphNodeData;
+  const port = subgraph[ports].find((p) => p.id === handleId);
+  if (!port) return null;
+
+  const innerNode = subgraph.nodes.find((node) => node.id === port.nodeId);
+  if (!innerNode) return null;
+  const inner = innerNode.type === "subgraph"
+    ? resolvePort(innerNode, ports, port.handleId)
+    : { nodeId: port.nodeId, handleId: port.handleId };
+  return inner && { nodeId: `${subgraphNode.id}${INLINED_ID_SEPARATOR}${inner.nodeId}`, handleId: inner.handleId };
+}
+
+/**
+ * The graph a run executes: subgraph nodes replaced by their inner nodes and
+ * edges. Edges on ports that no longer exist are dropped.
+ */
+export function inlineSubgraphs(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } {
+  const subgraphNodes = nodes.filter((node) => node.type === "subgraph");
+  if (subgraphNodes.length === 0) return { nodes, edges };
+
+  const subgraphById = new Map(subgraphNodes.map((node) => [node.id, node]));
+  const inlinedNodes = nodes.filter((node) => node.type !== "subgraph");
+  const inlinedEdges: WorkflowEdge[] = [];
+
+  subgraphNodes.forEach((subgraphNode) => {
+    const { subgraph } = subgraphNode.data as SubgraphNodeData;
+    const inner = inlineSubgraphs(subgraph.nodes, subgraph.edges);
+    const prefix = (id: string) => `${subgraphNode.id}${INLINED_ID_SEPARATOR}${id}`;
+
+    inner.nodes.forEach((node) => {
+      inlinedNodes.push({ ...node, id: prefix(node.id), data: mapChildNodeIds(node.data, prefix) });
+    });
+    inner.edges.forEach((edge) => {
+      inlinedEdges.push({ ...edge, id: prefix(edge.id), source: prefix(edge.source), target: prefix(edge.target) });
+    });
+  });
+
+  edges.forEach((edge) => {
+    const sourceSubgraph = subgraphById.get(edge.source);
+    const targetSubgraph = subgraphById.get(edge.target);
+    if (!sourceSubgraph && !targetSubgraph) {
+      inlinedEdges.push(edge);
+      return;
+    }
+
+    const source = sourceSubgraph ? resolvePort(sourceSubgraph, "outputs", edge.sourceHandle) : null;
+    const target = targetSubgraph ? resolvePort(targetSubgraph, "inputs", edge.targetHandle) : null;
+    if ((sourceSubgraph && !source) || (targetSubgraph && !target)) return;
+
+    inlinedEdges.push({
+      ...edge,
+      ...(source && { source: source.nodeId, sourceHandle: source.handleId }),
+      ...(target && { target: target.nodeId, targetHandle: target.handleId }),
+    });
+  });
+
+  return { nodes: inlinedNodes, edges: inlinedEdges };
+}
+
+// Split an inlined ID into the subgraph node's ID and the ID inside it
+const splitInlinedId = (nodeId: string): [string, string] | null => {
+  const index = nodeId.indexOf(INLINED_ID_SEPARATOR);
+  return index === -1 ? null : [nodeId.slice(0, index), nodeId.slice(index + 1)];
+};
+
+// A subgraph with one inner node's data updated, following nested subgraphs
+export function updateSubgraphNodeData(
+  subgraph: SubgraphDefinition,
+  innerId: string,
+  data: Partial<WorkflowNodeData>
+): SubgraphDefinition {
+  const nested = splitInlinedId(innerId);
+  return {
+    ...subgraph,
+    nodes: subgraph.nodes.map((node) => {
+      if (nested && node.id === nested[0] && node.type === "subgraph") {
+        const nodeData = node.data as SubgraphNodeData;
+        return { ...node, data: { ...nodeData, subgraph: updateSubgraphNodeData(nodeData.subgraph, nested[1], data) } };
+      }
+      return !nested && node.id === innerId ? { ...node, data: { ...node.data, ...data } as WorkflowNodeData } : node;
+    }),
+  };
+}
+
+// A node by its inlined ID, as the run saw it - canvas nodes are found as-is
+export function findInlinedNode(nodes: WorkflowNode[], nodeId: string): WorkflowNode | undefined {
+  const split = splitInlinedId(nodeId);
+  if (!split) return nodes.find((node) => node.id === nodeId);
+
+  const subgraphNode = nodes.find((node) => node.id === split[0] && node.type === "subgraph");
+  if (!subgraphNode) return undefined;
+  const inner = findInlinedNode((subgraphNode.data as SubgraphNodeData).subgraph.nodes, split[1]);
+  return inner && { ...inner, id: nodeId };
+}
+
+// Outputs and execution state that a copy from the library starts without
+const RUN_DATA_DEFAULTS: Partial<Record<NodeType, Record<string, unknown>>> = {
+  nanoBanana: {
+    inputImages: [],
+    inputPrompt: null,
+    outputImage: null,
+    imageHistory: [],
+    selectedHistoryIndex: 0,
+    candidateImages: null,
+    chatTurns: undefined,
+    inputMask: undefined,
+  },
+  llmGenerate: { inputPrompt: null, inputImages: [], outputText: null },
+  output: { image: null },
+  imageTransform: { outputImage: null },
+  combineGrid: { inputImages: [], outputImage: null },
+  router: { inputText: null, inputImages: [], selectedBranch: null },
+};
+
+// A subgraph as a reusable template: settings and input images kept, results cleared
+export function clearSubgraphResults(subgraph: SubgraphDefinition): SubgraphDefinition {
+  return {
+    ...subgraph,
+    nodes: subgraph.nodes.map((node) => {
+      const data = { ...node.data, ...RUN_DATA_DEFAULTS[node.type as NodeType] } as Record<string, unknown>;
+      delete data.inputHash;
+      delete data.attempts;
+      if ("status" in data) data.status = "idle";
+      if ("error" in data) data.error = null;
+      if (node.type === "subgraph") {
+        data.subgraph = clearSubgraphResults((node.data as SubgraphNodeData).subgraph);
+      }
+      return { ...node, data: data as WorkflowNodeData };
+    }),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Subgraph library: saved subgraphs shared by every workflow, kept in one JSON
+ * file. Server-side only.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { SubgraphLibraryEntry } from "@/types";
+
+export const getSubgraphLibraryPath = () =>
+  process.env.SUBGRAPH_LIBRARY_PATH || path.join(process.cwd(), "subgraph-library.json");
+
+// A missing file is an empty library
+export async function readSubgraphLibrary(): Promise<SubgraphLibraryEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(getSubgraphLibraryPath(), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const entries = JSON.parse(text);
+  if (!Array.isArray(entries)) {
+    throw new Error("Subgraph library file must contain an array");
+  }
+  return entries;
+}
+
+async function writeSubgraphLibrary(entries: SubgraphLibraryEntry[]): Promise<void> {
+  const filePath = getSubgraphLibraryPath();
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(entries, null, 2), "utf-8");
+}
+
+// Saving under an existing ID replaces that entry
+export async function saveSubgraphLibraryEntry(entry: SubgraphLibraryEntry): Promise<void> {
+  const entries = await readSubgraphLibrary();
+  const index = entries.findIndex((e) => e.id === entry.id);
+  if (index === -1) {
+    entries.push(entry);
+  } else {
+    entries[index] = entry;
+  }
+  await writeSubgraphLibrary(entries);
+}
+
+// False when there was no entry with the ID
+export async function deleteSubgraphLibraryEntry(id: string): Promise<boolean> {
+  const entries = await readSubgraphLibrary();
+  const remaining = entries.filter((e) => e.id !== id);
+  if (remaining.length === entries.length) return false;
+  await writeSubgraphLibrary(remaining);
+  return true;
+}
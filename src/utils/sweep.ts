@@ -0,0 +1,176 @@
+/**
+ * Sweep (batch) runs
+ *
+ * Prompt and Image Input nodes can be marked as list sources. A run then
+ * repeats everything downstream of them once per item - or once per
+ * combination of items when there are several sources.
+ */
+
+import {
+  ImageInputNodeData,
+  PromptNodeData,
+  SweepValues,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowNodeData,
+} from "@/types";
+
+// Refuse sweeps larger than this - they are almost always a mistake and can get expensive
+export const MAX_SWEEP_COMBINATIONS = 100;
+
+export interface SweepItem {
+  label: string; // Recorded in sweep values: the prompt text or image filename
+  data: Partial<WorkflowNodeData>; // Replaces the source node's data for this item
+}
+
+export interface SweepSource {
+  nodeId: string;
+  name: string;
+  items: SweepItem[];
+}
+
+export interface SweepCombination {
+  values: SweepValues;
+  overrides: Map<string, Partial<WorkflowNodeData>>;
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+export function getPromptSweepItems(data: PromptNodeData): string[] {
+  if (!data.sweep) return [];
+
+  if (data.sweep.source === "csv") {
+    const [header, ...rows] = parseCsv(data.prompt);
+    if (!header) return [];
+    const column = data.sweep.column.trim();
+    const index = column ? header.findIndex((name) => name.trim() === column) : 0;
+    if (index === -1) return [];
+    return rows.map((row) => (row[index] ?? "").trim()).filter((value) => value !== "");
+  }
+
+  return data.prompt
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "");
+}
+
+export const getSweepSourceName = (node: WorkflowNode) => node.data.customTitle || node.id;
+
+// List sources in the graph, in node order. Sources without items are included so callers can report them.
+export function getSweepSources(nodes: WorkflowNode[]): SweepSource[] {
+  const sources: SweepSource[] = [];
+
+  nodes.forEach((node) => {
+    if (node.type === "prompt") {
+      const data = node.data as PromptNodeData;
+      if (!data.sweep) return;
+      sources.push({
+        nodeId: node.id,
+        name: getSweepSourceName(node),
+        items: getPromptSweepItems(data).map((prompt) => ({ label: prompt, data: { prompt } })),
+      });
+    } else if (node.type === "imageInput") {
+      const data = node.data as ImageInputNodeData;
+      if (!data.sweep) return;
+      sources.push({
+        nodeId: node.id,
+        name: getSweepSourceName(node),
+        items: data.sweep.images.map(({ image, filename }) => ({
+          label: filename,
+          data: { image, filename, dimensions: null },
+        })),
+      });
+    }
+  });
+
+  return sources;
+}
+
+export const countSweepCombinations = (sources: SweepSource[]) =>
+  sources.reduce((count, source) => count * source.items.length, 1);
+
+// Every combination of one item per source, varying the last source fastest
+export function getSweepCombinations(sources: SweepSource[]): SweepCombination[] {
+  let combinations: SweepCombination[] = [{ values: {}, overrides: new Map() }];
+
+  sources.forEach((source) => {
+    combinations = combinations.flatMap((combination) =>
+      source.items.map((item) => ({
+        values: { ...combination.values, [source.name]: item.label },
+        overrides: new Map(combination.overrides).set(source.nodeId, item.data),
+      }))
+    );
+  });
+
+  return combinations;
+}
+
+// The given nodes plus everything that depends on them
+export function getDownstreamNodeIds(edges: WorkflowEdge[], nodeIds: string[]): Set<string> {
+  const downstream = new Set(nodeIds);
+  const queue = [...nodeIds];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    edges
+      .filter((edge) => edge.source === nodeId && !downstream.has(edge.target))
+      .forEach((edge) => {
+        downstream.add(edge.target);
+        queue.push(edge.target);
+      });
+  }
+
+  return downstream;
+}
+
+// Show the node with a sweep item's values, without touching the stored list
+export function applySweepOverrides(nodes: WorkflowNode[], combination: SweepCombination): WorkflowNode[] {
+  return nodes.map((node) => {
+    const override = combination.overrides.get(node.id);
+    return override ? ({ ...node, data: { ...node.data, ...override } } as WorkflowNode) : node;
+  });
+}
+
+export const formatSweepValues = (values: SweepValues) =>
+  Object.entries(values)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
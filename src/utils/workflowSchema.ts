@@ -0,0 +1,455 @@
+/**
+ * Workflow file validation and version migrations
+ *
+ * Every workflow file goes through prepareWorkflowFile before it reaches the
+ * store: the file is upgraded one version at a time by WORKFLOW_MIGRATIONS,
+ * then checked against the node data schemas below. Problems that would break
+ * the canvas are reported as errors (with the node and field that caused them);
+ * problems that can be repaired - unknown node types, edges to missing nodes -
+ * are fixed and reported as warnings.
+ */
+
+import type { EdgeStyle, WorkflowFile } from "@/store/workflowStore";
+import { NodeType, WorkflowEdge, WorkflowNode } from "@/types";
+
+export const CURRENT_WORKFLOW_VERSION = 2;
+
+export interface WorkflowIssue {
+  path: string; // e.g. "nodes[3].data.aspectRatio"
+  nodeId?: string;
+  message: string;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(public issues: WorkflowIssue[]) {
+    super(formatIssues("Invalid workflow file", issues));
+    this.name = "WorkflowValidationError";
+  }
+}
+
+export interface PreparedWorkflow {
+  workflow: WorkflowFile;
+  migratedFrom: number | null; // Original version if migrations ran
+  warnings: WorkflowIssue[];
+}
+
+const MAX_REPORTED_ISSUES = 10;
+
+export function formatIssues(title: string, issues: WorkflowIssue[]): string {
+  const lines = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => {
+    const node = issue.nodeId ? ` (node "${issue.nodeId}")` : "";
+    return `- ${issue.path}${node}: ${issue.message}`;
+  });
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`- ...and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+  return `${title}:\n${lines.join("\n")}`;
+}
+
+// Loosely typed view of a workflow file while it is being migrated
+type RawWorkflow = Record<string, unknown> & {
+  version: number;
+  nodes: Array<Record<string, unknown>>;
+  edges: Array<Record<string, unknown>>;
+};
+
+type RawNodeData = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Fill node data fields that are missing from older files, keeping existing values
+const withDataDefaults = (
+  workflow: RawWorkflow,
+  defaults: Partial<Record<NodeType, RawNodeData>>
+): RawWorkflow => ({
+  ...workflow,
+  nodes: workflow.nodes.map((node) => {
+    const nodeDefaults = defaults[node.type as NodeType];
+    if (!nodeDefaults || !isRecord(node.data)) return node;
+    return { ...node, data: { ...nodeDefaults, ...node.data } };
+  }),
+});
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each returns a file of
+ * the next version. To change the file format: bump CURRENT_WORKFLOW_VERSION,
+ * add a migration for the previous version and update the schemas below.
+ */
+const WORKFLOW_MIGRATIONS: Record<number, (workflow: RawWorkflow) => RawWorkflow> = {
+  // v2 allows images to be stored as refs (see utils/imageRefs.ts). Inline
+  // images stay valid, so this only backfills fields added during v1.
+  1: (workflow) => ({
+    ...withDataDefaults(workflow, {
+      nanoBanana: {
+        inputImages: [],
+        inputPrompt: null,
+        outputImage: null,
+        aspectRatio: "1:1",
+        resolution: "1K",
+        model: "nano-banana-pro",
+        useGoogleSearch: false,
+        status: "idle",
+        error: null,
+        imageHistory: [],
+        selectedHistoryIndex: 0,
+      },
+      llmGenerate: {
+        inputPrompt: null,
+        inputImages: [],
+        outputText: null,
+        provider: "google",
+        model: "gemini-3-flash-preview",
+        temperature: 0.7,
+        maxTokens: 8192,
+        status: "idle",
+        error: null,
+      },
+    }),
+    edgeStyle: workflow.edgeStyle ?? "angular",
+    version: 2,
+  }),
+};
+
+// Field checks return a description of what was expected, or null when valid
+type FieldCheck = (value: unknown) => string | null;
+
+const describe = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const string: FieldCheck = (value) => (typeof value === "string" ? null : `expected string, got ${describe(value)}`);
+const number: FieldCheck = (value) =>
+  typeof value === "number" && !isNaN(value) ? null : `expected number, got ${describe(value)}`;
+const boolean: FieldCheck = (value) => (typeof value === "boolean" ? null : `expected boolean, got ${describe(value)}`);
+const object: FieldCheck = (value) => (isRecord(value) ? null : `expected object, got ${describe(value)}`);
+const array = (item?: FieldCheck): FieldCheck => (value) => {
+  if (!Array.isArray(value)) return `expected array, got ${describe(value)}`;
+  if (!item) return null;
+  for (let i = 0; i < value.length; i++) {
+    const problem = item(value[i]);
+    if (problem) return `item ${i}: ${problem}`;
+  }
+  return null;
+};
+const nullable = (check: FieldCheck): FieldCheck => (value) => (value === null ? null : check(value));
+const oneOf = (values: readonly (string | number)[]): FieldCheck => (value) =>
+  (typeof value === "string" || typeof value === "number") && values.includes(value)
+    ? null
+    : `expected one of ${values.join(", ")}, got ${JSON.stringify(value)}`;
+const shape = (fields: Record<string, FieldCheck>): FieldCheck => (value) => {
+  if (!isRecord(value)) return `expected object, got ${describe(value)}`;
+  for (const [field, check] of Object.entries(fields)) {
+    const problem = check(value[field]);
+    if (problem) return `${field}: ${problem}`;
+  }
+  return null;
+};
+
+const ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"] as const;
+const RESOLUTIONS = ["1K", "2K", "4K"] as const;
+const NODE_STATUSES = ["idle", "loading", "complete", "error", "cancelled"] as const;
+const ROUTER_MODES = ["rule", "llm"] as const;
+const ROUTER_OPERATORS = ["contains", "equals", "regex"] as const;
+const PROMPT_SWEEP_SOURCES = ["lines", "csv"] as const;
+const IMAGE_ROTATIONS = [0, 90, 180, 270] as const;
+
+// Required data fields per node type. Optional fields shared by all nodes are in BASE_DATA_SCHEMA.
+const NODE_DATA_SCHEMAS: Record<NodeType, Record<string, FieldCheck>> = {
+  imageInput: {
+    image: nullable(string),
+    filename: nullable(string),
+    dimensions: nullable(object),
+  },
+  annotation: {
+    sourceImage: nullable(string),
+    annotations: array(object),
+    outputImage: nullable(string),
+  },
+  prompt: {
+    prompt: string,
+  },
+  nanoBanana: {
+    inputImages: array(string),
+    inputPrompt: nullable(string),
+    outputImage: nullable(string),
+    aspectRatio: oneOf(ASPECT_RATIOS),
+    resolution: oneOf(RESOLUTIONS),
+    model: string,
+    useGoogleSearch: boolean,
+    status: oneOf(NODE_STATUSES),
+    error: nullable(string),
+    imageHistory: array(object),
+    selectedHistoryIndex: number,
+  },
+  llmGenerate: {
+    inputPrompt: nullable(string),
+    inputImages: array(string),
+    outputText: nullable(string),
+    provider: string,
+    model: string,
+    temperature: number,
+    maxTokens: number,
+    status: oneOf(NODE_STATUSES),
+    error: nullable(string),
+  },
+  splitGrid: {
+    sourceImage: nullable(string),
+    targetCount: number,
+    defaultPrompt: string,
+    generateSettings: object,
+    childNodeIds: array(object),
+    gridRows: number,
+    gridCols: number,
+    isConfigured: boolean,
+    status: oneOf(NODE_STATUSES),
+    error: nullable(string),
+  },
+  output: {
+    image: nullable(string),
+  },
+  subgraph: {
+    subgraph: shape({
+      name: string,
+      nodes: array(object),
+      edges: array(object),
+      inputs: array(object),
+      outputs: array(object),
+    }),
+  },
+  mask: {
+    sourceImage: nullable(string),
+    strokes: array(shape({ points: array(number), size: number, erase: boolean })),
+    mask: nullable(string),
+  },
+  imageTransform: {
+    sourceImage: nullable(string),
+    outputImage: nullable(string),
+    crop: nullable(shape({ x: number, y: number, width: number, height: number })),
+    rotation: oneOf(IMAGE_ROTATIONS),
+    flipHorizontal: boolean,
+    flipVertical: boolean,
+    padAspectRatio: nullable(oneOf(ASPECT_RATIOS)),
+    padColor: string,
+    resizeWidth: nullable(number),
+    resizeHeight: nullable(number),
+    status: oneOf(NODE_STATUSES),
+    error: nullable(string),
+  },
+  combineGrid: {
+    inputImages: array(string),
+    outputImage: nullable(string),
+    gridRows: nullable(number),
+    gridCols: nullable(number),
+    cellWidth: number,
+    gutter: number,
+    backgroundColor: string,
+    status: oneOf(NODE_STATUSES),
+    error: nullable(string),
+  },
+  router: {
+    mode: oneOf(ROUTER_MODES),
+    branches: array(shape({ id: string, name: string, operator: oneOf(ROUTER_OPERATORS), value: string })),
+    caseSensitive: boolean,
+    question: string,
+    provider: string,
+    model: string,
+    inputText: nullable(string),
+    inputImages: array(string),
+    selectedBranch: nullable(string),
+    status: oneOf(NODE_STATUSES),
+    error: nullable(string),
+  },
+};
+
+// Optional data fields per node type, checked only when present
+const OPTIONAL_NODE_DATA_SCHEMAS: Partial<Record<NodeType, Record<string, FieldCheck>>> = {
+  imageInput: {
+    sweep: shape({ images: array(shape({ image: string, filename: string })) }),
+  },
+  prompt: {
+    sweep: shape({ source: oneOf(PROMPT_SWEEP_SOURCES), column: string }),
+  },
+  // Retry policy fields are each optional and invalid ones fall back to the workflow policy
+  nanoBanana: {
+    inputHash: string,
+    retryPolicy: object,
+    chatMode: boolean,
+    chatTurns: array(shape({ prompt: string, images: array(string), image: string, timestamp: number })),
+    candidateCount: number,
+    candidateImages: nullable(array(string)),
+    inputMask: nullable(string),
+  },
+  llmGenerate: {
+    inputHash: string,
+    retryPolicy: object,
+    outputSchema: nullable(string),
+    childNodeIds: array(object),
+  },
+  router: {
+    retryPolicy: object,
+  },
+};
+
+const BASE_DATA_SCHEMA: Record<string, FieldCheck> = {
+  label: string,
+  customTitle: string,
+  comment: string,
+};
+
+const EDGE_STYLES: EdgeStyle[] = ["angular", "curved"];
+
+const isKnownNodeType = (type: unknown): type is NodeType =>
+  typeof type === "string" && Object.prototype.hasOwnProperty.call(NODE_DATA_SCHEMAS, type);
+
+function validateNode(node: unknown, index: number, errors: WorkflowIssue[]): void {
+  const path = `nodes[${index}]`;
+  if (!isRecord(node)) {
+    errors.push({ path, message: `expected object, got ${describe(node)}` });
+    return;
+  }
+
+  const nodeId = typeof node.id === "string" ? node.id : undefined;
+  if (!nodeId) {
+    errors.push({ path: `${path}.id`, message: string(node.id) ?? "must not be empty" });
+  }
+  if (typeof node.type !== "string") {
+    errors.push({ path: `${path}.type`, nodeId, message: string(node.type)! });
+  }
+
+  const position = node.position;
+  if (!isRecord(position) || number(position.x) || number(position.y)) {
+    errors.push({ path: `${path}.position`, nodeId, message: "expected { x: number, y: number }" });
+  }
+
+  if (!isRecord(node.data)) {
+    errors.push({ path: `${path}.data`, nodeId, message: `expected object, got ${describe(node.data)}` });
+    return;
+  }
+
+  // Unknown types are dropped later with a warning - their data can't be checked
+  if (!isKnownNodeType(node.type)) return;
+
+  const data = node.data;
+  Object.entries(NODE_DATA_SCHEMAS[node.type]).forEach(([field, check]) => {
+    const problem = field in data ? check(data[field]) : "missing required field";
+    if (problem) errors.push({ path: `${path}.data.${field}`, nodeId, message: problem });
+  });
+  Object.entries({ ...BASE_DATA_SCHEMA, ...OPTIONAL_NODE_DATA_SCHEMAS[node.type] }).forEach(([field, check]) => {
+    const problem = data[field] === undefined ? null : check(data[field]);
+    if (problem) errors.push({ path: `${path}.data.${field}`, nodeId, message: problem });
+  });
+}
+
+function validateEdge(edge: unknown, index: number, errors: WorkflowIssue[]): void {
+  const path = `edges[${index}]`;
+  if (!isRecord(edge)) {
+    errors.push({ path, message: `expected object, got ${describe(edge)}` });
+    return;
+  }
+  (["id", "source", "target"] as const).forEach((field) => {
+    const problem = string(edge[field]);
+    if (problem) errors.push({ path: `${path}.${field}`, message: problem });
+  });
+}
+
+/**
+ * Migrate and validate a parsed workflow file.
+ * Throws WorkflowValidationError when the file can't be loaded safely.
+ */
+export function prepareWorkflowFile(input: unknown): PreparedWorkflow {
+  if (!isRecord(input)) {
+    throw new WorkflowValidationError([{ path: "(root)", message: `expected object, got ${describe(input)}` }]);
+  }
+
+  const envelopeErrors: WorkflowIssue[] = [];
+  const version = input.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    envelopeErrors.push({ path: "version", message: `expected a positive integer, got ${JSON.stringify(version)}` });
+  } else if (version > CURRENT_WORKFLOW_VERSION) {
+    envelopeErrors.push({
+      path: "version",
+      message: `file is version ${version} but this app only supports up to version ${CURRENT_WORKFLOW_VERSION}. Update Node Banana to open it.`,
+    });
+  }
+  (["nodes", "edges"] as const).forEach((field) => {
+    const problem = array()(input[field]);
+    if (problem) envelopeErrors.push({ path: field, message: problem });
+  });
+  if (envelopeErrors.length > 0) {
+    throw new WorkflowValidationError(envelopeErrors);
+  }
+
+  // Upgrade one version at a time
+  let raw = input as RawWorkflow;
+  const originalVersion = raw.version;
+  while (raw.version < CURRENT_WORKFLOW_VERSION) {
+    const migrate = WORKFLOW_MIGRATIONS[raw.version];
+    if (!migrate) {
+      throw new WorkflowValidationError([{ path: "version", message: `no migration from version ${raw.version}` }]);
+    }
+    raw = migrate(raw);
+  }
+
+  const errors: WorkflowIssue[] = [];
+  raw.nodes.forEach((node, index) => validateNode(node, index, errors));
+  raw.edges.forEach((edge, index) => validateEdge(edge, index, errors));
+  if (errors.length > 0) {
+    throw new WorkflowValidationError(errors);
+  }
+
+  // Repairable problems
+  const warnings: WorkflowIssue[] = [];
+  const groups = isRecord(raw.groups) ? raw.groups : undefined;
+  if (raw.groups !== undefined && !groups) {
+    warnings.push({ path: "groups", message: `expected object, got ${describe(raw.groups)}, groups removed` });
+  }
+
+  const nodeIds = new Set<string>();
+  const nodes = raw.nodes.flatMap((node, index) => {
+    const nodeId = node.id as string;
+    if (!isKnownNodeType(node.type)) {
+      warnings.push({ path: `nodes[${index}].type`, nodeId, message: `unknown node type "${node.type}", node removed` });
+      return [];
+    }
+    if (nodeIds.has(nodeId)) {
+      warnings.push({ path: `nodes[${index}].id`, nodeId, message: "duplicate node ID, node removed" });
+      return [];
+    }
+    nodeIds.add(nodeId);
+
+    if (node.groupId !== undefined && !(groups && Object.prototype.hasOwnProperty.call(groups, node.groupId as string))) {
+      warnings.push({ path: `nodes[${index}].groupId`, nodeId, message: "group not found, node ungrouped" });
+      return [{ ...node, groupId: undefined }];
+    }
+    return [node];
+  });
+
+  const edges = raw.edges.filter((edge, index) => {
+    const missing = [edge.source, edge.target].find((id) => !nodeIds.has(id as string));
+    if (missing) {
+      warnings.push({ path: `edges[${index}]`, message: `connects to missing node "${missing}", edge removed` });
+      return false;
+    }
+    return true;
+  });
+
+  let edgeStyle = raw.edgeStyle as EdgeStyle;
+  if (!EDGE_STYLES.includes(edgeStyle)) {
+    warnings.push({ path: "edgeStyle", message: `expected one of ${EDGE_STYLES.join(", ")}, using "angular"` });
+    edgeStyle = "angular";
+  }
+
+  return {
+    workflow: {
+      ...(raw as unknown as WorkflowFile),
+      version: CURRENT_WORKFLOW_VERSION,
+      name: typeof raw.name === "string" ? raw.name : "Untitled workflow",
+      nodes: nodes as unknown as WorkflowNode[],
+      edges: edges as unknown as WorkflowEdge[],
+      edgeStyle,
+      groups: groups as WorkflowFile["groups"],
+    },
+    migratedFrom: originalVersion < CURRENT_WORKFLOW_VERSION ? originalVersion : null,
+    warnings,
+  };
+}